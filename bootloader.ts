@@ -5,9 +5,12 @@ import fs from "node:fs";
 import root from "app-root-path";
 import { GatewayIntentBits } from "discord.js";
 import color from "colors/safe.js";
-import DiscordFileStorageApp, { print, printAndExit } from "./src/DiscordFileStorageApp.js";
+import DiscordFileStorageApp, { DiscordFileStorageAppOptions, print, printAndExit } from "./src/DiscordFileStorageApp.js";
 import WebdavFilesystemHandler from "./src/webdav/WebdavFilesystemHandler.js";
 import WebdavServer, { ServerOptions } from "./src/webdav/WebdavServer.js";
+import UserStore from "./src/auth/UserStore.js";
+import { parseByteSize } from "./src/helper/ByteSize.js";
+import { DEFAULT_UPLOAD_SESSION_MAX_AGE_DAYS } from "./src/upload/UploadSessionStore.js";
 
 process.env["NODE_TLS_REJECT_UNAUTHORIZED"] = 0 as any;
 //Without it throws error: cause: Error [ERR_TLS_CERT_ALTNAME_INVALID]: Hostname/IP does not match certificate's altnames: Host: localhost. is not in the cert's altnames: DNS: ***
@@ -27,15 +30,36 @@ export interface IBootParams {
     webdavPort: number;
     startWebdavServer: boolean;
     enableHttps: boolean;
+    htmlBrowser: boolean;
     skipPreload: boolean;
     enableAuth: boolean;
     users: string;
+    usersFile: string;
+    sharesFile: string;
     enableEncrypt: boolean;
     encryptPassword: string;
+    chunkStore: string;
+    chunkStorePath: string;
+    apiBaseUrl: string;
+    metaCachePath: string;
+    downloadConcurrency: number;
+    uploadConcurrency: number;
+    uploadRetries: number;
+    uploadSessionPath: string;
+    uploadSessionMaxAgeDays: number;
+    deleteQueuePath: string;
+    versionsKeep: number;
+    versionsMaxAgeDays: number;
+    trash: boolean;
+    trashMaxAgeDays: number;
+    quota: string;
+    userQuota: string;
 }
 
 export interface IBootParamsParsed extends IBootParams {
     usersParsed: IUserRecord[];
+    quotaBytes: number;
+    userQuotaBytes: number;
 }
 
 function bootPrecheck(params: IBootParams): IBootParamsParsed {
@@ -43,23 +67,63 @@ function bootPrecheck(params: IBootParams): IBootParamsParsed {
         printAndExit("Please set the ENCRYPT_PASSWORD to your encryption password.");
     }
 
-    // regex: key:value,key:value,...
-    if(params.enableAuth && !(/^(?:\w+:\w+,)*\w+:\w+$/i).test(params.users)){
-        printAndExit("USERS env variable is not in correct format. Please use format username1:password1,username2:password2");
+    if (params.chunkStore != "discord" && params.chunkStore != "local") {
+        printAndExit("CHUNK_STORE env variable should be either discord or local.");
+    }
+
+    if (params.downloadConcurrency < 1) {
+        printAndExit("DOWNLOAD_CONCURRENCY env variable should be at least 1.");
+    }
+
+    if (params.uploadConcurrency < 1) {
+        printAndExit("UPLOAD_CONCURRENCY env variable should be at least 1.");
+    }
+
+    if (params.uploadRetries < 0) {
+        printAndExit("UPLOAD_RETRIES env variable should not be negative.");
+    }
+
+    if (params.versionsKeep < 0) {
+        printAndExit("VERSIONS_KEEP env variable should not be negative.");
+    }
+
+    if (params.versionsMaxAgeDays < 0) {
+        printAndExit("VERSIONS_MAX_AGE env variable should not be negative.");
+    }
+
+    if (params.uploadSessionMaxAgeDays < 0) {
+        printAndExit("UPLOAD_SESSION_MAX_AGE env variable should not be negative.");
+    }
+
+    if (params.trashMaxAgeDays < 0) {
+        printAndExit("TRASH_MAX_AGE env variable should not be negative.");
+    }
+
+    const quotaBytes = parseByteSize(params.quota);
+    if (quotaBytes === undefined) {
+        printAndExit("QUOTA env variable should be a size, like 500G or 1073741824.");
     }
 
-    const usersParsed: IUserRecord[] = params.users.split(",").map((user) => {
-        const [username, password] = user.split(":");
-        return { username, password };
+    const userQuotaBytes = parseByteSize(params.userQuota);
+    if (userQuotaBytes === undefined) {
+        printAndExit("USER_QUOTA env variable should be a size, like 10G or 1073741824.");
+    }
+
+    // username:password,username:password,... password may contain colons, but not commas.
+    const usersParsed: IUserRecord[] = params.users.split(",").filter(user => user.length > 0).map((user) => {
+        const separator = user.indexOf(":");
+        return { username: user.slice(0, separator), password: user.slice(separator + 1) };
     });
 
-    if (params.enableAuth && usersParsed.length == 0) {
-        printAndExit("USERS env variable is empty. Please set at least one user.");
+    if (usersParsed.some(user => !UserStore.isValidUsername(user.username) || user.password.length == 0)) {
+        printAndExit("USERS env variable is not in correct format. Please use format username1:password1,username2:password2");
     }
 
     return {
         ...params,
         usersParsed,
+        quotaBytes: quotaBytes!,
+        userQuotaBytes: userQuotaBytes!,
     };
 }
 
@@ -68,7 +132,7 @@ export async function boot(data: IBootParams){
     console.log(`NodeJS version: ${process.version}`);
     console.log(color.yellow("Starting DiscordFileStorage..."));
     const params = bootPrecheck(data);
-    const app = new DiscordFileStorageApp({
+    const options: DiscordFileStorageAppOptions = {
         intents: [
             GatewayIntentBits.MessageContent,
         ],
@@ -77,7 +141,37 @@ export async function boot(data: IBootParams){
         
         shouldEncrypt: params.enableEncrypt,
         encryptPassword: params.encryptPassword,
-    }, params.guildId);
+
+        chunkStore: params.chunkStore as "discord" | "local",
+        chunkStorePath: params.chunkStorePath,
+
+        metaCachePath: params.metaCachePath,
+
+        downloadConcurrency: params.downloadConcurrency,
+        uploadConcurrency: params.uploadConcurrency,
+        uploadRetries: params.uploadRetries,
+        uploadSessionPath: params.uploadSessionPath,
+        uploadSessionMaxAgeDays: params.uploadSessionMaxAgeDays,
+        deleteQueuePath: params.deleteQueuePath,
+
+        versionsKeep: params.versionsKeep,
+        versionsMaxAgeDays: params.versionsMaxAgeDays,
+
+        trash: params.trash,
+        trashMaxAgeDays: params.trashMaxAgeDays,
+
+        usersFile: params.usersFile,
+        sharesFile: params.sharesFile,
+        quota: params.quotaBytes,
+        userQuota: params.userQuotaBytes,
+    };
+
+    if (params.apiBaseUrl) {
+        console.log(color.yellow("Using discord api at " + params.apiBaseUrl));
+        options.rest = { api: params.apiBaseUrl };
+    }
+
+    const app = new DiscordFileStorageApp(options, params.guildId);
 
     console.log(color.yellow("Logging in..."));
     await app.login(params.token);
@@ -86,15 +180,18 @@ export async function boot(data: IBootParams){
 
     if (!params.skipPreload) {
         console.log(color.yellow("Preloading files..."));
-        await app.loadFiles();
     } else {
-        console.log(color.yellow("Skipping preload..."));
+        console.log(color.yellow("Skipping preload, loading files from metadata cache only..."));
     }
+    await app.loadFiles(params.skipPreload);
 
     if (params.startWebdavServer) {
+        app.startMaintenanceJobs();
+
         const serverLaunchOptions: ServerOptions = {
             port: params.webdavPort,   
             rootFileSystem: new WebdavFilesystemHandler(app),
+            htmlBrowser: params.htmlBrowser,
         }
 
         if (params.enableHttps) {
@@ -115,13 +212,23 @@ export async function boot(data: IBootParams){
    
 
         if (params.enableAuth) {
-            if(params.users.length === 0) {
-                printAndExit("Please set the USERS to your users in format username:password,username:password or add at least one user.");
+            const userStore = app.getUserStore();
+            // plain text passwords from USERS are moved into the users file, where they are hashed.
+            for (const user of params.usersParsed) {
+                if (!userStore.getUser(user.username)) {
+                    await userStore.addUser(user.username, user.password);
+                    console.log(color.yellow("Moved user " + user.username + " from USERS env variable to " + params.usersFile + ", please remove it from USERS."));
+                }
+            }
+
+            if (userStore.getUsers().length == 0) {
+                printAndExit("There are no users in " + params.usersFile + ". Please add at least one user with yarn cli users add <name>.");
             }
 
             console.log("Detected AUTH env variable. Starting webdav server with auth enabled.");
             serverLaunchOptions.enableAuth = true;
-            serverLaunchOptions.users = params.usersParsed;
+            serverLaunchOptions.userStore = userStore;
+            await app.getAccessControl().ensureHomes(userStore.getUsers().map(user => user.username));
         }
 
         console.log("Starting webdav server...");
@@ -155,14 +262,35 @@ export async function envBoot() {
     const webdavPort = checkEnvVariableIsSet("PORT", "Please set the PORT to your webdav server port.", "number", 3000) as number;
 
     const enableHttps = checkEnvVariableIsSet("ENABLE_HTTPS", "Please set the ENABLE_HTTPS to true or false to enable https.", "boolean", false) as boolean;
+    const htmlBrowser = checkEnvVariableIsSet("HTML_BROWSER", "Please set the HTML_BROWSER to true or false to show folders as html pages in browsers.", "boolean", true) as boolean;
     const skipPreload = checkEnvVariableIsSet("SKIP_PRELOAD", "Please set the SKIP_PRELOAD to true or false to skip preload.", "boolean", false) as boolean;
 
     const enableAuth = checkEnvVariableIsSet("AUTH", "Please set the AUTH to true or false to enable auth.", "boolean", false) as boolean;
     const users = checkEnvVariableIsSet("USERS", "Please set the USERS to your users in format username:password,username:password", "string", "") as string;
+    const usersFile = checkEnvVariableIsSet("USERS_FILE", "Please set the USERS_FILE to file where users and their password hashes are stored.", "string", "users.json") as string;
+    const sharesFile = checkEnvVariableIsSet("SHARES_FILE", "Please set the SHARES_FILE to file where share links are stored.", "string", "shares.json") as string;
     
     const enableEncrypt = checkEnvVariableIsSet("ENCRYPT", "Please set the ENCRYPT to true or false to enable encryption.", "boolean", false) as boolean;
     const encryptPassword = checkEnvVariableIsSet("ENCRYPT_PASS", "Please set the ENCRYPT_PASSWORD to your encryption password.", "string", "") as string;
 
+    const chunkStore = checkEnvVariableIsSet("CHUNK_STORE", "Please set the CHUNK_STORE to discord or local.", "string", "discord") as string;
+    const chunkStorePath = checkEnvVariableIsSet("CHUNK_STORE_PATH", "Please set the CHUNK_STORE_PATH to directory where local chunks are stored.", "string", ".chunks") as string;
+
+    const apiBaseUrl = checkEnvVariableIsSet("DISCORD_API_URL", "Please set the DISCORD_API_URL to discord compatible api base url.", "string", "") as string;
+    const metaCachePath = checkEnvVariableIsSet("META_CACHE_PATH", "Please set the META_CACHE_PATH to file where metadata cache is stored.", "string", ".cache/metadata.jsonl") as string;
+    const downloadConcurrency = checkEnvVariableIsSet("DOWNLOAD_CONCURRENCY", "Please set the DOWNLOAD_CONCURRENCY to number of chunks downloaded at once.", "number", 3) as number;
+    const uploadConcurrency = checkEnvVariableIsSet("UPLOAD_CONCURRENCY", "Please set the UPLOAD_CONCURRENCY to number of chunks uploaded at once.", "number", 3) as number;
+    const uploadRetries = checkEnvVariableIsSet("UPLOAD_RETRIES", "Please set the UPLOAD_RETRIES to number of retries of a failed chunk upload.", "number", 5) as number;
+    const uploadSessionPath = checkEnvVariableIsSet("UPLOAD_SESSION_PATH", "Please set the UPLOAD_SESSION_PATH to directory where unfinished uploads are stored.", "string", ".cache/uploads") as string;
+    const uploadSessionMaxAgeDays = checkEnvVariableIsSet("UPLOAD_SESSION_MAX_AGE", "Please set the UPLOAD_SESSION_MAX_AGE to number of days unfinished uploads are kept without activity.", "number", DEFAULT_UPLOAD_SESSION_MAX_AGE_DAYS) as number;
+    const deleteQueuePath = checkEnvVariableIsSet("DELETE_QUEUE_PATH", "Please set the DELETE_QUEUE_PATH to file where chunks waiting for deletion are stored.", "string", ".cache/delete-queue.json") as string;
+    const versionsKeep = checkEnvVariableIsSet("VERSIONS_KEEP", "Please set the VERSIONS_KEEP to number of old versions kept per file.", "number", 5) as number;
+    const versionsMaxAgeDays = checkEnvVariableIsSet("VERSIONS_MAX_AGE", "Please set the VERSIONS_MAX_AGE to number of days old versions are kept.", "number", 30) as number;
+    const trash = checkEnvVariableIsSet("TRASH", "Please set the TRASH to true or false to move deleted files into the trash.", "boolean", true) as boolean;
+    const trashMaxAgeDays = checkEnvVariableIsSet("TRASH_MAX_AGE", "Please set the TRASH_MAX_AGE to number of days deleted entries are kept in the trash.", "number", 30) as number;
+    const quota = checkEnvVariableIsSet("QUOTA", "Please set the QUOTA to size of all stored data, like 500G. 0 is unlimited.", "string", "0") as string;
+    const userQuota = checkEnvVariableIsSet("USER_QUOTA", "Please set the USER_QUOTA to size of data stored per user, like 10G. 0 is unlimited.", "string", "0") as string;
+
     return await boot({
         token,
         guildId,
@@ -171,11 +299,30 @@ export async function envBoot() {
         webdavPort,
         startWebdavServer,
         enableHttps,
+        htmlBrowser,
         skipPreload,
         enableAuth,
         users: users,
+        usersFile,
+        sharesFile,
         enableEncrypt,
         encryptPassword,
+        chunkStore,
+        chunkStorePath,
+        apiBaseUrl,
+        metaCachePath,
+        downloadConcurrency,
+        uploadConcurrency,
+        uploadRetries,
+        uploadSessionPath,
+        uploadSessionMaxAgeDays,
+        deleteQueuePath,
+        versionsKeep,
+        versionsMaxAgeDays,
+        trash,
+        trashMaxAgeDays,
+        quota,
+        userQuota,
     })
 
     
@@ -0,0 +1,222 @@
+import color from "colors/safe.js";
+import crypto from "crypto";
+import { checkEnvVariableIsSet, envBoot } from "./bootloader.js";
+import ChunkGarbageCollector from "./src/maintenance/ChunkGarbageCollector.js";
+import MetadataFsck from "./src/maintenance/MetadataFsck.js";
+import { AccessLevel } from "./src/access/AccessControl.js";
+import UserStore from "./src/auth/UserStore.js";
+import { formatByteSize, parseByteSize } from "./src/helper/ByteSize.js";
+import { parseArgs } from "./src/helper/CliArgs.js";
+
+const USAGE = `Usage: yarn cli <command> [options]
+
+Commands:
+  gc       Finds chunks which are not referenced by any file and deletes them.
+           --delete          delete found chunks, without it only report is printed (dry run).
+           --min-age=<time>  skip chunks younger than this, they may belong to running uploads. Default 24h. Examples: 30m, 12h, 7d.
+           --force           run even if some file metadata failed to load.
+  fsck     Checks file records in the metadata channel: invalid records, wrong sizes, missing chunks, path collisions.
+           --repair          move broken files to /lost+found.
+           --skip-chunks     do not check that chunks exist (listing all chunks is slow with a lot of files).
+  access   Prints access rules. Principals are user:<name>, group:<name> or * for every user. Restart the server to apply changes.
+           access grant <path> <principal> <read|write|none>   sets access of the principal to the path and everything below it.
+           access revoke <path> <principal>                    removes the rule, access comes from rules of parent paths again.
+           access group <group> [users...]                     sets members of the group, without users the group is removed.
+           access readonly <principal> <on|off>                principal never gets write access.
+           access homes <on|off>                               every user gets own /home/<user> folder, hidden from other users.
+  users    Lists users of the webdav server, stored with hashed passwords in USERS_FILE. Restart the server to apply changes.
+           users add <name>      adds the user.
+           users reset <name>    sets new password of the user.
+           users remove <name>   removes the user.
+           users quota <name> <size|default>   sets storage limit of the user, like 10G, 0 is unlimited. default uses USER_QUOTA.
+           --password=<password> password of the user, without it a random password is generated and printed.
+           --no-digest           store only the password hash, user can log in with basic authentication only.
+`;
+
+// "30m" => 1800000
+function parseDuration(value: string): number {
+    const match = /^(\d+)(ms|s|m|h|d)?$/.exec(value.trim());
+    if (!match) {
+        throw new Error("Invalid duration: " + value);
+    }
+
+    const units: { [unit: string]: number } = { ms: 1, s: 1000, m: 60 * 1000, h: 60 * 60 * 1000, d: 24 * 60 * 60 * 1000 };
+    return parseInt(match[1], 10) * units[match[2] ?? "ms"];
+}
+
+function parseSwitch(value: string | undefined): boolean {
+    if (value != "on" && value != "off") {
+        throw new Error("Expected on or off, got " + value);
+    }
+    return value == "on";
+}
+
+async function gc(flags: Map<string, string>) {
+    const dryRun = !flags.has("delete");
+    const minAge = parseDuration(flags.get("min-age") ?? "24h");
+
+    const app = await envBoot();
+    const result = await new ChunkGarbageCollector(app).collect({ dryRun, minAge, force: flags.has("force") });
+
+    for (const chunk of result.orphans) {
+        console.log(chunk.id + "\t" + chunk.length + " bytes\t" + chunk.createdAt.toISOString());
+    }
+    console.log(color.green("Orphaned chunks: " + result.orphans.length + ", total size: " + result.orphanedSize + " bytes."));
+    if (dryRun) {
+        console.log(color.yellow("Dry run, nothing was deleted. Run with --delete to delete them."));
+    }
+
+    app.destroy();
+}
+
+async function fsck(flags: Map<string, string>) {
+    const app = await envBoot();
+    const result = await new MetadataFsck(app).check({ repair: flags.has("repair"), checkChunks: !flags.has("skip-chunks") });
+
+    if (result.problems.length == 0) {
+        console.log(color.green("No problems found in " + result.checkedRecords + " file records."));
+    } else if (!flags.has("repair")) {
+        console.log(color.yellow("Found " + result.problems.length + " problems. Run with --repair to move broken files to /" + MetadataFsck.LOST_AND_FOUND + "."));
+    }
+
+    app.destroy();
+    process.exit(result.problems.length > 0 && !flags.has("repair") ? 1 : 0);
+}
+
+async function access(positional: string[]) {
+    const [action, ...args] = positional;
+    const app = await envBoot();
+    const accessControl = app.getAccessControl();
+
+    switch (action) {
+        case undefined:
+            break;
+        case "grant":
+            if (args.length != 3) {
+                throw new Error("Usage: access grant <path> <principal> <read|write|none>");
+            }
+            accessControl.setRule(args[0], args[1], args[2] as AccessLevel);
+            break;
+        case "revoke":
+            if (args.length != 2) {
+                throw new Error("Usage: access revoke <path> <principal>");
+            }
+            if (!accessControl.removeRule(args[0], args[1])) {
+                throw new Error("There is no rule for " + args[1] + " at " + args[0]);
+            }
+            break;
+        case "group":
+            if (args.length == 0) {
+                throw new Error("Usage: access group <group> [users...]");
+            }
+            accessControl.setGroup(args[0], args.slice(1));
+            break;
+        case "readonly":
+            if (args.length != 2) {
+                throw new Error("Usage: access readonly <principal> <on|off>");
+            }
+            accessControl.setReadOnly(args[0], parseSwitch(args[1]));
+            break;
+        case "homes":
+            accessControl.setHomes(parseSwitch(args[0]));
+            break;
+        default:
+            throw new Error("Unknown access command " + action);
+    }
+
+    if (action) {
+        await accessControl.save();
+        console.log(color.green("Access rules saved."));
+    }
+
+    const record = accessControl.getRecord();
+    console.log("Home folders: " + (record.homes ? "on" : "off"));
+    for (const group of Object.keys(record.groups)) {
+        console.log("Group " + group + ": " + record.groups[group].join(", "));
+    }
+    console.log("Read only: " + (record.readOnly.length > 0 ? record.readOnly.join(", ") : "nobody"));
+    for (const rule of record.rules) {
+        console.log(rule.path + "\t" + rule.principal + "\t" + rule.access);
+    }
+
+    app.destroy();
+}
+
+async function users(positional: string[], flags: Map<string, string>) {
+    const [action, username, value] = positional;
+    const usersFile = checkEnvVariableIsSet("USERS_FILE", "Please set the USERS_FILE to file where users and their password hashes are stored.", "string", "users.json") as string;
+    const store = new UserStore(usersFile);
+    if (action && !username) {
+        throw new Error("Usage: users " + action + " <name>");
+    }
+
+    const password = flags.get("password") ?? crypto.randomBytes(12).toString("base64url");
+    const digest = !flags.has("no-digest");
+    switch (action) {
+        case undefined:
+            for (const user of store.getUsers()) {
+                const quota = user.quota === undefined ? "" : "\tquota " + (user.quota == 0 ? "unlimited" : formatByteSize(user.quota));
+                console.log(user.username + quota + (user.ha1 ? "" : "\t(basic authentication only)"));
+            }
+            return;
+        case "add":
+            await store.addUser(username, password, digest);
+            break;
+        case "reset":
+            await store.setPassword(username, password, digest);
+            break;
+        case "remove":
+            if (!store.removeUser(username)) {
+                throw new Error("User " + username + " does not exist");
+            }
+            console.log(color.green("Removed user " + username + "."));
+            return;
+        case "quota": {
+            const quota = value == "default" ? undefined : parseByteSize(value ?? "");
+            if (value != "default" && quota === undefined) {
+                throw new Error("Usage: users quota <name> <size|default>");
+            }
+            store.setQuota(username, quota);
+            console.log(color.green("Set quota of " + username + " to " + (quota === undefined ? "USER_QUOTA" : quota == 0 ? "unlimited" : formatByteSize(quota)) + "."));
+            return;
+        }
+        default:
+            throw new Error("Unknown users command " + action);
+    }
+
+    console.log(color.green("Saved user " + username + " to " + usersFile + "."));
+    if (!flags.has("password")) {
+        console.log("Generated password: " + password);
+    }
+}
+
+async function main() {
+    const { command, positional, flags } = parseArgs(process.argv.slice(2));
+    // commands use the bot and metadata only.
+    process.env.START_WEBDAV = "false";
+
+    switch (command) {
+        case "gc":
+            await gc(flags);
+            break;
+        case "fsck":
+            await fsck(flags);
+            break;
+        case "access":
+            await access(positional);
+            break;
+        case "users":
+            await users(positional, flags);
+            break;
+        default:
+            console.log(USAGE);
+            process.exit(command ? 1 : 0);
+    }
+
+    process.exit(0);
+}
+
+main().catch((err) => {
+    console.log(color.red(err instanceof Error ? err.message : String(err)));
+    process.exit(1);
+});
@@ -1,10 +1,23 @@
-import { ChannelType, Client, ClientOptions, FetchMessagesOptions, Guild, GuildBasedChannel, Message, TextBasedChannel, TextChannel } from 'discord.js';
+import { ChannelType, Client, ClientOptions, FetchMessagesOptions, Guild, GuildBasedChannel, Message, SnowflakeUtil, TextBasedChannel, TextChannel } from 'discord.js';
 import color from 'colors/safe.js';
 import DiscordFileManager from './RemoteFileManager.js';
+import IChunkStore from './chunk-store/IChunkStore.js';
+import DiscordChunkStore from './chunk-store/DiscordChunkStore.js';
+import LocalChunkStore from './chunk-store/LocalChunkStore.js';
 import axios from './helper/AxiosInstance.js';
 import RemoteFile from './file/RemoteFile.js';
 import { VirtualFS } from './file/filesystem/Folder.js';
 import { make } from './Log.js';
+import MetadataJournal from './metadata/MetadataJournal.js';
+import UploadSessionStore, { DEFAULT_UPLOAD_SESSION_MAX_AGE_DAYS } from './upload/UploadSessionStore.js';
+import ChunkDeleteQueue from './chunk-store/ChunkDeleteQueue.js';
+import MetadataLoader from './metadata/MetadataLoader.js';
+import { compareSnowflakes } from './helper/Snowflake.js';
+import VersionRetention from './maintenance/VersionRetention.js';
+import TrashPurge from './maintenance/TrashPurge.js';
+import AccessControl from './access/AccessControl.js';
+import UserStore from './auth/UserStore.js';
+import ShareStore from './share/ShareStore.js';
 
 export interface DiscordFileStorageAppOptions extends ClientOptions {
     metaChannelName: string;
@@ -12,6 +25,29 @@ export interface DiscordFileStorageAppOptions extends ClientOptions {
 
     shouldEncrypt: boolean;
     encryptPassword?: string;
+
+    chunkStore?: "discord" | "local";
+    chunkStorePath?: string;
+
+    metaCachePath: string;
+
+    downloadConcurrency?: number;
+    uploadConcurrency?: number;
+    uploadRetries?: number;
+    uploadSessionPath?: string;
+    uploadSessionMaxAgeDays?: number; // DEFAULT_UPLOAD_SESSION_MAX_AGE_DAYS if not set, 0 keeps sessions of unfinished uploads until they finish.
+    deleteQueuePath?: string;
+
+    versionsKeep?: number; // old versions kept per file, 0 disables version history.
+    versionsMaxAgeDays?: number; // 0 keeps versions regardless of age.
+
+    trash?: boolean; // deleted entries are moved into /.trash.
+    trashMaxAgeDays?: number; // 0 keeps entries in the trash until they are deleted there.
+
+    usersFile?: string;
+    sharesFile?: string;
+    quota?: number; // bytes for all stored data, 0 is unlimited.
+    userQuota?: number; // bytes per user, 0 is unlimited.
 }
 
 /**
@@ -25,9 +61,26 @@ export default class DiscordFileStorageApp extends Client {
     private channelsToCreate: Array<string>;
     private discordFileManager: DiscordFileManager;
     private filesystem: VirtualFS = new VirtualFS();
+    private metadataJournal: MetadataJournal;
 
     private shouldEncrypt;
     private encryptPassword;
+    private downloadConcurrency: number;
+    private uploadConcurrency: number;
+    private uploadRetries: number;
+    private uploadSessions: UploadSessionStore;
+    private chunkDeleteQueue: ChunkDeleteQueue;
+    private accessControl: AccessControl = new AccessControl(this);
+    private userStore: UserStore;
+    private shareStore: ShareStore;
+    private quota: number;
+    private userQuota: number;
+    private metadataComplete: boolean = false;
+    private versionsKeep: number;
+    private versionsMaxAge: number;
+    private trash: boolean;
+    private trashMaxAge: number;
+    private maintenanceTimers: NodeJS.Timeout[] = [];
 
     public static instance: DiscordFileStorageApp;
     private logger = make("DiscordFileStorageApp", true);
@@ -49,12 +102,36 @@ export default class DiscordFileStorageApp extends Client {
 
         this.shouldEncrypt = options.shouldEncrypt;
         this.encryptPassword = options.encryptPassword ?? "";
+        this.downloadConcurrency = options.downloadConcurrency ?? 1;
+        this.uploadConcurrency = options.uploadConcurrency ?? 1;
+        this.uploadRetries = options.uploadRetries ?? 0;
+        this.uploadSessions = new UploadSessionStore(options.uploadSessionPath ?? ".cache/uploads", (options.uploadSessionMaxAgeDays ?? DEFAULT_UPLOAD_SESSION_MAX_AGE_DAYS) * 24 * 60 * 60 * 1000);
+        this.versionsKeep = options.versionsKeep ?? 0;
+        this.versionsMaxAge = (options.versionsMaxAgeDays ?? 0) * 24 * 60 * 60 * 1000;
+        this.trash = options.trash ?? false;
+        this.trashMaxAge = (options.trashMaxAgeDays ?? 0) * 24 * 60 * 60 * 1000;
+        this.userStore = new UserStore(options.usersFile ?? "users.json");
+        this.shareStore = new ShareStore(options.sharesFile ?? "shares.json");
+        this.quota = options.quota ?? 0;
+        this.userQuota = options.userQuota ?? 0;
 
         this.guildId = guildId;
-        this.discordFileManager = new DiscordFileManager(this);
+        this.metadataJournal = new MetadataJournal(options.metaCachePath);
+        const store = this.createChunkStore(options);
+        this.chunkDeleteQueue = new ChunkDeleteQueue(store, options.deleteQueuePath ?? ".cache/delete-queue.json");
+        this.discordFileManager = new DiscordFileManager(this, store);
 
     }
 
+    private createChunkStore(options: DiscordFileStorageAppOptions): IChunkStore {
+        if (options.chunkStore == "local") {
+            this.logger.info("Using local chunk store at " + options.chunkStorePath);
+            return new LocalChunkStore(options.chunkStorePath!);
+        }
+
+        return new DiscordChunkStore(this);
+    }
+
     public shouldEncryptFiles(): boolean {
         return this.shouldEncrypt;
     }
@@ -63,6 +140,98 @@ export default class DiscordFileStorageApp extends Client {
         return this.encryptPassword;
     }
 
+    public getDownloadConcurrency(): number {
+        return this.downloadConcurrency;
+    }
+
+    public getUploadConcurrency(): number {
+        return this.uploadConcurrency;
+    }
+
+    public getUploadRetries(): number {
+        return this.uploadRetries;
+    }
+
+    public getUploadSessions(): UploadSessionStore {
+        return this.uploadSessions;
+    }
+
+    public getChunkDeleteQueue(): ChunkDeleteQueue {
+        return this.chunkDeleteQueue;
+    }
+
+    public getAccessControl(): AccessControl {
+        return this.accessControl;
+    }
+
+    public getUserStore(): UserStore {
+        return this.userStore;
+    }
+
+    public getShareStore(): ShareStore {
+        return this.shareStore;
+    }
+
+    /**
+     * Limit of all stored data in bytes, 0 if there is no limit.
+     */
+    public getQuota(): number {
+        return this.quota;
+    }
+
+    /**
+     * Default limit of data owned by a user in bytes, 0 if there is no limit.
+     */
+    public getUserQuota(): number {
+        return this.userQuota;
+    }
+
+    public getVersionsKeep(): number {
+        return this.versionsKeep;
+    }
+
+    /**
+     * Max age of old file versions in ms, 0 if versions are kept regardless of age.
+     */
+    public getVersionsMaxAge(): number {
+        return this.versionsMaxAge;
+    }
+
+    public isTrashEnabled(): boolean {
+        return this.trash;
+    }
+
+    /**
+     * Time in ms after which entries are deleted from the trash, 0 if they are kept until deleted there.
+     */
+    public getTrashMaxAge(): number {
+        return this.trashMaxAge;
+    }
+
+    /**
+     * Periodically deletes file versions which are too old or exceed the kept count, and entries which are in the trash for too long.
+     */
+    public startMaintenanceJobs(): void {
+        if (this.maintenanceTimers.length > 0) {
+            return;
+        }
+
+        const retention = new VersionRetention(this);
+        const purge = new TrashPurge(this);
+        this.maintenanceTimers = [
+            setInterval(() => retention.run().catch(err => this.logger.error("Version retention failed", err)), VersionRetention.INTERVAL),
+            setInterval(() => purge.run().catch(err => this.logger.error("Trash purge failed", err)), TrashPurge.INTERVAL),
+        ];
+        this.maintenanceTimers.forEach(timer => timer.unref());
+    }
+
+    public override destroy(): void {
+        this.maintenanceTimers.splice(0).forEach(timer => clearInterval(timer));
+        this.chunkDeleteQueue.stop();
+        this.metadataJournal.close();
+        super.destroy();
+    }
+
 
     public async getGuild(): Promise<Guild> {
         return this.guilds.cache.get(this.guildId)!.fetch();
@@ -78,6 +247,10 @@ export default class DiscordFileStorageApp extends Client {
 
     public async waitForReady(): Promise<void> {
         return new Promise((resolve, reject) => {
+            // ready may be emitted before login() resolves when guilds arrive together with READY.
+            if (this.isReady()) {
+                return resolve();
+            }
             this.once("ready", resolve as any);
         });
     }
@@ -140,41 +313,91 @@ export default class DiscordFileStorageApp extends Client {
     }
 
     /**
-     * loadFiles
+     * True if files were loaded with all metadata from the metadata channel, so VirtualFS knows every existing file.
      */
-    public async loadFiles() {
-        console.log(color.yellow("Fetching files... This may take a while if there are a lot of files"))
-        let totalLoadedFiles = 0;
-        let failedFiles = 0;
+    public isMetadataComplete(): boolean {
+        return this.metadataComplete;
+    }
 
+    public getMetadataJournal(): MetadataJournal {
+        return this.metadataJournal;
+    }
+
+    /**
+     * True if the journal has no record of the message, or the message was edited after the record was taken (by other process, like cli).
+     */
+    private isChangedSinceJournal(msg: Message): boolean {
+        if (!this.metadataJournal.getRecords().has(msg.id)) {
+            return true;
+        }
+
+        // records cached without edit time are compared with the time of the last synced message.
+        const lastMessageId = this.metadataJournal.getLastMessageId();
+        const known = this.metadataJournal.getEditedAt(msg.id) ?? (lastMessageId ? SnowflakeUtil.timestampFrom(lastMessageId) : 0);
+        return (msg.editedTimestamp ?? msg.createdTimestamp) > known;
+    }
+
+    /**
+     * Brings the metadata journal in line with the metadata channel. Messages are listed without their attachments, attachments
+     * are downloaded only for new messages and messages edited since the journal got them. Records of deleted messages are removed.
+     * Listing is O(channel), one request per 100 messages on every boot: discord cannot list only messages edited or deleted
+     * since some time, and other processes (cli) change records while the server is not running.
+     */
+    private async syncMetadataJournal() {
         const metaDataChannelId = (await this.getMetadataChannel()).id;
-        let messages = (await this.getAllMessages(metaDataChannelId));
-        console.log("Got " + messages.length + " meta information messages, parsing...");
+        const messages = await this.getAllMessages(metaDataChannelId);
+        messages.sort((a, b) => compareSnowflakes(a.id, b.id));
+
+        const listed = new Set(messages.map(msg => msg.id));
+        const deleted = [...this.metadataJournal.getRecords().keys()].filter(id => !listed.has(id));
+        deleted.forEach(id => this.metadataJournal.delete(id));
+
+        const changed = messages.filter(msg => msg.attachments.size > 0 && this.isChangedSinceJournal(msg));
+        console.log("Got " + changed.length + " new or changed meta information messages, " + deleted.length + " deleted, parsing...");
         console.log();
-        for (let i = 0; i < messages.length; i++) {
-            const msg = messages[i];
-
-            if (msg.attachments.size > 0) {
-                let file = (await axios.get(msg.attachments.first()!.url)).data as object;
-
-                console.log("Loading file " + i + "/" + messages.length + " " + msg.attachments.first()!.name);
-                console.log(file);
-                if (RemoteFile.isValidRemoteFile(file)) {
-                    const remoteFile = RemoteFile.fromObject(file as any, this.filesystem);
-                    remoteFile.setMessageMetaIdInMetaChannel(msg.id);
-
-                    console.log("Loaded file " + remoteFile.getFileName() + " at " + remoteFile.getAbsolutePath());
-                } else {
-                    console.log("Failed to extract valid message data");
-                    console.log(file);
-                    failedFiles++;
-                }
-                totalLoadedFiles++;
-            } else {
-                console.log("Message has no attachments");
-            }
+        for (let i = 0; i < changed.length; i++) {
+            const msg = changed[i];
+            let file = (await axios.get(msg.attachments.first()!.url)).data as object;
+
+            console.log("Fetched meta " + i + "/" + changed.length + " " + msg.attachments.first()!.name);
+            this.metadataJournal.put(msg.id, file, msg.editedTimestamp ?? msg.createdTimestamp);
+        }
+
+        if (messages.length > 0) {
+            this.metadataJournal.setLastMessageId(messages[messages.length - 1].id);
+        }
+        this.metadataJournal.compact();
+    }
+
+    /**
+     * Loads files into VirtualFS from the metadata journal, synchronizing it with the metadata channel first.
+     * @param cacheOnly if true, metadata channel is not read and only already cached records are loaded.
+     */
+    public async loadFiles(cacheOnly: boolean = false) {
+        console.log(color.yellow("Fetching files... This may take a while if there are a lot of files"))
+        this.metadataJournal.load((await this.getMetadataChannel()).id);
+        if (!cacheOnly) {
+            await this.syncMetadataJournal();
+        } else {
+            console.log(color.yellow("Using cached metadata only, metadata channel is not checked for new files."));
         }
 
+        const records = this.metadataJournal.getRecords();
+        console.log("Got " + records.size + " meta records, parsing...");
+
+        const result = new MetadataLoader(this.filesystem).load(records);
+        this.accessControl.load(records);
+        const totalLoadedFiles = result.totalFiles;
+        const failedFiles = result.failedFiles;
+        this.metadataComplete = !cacheOnly && failedFiles == 0;
+
+        await this.migrateLegacyFiles(result.legacyFiles);
+        this.discordFileManager.rebuildChunkRegistry(this.filesystem.getRoot());
+        this.discordFileManager.loadEncryptionKdf(this.filesystem.getRoot());
+        // chunks of files deleted before restart.
+        this.chunkDeleteQueue.start();
+        this.uploadSessions.removeExpired();
+
         console.log(); // little bit debug
         console.log("Readen " + totalLoadedFiles + " files");
         console.log("Success loadeded " + (totalLoadedFiles - failedFiles) + " / " + totalLoadedFiles + " files. " + "(" +( totalLoadedFiles - failedFiles) / totalLoadedFiles * 100 + "%)")
@@ -182,6 +405,22 @@ export default class DiscordFileStorageApp extends Client {
 
     }
 
+    /**
+     * Rewrites path based file records (metaVersion 0) to reference folders by id. Posts missing folder records on the way.
+     */
+    private async migrateLegacyFiles(files: RemoteFile[]) {
+        if (files.length == 0) {
+            return;
+        }
+
+        console.log(color.yellow("Migrating " + files.length + " files to folder records..."));
+        for (const file of files) {
+            file.setMetaVersion(Math.max(file.getMetaVersion(), 1));
+            await this.discordFileManager.updateMetaFile(file, false);
+        }
+        console.log(color.green("Migrated " + files.length + " files"));
+    }
+
     public async sleep(ms: number) {
         return new Promise(resolve => setTimeout(resolve, ms));
     }
@@ -1,5 +1,6 @@
 import RemoteFile from "./file/RemoteFile";
 import { Readable, Writable } from "stream";
+import { IByteRange } from "./stream-helpers/ByteRange.js";
 
 
 export interface IUploadResult {
@@ -11,12 +12,13 @@ export interface IUploadResult {
 export interface IWriteStreamCallbacks {
     onFinished?: () => Promise<void>;
     onChunkUploaded?: (chunkNumber: number, totalChunks: number) => Promise<void>;
+    onWrite?: (writtenBytes: number) => void; // called before the data is taken, throw to fail the write.
 }
 
 export interface IDeleteResult extends IUploadResult {};
 
 export default interface IFIleManager {
-    getDownloadableReadStream(file: RemoteFile, callback: (stream: Readable) => void): void;
+    getDownloadableReadStream(file: RemoteFile, range?: IByteRange): Promise<Readable>;
     getUploadWritableStream(file: RemoteFile, size: number, callbacks: IWriteStreamCallbacks): Promise<Writable>;
     
     postMetaFile(file: RemoteFile): Promise<IUploadResult>;
@@ -1,12 +1,21 @@
 import path from "path";
-import { AttachmentBuilder, TextBasedChannel } from "discord.js";
+import { AttachmentBuilder } from "discord.js";
 import { Writable, Readable, Transform, pipeline } from "stream";
 import DiscordFileStorageApp from "./DiscordFileStorageApp.js";
 import HttpStreamPool from './stream-helpers/HttpStreamPool.js';
-import RemoteFile, { IChunkInfo } from './file/RemoteFile.js';
+import RemoteFile, { IChunkInfo, IFileVersion } from './file/RemoteFile.js';
+import Folder from "./file/filesystem/Folder.js";
 import IFIleManager, { IUploadResult, IWriteStreamCallbacks } from "./IFileManager.js";
 import MutableBuffer from "./helper/MutableBuffer.js";
+import IChunkStore from "./chunk-store/IChunkStore.js";
+import ChunkRegistry from "./chunk-store/ChunkRegistry.js";
 import crypto from "crypto";
+import FileEncryption from "./encryption/FileEncryption.js";
+import { IByteRange, SliceStream } from "./stream-helpers/ByteRange.js";
+import { retry, DEFAULT_RETRY_OPTIONS } from "./helper/Retry.js";
+import { IUploadSession } from "./upload/UploadSessionStore.js";
+import { ETagHasher } from "./helper/ETagHasher.js";
+import { IAccessRecord } from "./access/AccessControl.js";
 import structuredClone from "@ungap/structured-clone"; // backport to nodejs 16
 
 
@@ -17,9 +26,66 @@ export const MAX_REAL_CHUNK_SIZE: number = 25 * 1000 * 1000; // Looks like 25 mb
  */
 export default class DiscordFileManager implements IFIleManager {
     private app: DiscordFileStorageApp;
-
-    constructor(client: DiscordFileStorageApp) {
+    private store: IChunkStore;
+    private folderPostPromises: Map<string, Promise<void>> = new Map();
+    private encryption: FileEncryption;
+    private chunkSize: number;
+    private chunkRegistry: ChunkRegistry = new ChunkRegistry();
+    // open download streams by file, chunks of replaced files are deleted when they are not read anymore.
+    private readers: Map<RemoteFile, number> = new Map();
+    private readersGone: Map<RemoteFile, (() => void)[]> = new Map();
+
+    constructor(client: DiscordFileStorageApp, store: IChunkStore, chunkSize: number = MAX_REAL_CHUNK_SIZE) {
         this.app = client;
+        this.store = store;
+        this.chunkSize = chunkSize;
+        this.encryption = new FileEncryption(client.getEncryptPassword());
+    }
+
+    public getChunkStore(): IChunkStore {
+        return this.store;
+    }
+
+    public getChunkRegistry(): ChunkRegistry {
+        return this.chunkRegistry;
+    }
+
+    /**
+     * Chunks of not encrypted files contain the plain content, so other files with the same content can reuse them.
+     */
+    private isDeduplicable(file: RemoteFile): boolean {
+        return !file.getEncryption() && !file.isLegacyEncrypted(this.app.shouldEncryptFiles());
+    }
+
+    private registerChunks(file: RemoteFile): void {
+        const indexable = this.isDeduplicable(file);
+        file.getAllChunks().forEach(chunk => this.chunkRegistry.acquire(chunk, indexable));
+    }
+
+    /**
+     * Counts chunk references of all files in the folder hierarchy from scratch.
+     */
+    public rebuildChunkRegistry(root: Folder): void {
+        this.chunkRegistry.clear();
+        const walk = (folder: Folder) => {
+            folder.getFiles().forEach(file => file instanceof RemoteFile && this.registerChunks(file));
+            folder.getFolders().forEach(walk);
+        };
+        walk(root);
+    }
+
+    /**
+     * New files are encrypted with the master key of the first stored encrypted file, so scrypt runs once and not per file.
+     */
+    public loadEncryptionKdf(root: Folder): void {
+        const find = (folder: Folder): RemoteFile | undefined =>
+            folder.getFiles().find((file): file is RemoteFile => file instanceof RemoteFile && !!file.getEncryption())
+            ?? folder.getFolders().reduce<RemoteFile | undefined>((found, child) => found ?? find(child), undefined);
+
+        const kdf = find(root)?.getEncryption()?.kdf;
+        if (kdf) {
+            this.encryption.useKdf(kdf);
+        }
     }
 
     private getAttachmentBuilderFromBuffer(buff: Buffer, chunkName: string, chunkNummer: number = 0, addExtension: boolean = false, encrypt: boolean, extension: string = "txt",) {
@@ -30,21 +96,24 @@ export default class DiscordFileManager implements IFIleManager {
         return builder;
     }
 
-    private getAttachmentBuilderFromBufferWithoutExt(buff: Buffer, chunkName: string, chunkNummer: number = 0, encrypt: boolean, extension: string = "txt",) {
-        return this.getAttachmentBuilderFromBuffer(buff, path.parse(chunkName).name, chunkNummer, false, encrypt, extension);
+    private getChunkName(chunkName: string, chunkNummer: number = 0, encrypt: boolean) {
+        return (chunkNummer ? chunkNummer + "-" : "") + path.parse(chunkName).name + (encrypt ? ".enc" : "");
     }
 
     public async postMetaFile(file: RemoteFile): Promise<IUploadResult> {
+        await this.ensureFolderPosted(file.getFolder());
         const metaChannel = await this.app.getMetadataChannel();
 
         let msg = await metaChannel.send("Uploading file meta...");
         this.app.getLogger().info(".postMetaFile() - msg.id: " + msg.id + " - file: " + file.getFileName());
         file.setMessageMetaIdInMetaChannel(msg.id);
 
-        await msg.edit({
+        const edited = await msg.edit({
             content: ":white_check_mark: File meta posted successfully.",
             files: [this.getAttachmentBuilderFromBuffer(Buffer.from(file.toJson()), file.getFileName(), 0, true, false)],
         });
+        this.app.getMetadataJournal().put(msg.id, JSON.parse(file.toJson()), edited.editedTimestamp);
+        this.registerChunks(file);
 
         return {
             message: "File meta posted successfully.",
@@ -53,21 +122,25 @@ export default class DiscordFileManager implements IFIleManager {
         }
     }
 
-    public async updateMetaFile(file: RemoteFile): Promise<IUploadResult> {
+    public async updateMetaFile(file: RemoteFile, updateModifyDate: boolean = true): Promise<IUploadResult> {
         this.app.getLogger().info(".updateMetaFile() - file: " + file.getFileName(), file.toString());
         if (!file.isUploaded()) {
             throw new Error("File is not valid: seems like it was not uploaded to discord yet.");
         }
 
-        file.updateModifyDate();
+        if (updateModifyDate) {
+            file.updateModifyDate();
+        }
+        await this.ensureFolderPosted(file.getFolder());
 
         const metaChannel = await this.app.getMetadataChannel();
         const msg = await metaChannel.messages.fetch(file.getMessageMetaIdInMetaChannel());
 
-        await msg.edit({
+        const edited = await msg.edit({
             content: ":white_check_mark: :white_check_mark: File info updated successfully.",
             files: [this.getAttachmentBuilderFromBuffer(Buffer.from(file.toJson()), file.getFileName(), 0, true, false)],
         });
+        this.app.getMetadataJournal().put(msg.id, JSON.parse(file.toJson()), edited.editedTimestamp);
 
         return {
             message: "File meta updated successfully.",
@@ -76,6 +149,102 @@ export default class DiscordFileManager implements IFIleManager {
         }
     }
 
+    /**
+     * Posts records of the folder and all its parents which are not posted yet, so files can reference the folder by id.
+     */
+    public async ensureFolderPosted(folder: Folder): Promise<void> {
+        if (folder.isPosted()) {
+            return;
+        }
+
+        // two files may be uploaded into the same new folder at the same time, folder has to be posted only once.
+        let promise = this.folderPostPromises.get(folder.getId());
+        if (!promise) {
+            promise = (async () => {
+                await this.ensureFolderPosted(folder.getParent()!);
+                await this.postMetaFolder(folder);
+            })().finally(() => this.folderPostPromises.delete(folder.getId()));
+            this.folderPostPromises.set(folder.getId(), promise);
+        }
+
+        return promise;
+    }
+
+    public async postMetaFolder(folder: Folder): Promise<void> {
+        const metaChannel = await this.app.getMetadataChannel();
+
+        let msg = await metaChannel.send("Uploading folder meta...");
+        this.app.getLogger().info(".postMetaFolder() - msg.id: " + msg.id + " - folder: " + folder.getAbsolutePath());
+        folder.setMessageMetaIdInMetaChannel(msg.id);
+
+        const edited = await msg.edit({
+            content: ":file_folder: Folder meta posted successfully.",
+            files: [this.getAttachmentBuilderFromBuffer(Buffer.from(folder.toJson()), "folder-" + folder.getId(), 0, true, false)],
+        });
+        this.app.getMetadataJournal().put(msg.id, folder.toObject(), edited.editedTimestamp);
+    }
+
+    /**
+     * Writes folder record after rename or move. Files inside the folder are not touched, since they reference folder by id.
+     */
+    public async updateMetaFolder(folder: Folder): Promise<void> {
+        this.app.getLogger().info(".updateMetaFolder() - folder: " + folder.getAbsolutePath());
+        if (!folder.isPosted()) {
+            return this.ensureFolderPosted(folder);
+        }
+        await this.ensureFolderPosted(folder.getParent()!);
+
+        const metaChannel = await this.app.getMetadataChannel();
+        const msg = await metaChannel.messages.fetch(folder.getMessageMetaIdInMetaChannel());
+
+        const edited = await msg.edit({
+            content: ":file_folder: :white_check_mark: Folder info updated successfully.",
+            files: [this.getAttachmentBuilderFromBuffer(Buffer.from(folder.toJson()), "folder-" + folder.getId(), 0, true, false)],
+        });
+        this.app.getMetadataJournal().put(msg.id, folder.toObject(), edited.editedTimestamp);
+    }
+
+    /**
+     * @returns id of the meta message with the access record.
+     */
+    public async postMetaAccess(record: IAccessRecord): Promise<string> {
+        const metaChannel = await this.app.getMetadataChannel();
+
+        let msg = await metaChannel.send("Uploading access meta...");
+        this.app.getLogger().info(".postMetaAccess() - msg.id: " + msg.id);
+
+        const edited = await msg.edit({
+            content: ":lock: Access meta posted successfully.",
+            files: [this.getAttachmentBuilderFromBuffer(Buffer.from(JSON.stringify(record)), "access", 0, true, false)],
+        });
+        this.app.getMetadataJournal().put(msg.id, structuredClone(record), edited.editedTimestamp);
+        return msg.id;
+    }
+
+    public async updateMetaAccess(record: IAccessRecord, messageId: string): Promise<void> {
+        this.app.getLogger().info(".updateMetaAccess() - msg.id: " + messageId);
+        const metaChannel = await this.app.getMetadataChannel();
+        const msg = await metaChannel.messages.fetch(messageId);
+
+        const edited = await msg.edit({
+            content: ":lock: :white_check_mark: Access info updated successfully.",
+            files: [this.getAttachmentBuilderFromBuffer(Buffer.from(JSON.stringify(record)), "access", 0, true, false)],
+        });
+        this.app.getMetadataJournal().put(msg.id, structuredClone(record), edited.editedTimestamp);
+    }
+
+    public async deleteMetaFolder(folder: Folder): Promise<void> {
+        if (folder.isRootFolder() || !folder.isPosted()) {
+            return;
+        }
+
+        const metaChannel = await this.app.getMetadataChannel();
+        const messageId = folder.getMessageMetaIdInMetaChannel();
+        await metaChannel.messages.delete(messageId);
+        this.app.getMetadataJournal().delete(messageId);
+        folder.setMessageMetaIdInMetaChannel("");
+    }
+
 
     // truncates a string to a certain length. 
     // truncate("hello world", 5) => "hello",
@@ -84,26 +253,36 @@ export default class DiscordFileManager implements IFIleManager {
         return (str.length > n) ? str.substr(0, n - 1) : str;
     }
 
-    private async uploadFileChunkAndAttachToFile(buffer: MutableBuffer, chunkNumber: number, totalChunks: number, filesChannel: TextBasedChannel, file: RemoteFile) {
+    private async uploadFileChunkAndAttachToFile(data: Buffer, hash: string, index: number, totalChunks: number, file: RemoteFile) {
+        const chunkNumber = index + 1;
         this.app.getLogger().info(`[${file.getFileName()}] Uploading chunk ${chunkNumber} of ${totalChunks} chunks.`);
-        const message = await filesChannel.send({
-            files: [
-                this.getAttachmentBuilderFromBufferWithoutExt(buffer.flush(), this.truncate(file.getFileName(), 15), chunkNumber, this.app.shouldEncryptFiles())
-            ],
+        let tag: string | undefined;
+
+        const encryption = file.getEncryption();
+        if (encryption) {
+            ({ data, tag } = await this.encryption.encryptChunk(encryption, index, data));
+        }
+
+        const chunkName = this.getChunkName(this.truncate(file.getFileName(), 15), chunkNumber, !!encryption);
+        const retryOptions = { ...DEFAULT_RETRY_OPTIONS, retries: this.app.getUploadRetries() };
+        const chunk = await retry(() => this.store.putChunk(data, chunkName), retryOptions, (err, attempt, delay) => {
+            this.app.getLogger().info(`[${file.getFileName()}] Failed to upload chunk ${chunkNumber}, retry ${attempt} of ${retryOptions.retries} in ${delay}ms: ${err}`);
         });
+        if (tag) {
+            chunk.tag = tag;
+        }
+        chunk.sha256 = hash;
 
         this.app.getLogger().info(`[${file.getFileName()}] Chunk ${chunkNumber} of ${totalChunks} chunks added.`);
-        file.addChunk({
-            id: message.id,
-            url: message.attachments.first()!.url,
-            proxyUrl: message.attachments.first()!.proxyURL,
-            length: buffer.size,
-        });
-        this.app.getLogger().info(file.getChunks())
+        file.setChunk(index, chunk);
     }
 
+    /**
+     * Decryptor for files uploaded before per-file keys (metaVersion < 2). Such files are never written anymore, only read.
+     * Auth tag was never stored for them, so "unable to authenticate data" error at the end of the stream is expected.
+     */
     // reason: TypeError: authTagLength required for chacha20-poly1305
-    private createDecryptor(autoDestroy = true) {
+    private createLegacyDecryptor(autoDestroy = true) {
         const decipher = crypto.createDecipher("chacha20-poly1305", this.app.getEncryptPassword(), {
             autoDestroy,
             authTagLength: 16
@@ -121,29 +300,72 @@ export default class DiscordFileManager implements IFIleManager {
         return decipher;
     }
 
-    private createEncryptor(autoDestroy = true) {
-        const chiper = crypto.createCipher("chacha20-poly1305", this.app.getEncryptPassword(), {
-            autoDestroy,
-            authTagLength: 16
-        } as any);
+    /**
+     * @param range byte range to read. Only chunks overlapping it are downloaded.
+     */
+    public async getDownloadableReadStream(file: RemoteFile, range?: IByteRange): Promise<Readable> {
+        this.app.getLogger().info(".getDownloadableReadStream() - file: " + file.getFileName() + (range ? " bytes " + range.start + "-" + range.end : ""));
+        return this.trackReader(file, await this.openReadStream(file, range));
+    }
 
+    private trackReader(file: RemoteFile, stream: Readable): Readable {
+        this.readers.set(file, (this.readers.get(file) ?? 0) + 1);
+        stream.once("close", () => {
+            const count = this.readers.get(file)! - 1;
+            if (count > 0) {
+                this.readers.set(file, count);
+                return;
+            }
 
-        chiper.once("error", (err) => {
-            this.app.getLogger().info("Chiper", err);
+            this.readers.delete(file);
+            this.readersGone.get(file)?.forEach(resolve => resolve());
+            this.readersGone.delete(file);
         });
+        return stream;
+    }
+
+    /**
+     * Resolves when all download streams of the file are closed.
+     */
+    private whenNotRead(file: RemoteFile): Promise<void> {
+        if (!this.readers.has(file)) {
+            return Promise.resolve();
+        }
 
-        return chiper;
+        return new Promise(resolve => {
+            this.readersGone.set(file, [...(this.readersGone.get(file) ?? []), resolve]);
+        });
     }
 
-    public async getDownloadableReadStream(file: RemoteFile): Promise<Readable> {
-        this.app.getLogger().info(".getDownloadableReadStream() - file: " + file.getFileName());
-        const readStream = (await (new HttpStreamPool(structuredClone(file.getChunks()), file.getSize(), file.getEntryName())).getDownloadStream());
+    private async openReadStream(file: RemoteFile, range?: IByteRange): Promise<Readable> {
+        if (file.getChunks().length == 0) {
+            // empty file, nothing was uploaded (and encrypted) for it.
+            return Readable.from([]);
+        }
+
+        const concurrency = this.app.getDownloadConcurrency();
+        const encryption = file.getEncryption();
+        if (encryption) {
+            return (new HttpStreamPool(structuredClone(file.getChunks()), file.getSize(), file.getEntryName(), this.store, {
+                chunkTransform: async (chunk, index) => {
+                    if (!chunk.tag) {
+                        throw new Error("Chunk " + index + " of encrypted file " + file.getFileName() + " has no auth tag");
+                    }
+                    return this.encryption.createChunkDecryptor(encryption, index, chunk.tag);
+                },
+                range,
+                concurrency,
+            })).getDownloadStream();
+        }
 
-        if (!this.app.shouldEncryptFiles()) {
-            return readStream;
+        if (!file.isLegacyEncrypted(this.app.shouldEncryptFiles())) {
+            return (new HttpStreamPool(structuredClone(file.getChunks()), file.getSize(), file.getEntryName(), this.store, { range, concurrency })).getDownloadStream();
         }
 
-        const decipher = this.createDecryptor();
+        // legacy cipher is not seekable, so whole file is downloaded and sliced after decryption.
+        const readStream = (await (new HttpStreamPool(structuredClone(file.getChunks()), file.getSize(), file.getEntryName(), this.store, { concurrency })).getDownloadStream());
+
+        const decipher = this.createLegacyDecryptor();
 
         // calling .end on decipher stream will throw an error and not emit end event. so we need to do this manually. 
         decipher.once("unpipe", () => {
@@ -151,45 +373,191 @@ export default class DiscordFileManager implements IFIleManager {
             decipher.destroy();
         });
 
-        return readStream.pipe(decipher, { end: false });
+        const decrypted = readStream.pipe(decipher, { end: false });
+        if (!range) {
+            return decrypted;
+        }
+        return decrypted.pipe(new SliceStream(range.start, range.end - range.start + 1));
     }
 
 
+    /**
+     * Returns stream which splits written data into chunks and uploads them. 
+     * Up to app.getUploadConcurrency() chunks are uploaded at the same time, writes are blocked (backpressure) while all upload slots are busy.
+     * Chunks are put into file by their index, so order of finished uploads does not matter.
+     * Uploaded chunks are saved into upload session, so if upload of the same file fails or process restarts, chunks with the same data are not uploaded again.
+     */
     public async getUploadWritableStream(file: RemoteFile, size: number, callbacks: IWriteStreamCallbacks): Promise<Writable> {
         this.app.getLogger().info(".getUploadWritableStream() - file: " + file.getFileName());
 
-        const filesChannel = await this.app.getFileChannel();
-        const totalChunks = Math.ceil(size / MAX_REAL_CHUNK_SIZE);
-        const buffer = new MutableBuffer(MAX_REAL_CHUNK_SIZE);
+        const chunkSize = this.chunkSize;
+        const concurrency = Math.max(1, this.app.getUploadConcurrency());
+        const totalChunks = Math.ceil(size / chunkSize);
+        const buffer = new MutableBuffer(chunkSize);
+
+        let nextChunkIndex = 0;
+        let uploadedChunks = 0;
+        let writtenBytes = 0;
+        let uploadError: Error | undefined;
+        const hasher = new ETagHasher();
+        const inFlight: Set<Promise<void>> = new Set();
+        // chunks of other files reused by this upload. They are held until file meta is posted, so they are not deleted with the other files meanwhile.
+        const reused: IChunkInfo[] = [];
+
+        const storeId = await this.store.getStoreId();
+        file.setFilesPostedInChannelId(storeId);
+
+        // size is unknown (-1) when client uploads without content-length, such uploads cannot be matched with previous ones.
+        const sessions = this.app.getUploadSessions();
+        let session: IUploadSession | undefined = size > 0 ? sessions.open(file.getAbsolutePath(), size, storeId, chunkSize, this.app.shouldEncryptFiles()) : undefined;
+
+        if (this.app.shouldEncryptFiles()) {
+            const encryption = session?.encryption ?? await this.encryption.createFileEncryption();
+            file.setEncryption(encryption);
+            if (session) {
+                session.encryption = encryption;
+            }
+        }
 
+        const uploadChunk = async (data: Buffer, index: number) => {
+            const hash = crypto.createHash("sha256").update(data).digest("hex");
+            const uploaded = session?.chunks[index];
+            if (uploaded && uploaded.hash == hash) {
+                this.app.getLogger().info(`[${file.getFileName()}] Chunk ${index + 1} of ${totalChunks} chunks is already uploaded.`);
+                file.setChunk(index, { ...uploaded.chunk, sha256: hash });
+                return;
+            }
 
-        let currentChunkNumber = 1;
+            const existing = file.getEncryption() ? undefined : this.chunkRegistry.findByHash(hash);
+            if (existing && existing.length == data.length) {
+                this.app.getLogger().info(`[${file.getFileName()}] Chunk ${index + 1} of ${totalChunks} chunks is already stored as ${existing.id}.`);
+                this.chunkRegistry.acquire(existing);
+                reused.push(existing);
+                file.setChunk(index, structuredClone(existing));
+                return;
+            }
 
-        file.setFilesPostedInChannelId(filesChannel.id);
+            if (uploaded && file.getEncryption()) {
+                // encrypting other data with the same key and chunk nonce would expose both chunks, so key of the session cannot be used anymore.
+                // other first chunk restarts the upload before this, so here only the tail of the file differs.
+                sessions.remove(session!);
+                session = undefined;
+                throw new Error("Data of " + file.getAbsolutePath() + " differs from the interrupted upload, upload it again.");
+            }
 
+            await this.uploadFileChunkAndAttachToFile(data, hash, index, totalChunks, file);
+            if (session) {
+                session.chunks[index] = { hash, chunk: file.getChunks()[index] };
+                sessions.save(session);
+            }
+        };
+
+        // first chunk tells whether the same file is uploaded again. Other data of an encrypted upload gets new session and key,
+        // before any chunk is uploaded with the key of the interrupted upload.
+        const restartIfOtherData = async (data: Buffer) => {
+            const first = session?.chunks[0];
+            if (!session || !first || !file.getEncryption() || first.hash == crypto.createHash("sha256").update(data).digest("hex")) {
+                return;
+            }
+
+            this.app.getLogger().info(`[${file.getFileName()}] Data differs from the interrupted upload, restarting it.`);
+            sessions.remove(session);
+            const encryption = await this.encryption.createFileEncryption();
+            file.setEncryption(encryption);
+            session = { ...sessions.open(file.getAbsolutePath(), size, storeId, chunkSize, true), encryption };
+        };
+
+        const startUpload = async (data: Buffer) => {
+            if (nextChunkIndex == 0) {
+                await restartIfOtherData(data);
+            }
+            const index = nextChunkIndex++;
+            const upload: Promise<void> = uploadChunk(data, index)
+                .then(async () => {
+                    uploadedChunks++;
+                    if (callbacks.onChunkUploaded) {
+                        await callbacks.onChunkUploaded(uploadedChunks, totalChunks);
+                    }
+                })
+                .catch((err) => {
+                    this.app.getLogger().error(`[${file.getFileName()}] Failed to upload chunk ${index + 1}`, err);
+                    uploadError = uploadError ?? err;
+                })
+                .finally(() => inFlight.delete(upload));
+            inFlight.add(upload);
+        };
 
         const write = new Writable({
-            write: async (chunk, encoding, callback) => { // write is called when a chunk of data is ready to be written to stream.
+            destroy: (err, callback) => {
+                // file holds own references once posted. unused chunks are left for the garbage collector.
+                reused.splice(0).forEach(chunk => this.chunkRegistry.release(chunk));
+                callback(err);
+            },
+            write: async (chunk: Buffer, encoding, callback) => { // write is called when a chunk of data is ready to be written to stream.
                 console.log("write() chunk.length: " + chunk.length + " - encoding: " + encoding);
-                if (buffer.size + chunk.length > MAX_REAL_CHUNK_SIZE) {
-                    await this.uploadFileChunkAndAttachToFile(buffer, currentChunkNumber, totalChunks, filesChannel, file);
-                    if (callbacks.onChunkUploaded) {
-                        await callbacks.onChunkUploaded(currentChunkNumber, totalChunks);
+                writtenBytes += chunk.length;
+                try {
+                    callbacks.onWrite?.(writtenBytes);
+                } catch (err) {
+                    return callback(err as Error);
+                }
+                hasher.modifyHash(chunk);
+
+                // single write may fill more than one chunk.
+                while (chunk.length > 0) {
+                    const part = chunk.subarray(0, chunkSize - buffer.size);
+                    buffer.write(part);
+                    chunk = chunk.subarray(part.length);
+
+                    if (buffer.size < chunkSize) {
+                        break;
+                    }
+
+                    // copy, since buffer is reused while chunk is being uploaded.
+                    try {
+                        await startUpload(buffer.flush(true));
+                    } catch (err) {
+                        return callback(err as Error);
+                    }
+                    while (inFlight.size >= concurrency) {
+                        await Promise.race(inFlight);
                     }
-                    currentChunkNumber++;
                 }
-                buffer.write(chunk, encoding);
-                callback();
+
+                callback(uploadError);
             },
             final: async (callback) => {
                 this.app.getLogger().info("final() Finalizing upload.")
-                if (buffer.size > 0) {
-                    await this.uploadFileChunkAndAttachToFile(buffer, currentChunkNumber, totalChunks, filesChannel, file);
+                try {
+                    if (buffer.size > 0) {
+                        await startUpload(buffer.flush(true));
+                    }
+                } catch (err) {
+                    return callback(err as Error);
+                }
+                await Promise.all(inFlight);
+
+                if (uploadError) {
+                    return callback(uploadError);
                 }
 
+                // size is unknown (-1) when client uploads without content-length.
+                if (file.getSize() < 0) {
+                    file.setTotalSize(writtenBytes);
+                }
+                file.setContentHash(hasher.finalize());
+
                 this.app.getLogger().info("final() uploaded .")
-                if (callbacks.onFinished) {
-                    await callbacks.onFinished();
+                try {
+                    if (callbacks.onFinished) {
+                        await callbacks.onFinished();
+                    }
+                } catch (err) {
+                    return callback(err as Error);
+                }
+
+                if (session) {
+                    sessions.remove(session);
                 }
 
                 this.app.getLogger().info("final() write stream finished, onFinished() called.")
@@ -197,82 +565,181 @@ export default class DiscordFileManager implements IFIleManager {
             }
         });
 
-        if (!this.app.shouldEncryptFiles()) {
-            return write;
+        return write;
+    }
+
+
+    /**
+     * Deletes file record. Chunks which are not used by other files are deleted in the background, see ChunkDeleteQueue.
+     * @param awaitForChunksDelete true to wait until the chunks are deleted.
+     */
+    public async deleteFile(file: RemoteFile, awaitForChunksDelete: boolean = true): Promise<IUploadResult> {
+        const metadataChannel = await this.app.getMetadataChannel();
+        const messageId = file.getMessageMetaIdInMetaChannel();
+
+        // record goes first, queued chunks must not be referenced anymore. Chunks left by a crash in between are found by gc.
+        await metadataChannel.messages.delete(messageId);
+        this.app.getMetadataJournal().delete(messageId);
+        file.markDeleted();
+
+        // chunks may be shared with copies and files with the same content.
+        this.deleteChunksOf(file.getAllChunks().filter(chunk => this.chunkRegistry.release(chunk)));
+        if (awaitForChunksDelete) {
+            await this.app.getChunkDeleteQueue().whenIdle();
         }
 
+        return {
+            success: true,
+            message: "File deleted successfully.",
+            file,
+        }
+    }
 
-        // The problem is that the encryption stream is closing before the write stream is flushed all its data.
-        // Since we give the encryption stream back and it closes too early, the write stream stream is not flushed all its data in discord, what results in a corrupted file or telling client at wrong time that the file is uploaded, when it is not. 
-        // this is why we need to wait for the write stream to finish before we close the encryption stream.
+    /**
+     * Deletes records and chunks of the folder with all its content. Folder stays in VirtualFS, caller removes it.
+     */
+    public async deleteFolder(folder: Folder): Promise<void> {
+        const entries = folder.getallEntriesRecursiveThis();
 
-        const cipher = this.createEncryptor(false);
-        cipher.pipe(write);
+        for (const e of entries) {
+            if (e.entry instanceof RemoteFile) {
+                await this.deleteFile(e.entry, false);
+            }
+        }
 
-        const pt = new Writable({
-            write: (chunk, encoding, callback) => {
-                cipher.write(chunk, encoding, callback);
-            },
-            final: (callback) => {
-                cipher.end();
-                write.once("finish", () => {
-                    callback();
-                });
+        // folder records are deleted after files, so files are never left without their folder.
+        for (const e of entries) {
+            if (e.entry instanceof Folder) {
+                await this.deleteMetaFolder(e.entry);
             }
-        });
+        }
+        await this.deleteMetaFolder(folder);
+    }
 
-        write.on("error", (err) => {
-            this.app.getLogger().info("write.on('error')", err);
-            pt.destroy(err);
-            cipher.emit("end");
-            cipher.destroy();
-        });
+    private deleteChunksOf(chunks: IChunkInfo[]): void {
+        this.app.getChunkDeleteQueue().push(chunks);
+    }
 
-        write.on("finish", () => {
-            pt.end();
-            cipher.emit("end");
-            cipher.destroy();
+    /**
+     * Splits versions (newest first) into the ones which are kept and the ones which exceed VERSIONS_KEEP or VERSIONS_MAX_AGE.
+     */
+    private splitVersions(versions: IFileVersion[], now: Date): { kept: IFileVersion[], expired: IFileVersion[] } {
+        const keep = this.app.getVersionsKeep();
+        const maxAge = this.app.getVersionsMaxAge();
+        const kept: IFileVersion[] = [];
+        const expired: IFileVersion[] = [];
+
+        versions.forEach((version, index) => {
+            const tooOld = maxAge > 0 && now.getTime() - version.replacedAt.getTime() > maxAge;
+            (index < keep && !tooOld ? kept : expired).push(version);
         });
+        return { kept, expired };
+    }
 
-        return pt;
+    private getVersionChunks(versions: IFileVersion[]): IChunkInfo[] {
+        return versions.reduce((chunks: IChunkInfo[], version) => chunks.concat(version.attachmentInfos), []);
     }
 
+    /**
+     * Deletes versions of the file which exceed the retention limits.
+     * @returns number of deleted versions.
+     */
+    public async pruneVersions(file: RemoteFile, now: Date = new Date()): Promise<number> {
+        const versions = file.getVersions();
+        const { kept, expired } = this.splitVersions(versions, now);
+        if (expired.length == 0) {
+            return 0;
+        }
 
-    public async deleteFile(file: RemoteFile, awaitForChunksDelete: boolean = true): Promise<IUploadResult> {
-        const filesChannel = await this.app.getFileChannel();
-        const metadataChannel = await this.app.getMetadataChannel();
-        const chunks = file.getChunks();
+        file.setVersions(kept);
+        try {
+            await this.updateMetaFile(file, false);
+        } catch (err) {
+            file.setVersions(versions);
+            throw err;
+        }
 
-        const metadataMessage = await metadataChannel.messages.fetch(file.getMessageMetaIdInMetaChannel());
-        await metadataMessage.edit(":x: File is deleted. " + chunks.length + " chunks will be deleted....");
+        this.deleteChunksOf(this.getVersionChunks(expired).filter(chunk => this.chunkRegistry.release(chunk)));
+        return expired.length;
+    }
 
-     
-        for (let i = 0; i < chunks.length; i++) {
-            const attachmentInfo = chunks[i];
-            const message = await filesChannel.messages.fetch(attachmentInfo.id); // TODO: delete without fetching?
-            await message.delete();
-        }
+    /**
+     * Makes content of the version current again. Current content becomes the newest version.
+     */
+    public async restoreVersion(file: RemoteFile, version: IFileVersion): Promise<RemoteFile> {
+        const restored = RemoteFile.fromVersion(file.getFileName(), version, file.getFolder(), file.getCreationDate());
+        // versions stay with the file, so they keep counting to the same owner.
+        restored.setOwner(file.getOwner());
+        await this.replaceFile(file, restored);
+        return restored;
+    }
 
-        await metadataMessage.delete();
-        file.markDeleted();
+    /**
+     * Puts uploaded newFile in place of oldFile. Record of the old file is rewritten with the new one in a single edit, so the path never points to a partially uploaded file.
+     * Old content is kept as the newest version of the new file, see VERSIONS_KEEP. Versions exceeding the limits and old content without version history
+     * are deleted right away if nobody downloads the old file, otherwise when its last download is closed.
+     * If old file was deleted or moved away during the upload, new file is posted as a new one.
+     */
+    public async replaceFile(oldFile: RemoteFile, newFile: RemoteFile): Promise<void> {
+        const folder = newFile.getFolder();
+        if (oldFile.isMarkedDeleted() || oldFile.getFolder() != folder || oldFile.getFileName() != newFile.getFileName()) {
+            folder.addFile(newFile);
+            await this.postMetaFile(newFile);
+            return;
+        }
 
+        newFile.setMessageMetaIdInMetaChannel(oldFile.getMessageMetaIdInMetaChannel());
+        newFile.setVersions(this.splitVersions([oldFile.toVersion(new Date()), ...oldFile.getVersions()], new Date()).kept);
+        try {
+            await this.updateMetaFile(newFile);
+        } catch (err) {
+            newFile.setMessageMetaIdInMetaChannel("");
+            newFile.setVersions([]);
+            throw err;
+        }
+        this.registerChunks(newFile);
+        folder.replaceFile(oldFile, newFile);
+        oldFile.markDeleted();
+
+        // chunks of kept versions are referenced by the new file now.
+        const unusedChunks = oldFile.getAllChunks().filter(chunk => this.chunkRegistry.release(chunk));
+        if (!this.readers.has(oldFile)) {
+            return this.deleteChunksOf(unusedChunks);
+        }
 
+        this.app.getLogger().info(".replaceFile() - " + unusedChunks.length + " chunks of the old version of " + newFile.getFileName() + " are deleted after its downloads are finished.");
+        this.whenNotRead(oldFile).then(() => this.deleteChunksOf(unusedChunks)).catch((err) => {
+            this.app.getLogger().error(".replaceFile() - failed to delete chunks of the old version of " + newFile.getFileName(), err);
+        });
+    }
 
-        return {
-            success: true,
-            message: "File deleted successfully.",
-            file,
+    /**
+     * Copies file without downloading it: copy references the same chunks (and encryption key) as the source.
+     * @param owner user the copy counts to, see Quota.
+     */
+    public async copyFile(source: RemoteFile, folder: Folder, name: string, owner?: string): Promise<RemoteFile> {
+        const copy = new RemoteFile(name, source.getSize(), folder, source.getCreationDate());
+        copy.updateModifyDate();
+        copy.setOwner(owner);
+        copy.setFilesPostedInChannelId(source.getFilesPostedInChannelId());
+        copy.setChunks(structuredClone(source.getChunks()));
+        copy.setEncryption(structuredClone(source.getEncryption()));
+        copy.setContentHash(source.getContentHash());
+        // legacy cipher depends on meta version.
+        copy.setMetaVersion(source.getMetaVersion());
+
+        try {
+            await this.postMetaFile(copy);
+        } catch (err) {
+            copy.rm();
+            throw err;
         }
+
+        return copy;
     }
 
     public async deleteChunks(chunks: IChunkInfo[]): Promise<IUploadResult> {
-        const filesChannel = await this.app.getFileChannel();
-
-        for (let i = 0; i < chunks.length; i++) {
-            const attachmentInfo = chunks[i];
-            const message = await filesChannel.messages.fetch(attachmentInfo.id);
-            await message.delete();
-        }
+        await this.store.deleteChunks(chunks);
 
         return {
             success: true,
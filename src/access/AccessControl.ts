@@ -0,0 +1,233 @@
+import DiscordFileStorageApp from "../DiscordFileStorageApp.js";
+import { compareSnowflakes } from "../helper/Snowflake.js";
+
+export type AccessLevel = "none" | "read" | "write";
+
+export interface IAccessRule {
+    path: string; // path prefix, "/" matches everything.
+    principal: string; // "user:<name>", "group:<name>" or "*" for every user.
+    access: AccessLevel;
+}
+
+/**
+ * Access settings, stored as a record in the metadata channel. There is at most one such record.
+ */
+export interface IAccessRecord {
+    type: "access";
+    homes: boolean; // every user gets /home/<user>, which other users can not see.
+    groups: { [group: string]: string[] };
+    readOnly: string[]; // principals which never get write access.
+    rules: IAccessRule[];
+}
+
+const LEVELS: AccessLevel[] = ["none", "read", "write"];
+
+/**
+ * Decides what users can do with a path. Rule with the longest matching path prefix wins, at the same prefix user rules win over
+ * group rules and group rules over "*" rules. Users without a matching rule have no access, but can list folders on the way to paths
+ * they have access to. Without access record everyone can write everywhere, as before access rules existed.
+ */
+export default class AccessControl {
+    public static readonly HOMES_FOLDER = "home";
+
+    private app: DiscordFileStorageApp;
+    private record: IAccessRecord = AccessControl.getDefaultRecord();
+    private messageId: string = "";
+
+    constructor(app: DiscordFileStorageApp) {
+        this.app = app;
+    }
+
+    public static getDefaultRecord(): IAccessRecord {
+        return { type: "access", homes: false, groups: {}, readOnly: [], rules: [{ path: "/", principal: "*", access: "write" }] };
+    }
+
+    public static isAccessRecord(obj: any): boolean {
+        return obj.type == "access" &&
+            Array.isArray(obj.rules) &&
+            Array.isArray(obj.readOnly) &&
+            typeof obj.groups == "object";
+    }
+
+    public static isValidPrincipal(principal: string): boolean {
+        return principal == "*" || /^(user|group):.+$/.test(principal);
+    }
+
+    public static normalizePath(path: string): string {
+        const parts = path.split("/").filter(part => part != "");
+        return "/" + parts.join("/");
+    }
+
+    private static isUnder(path: string, prefix: string): boolean {
+        return prefix == "/" || path == prefix || path.startsWith(prefix + "/");
+    }
+
+    /**
+     * Takes access record from the metadata records, the latest one if there are several.
+     */
+    public load(records: Map<string, object>): void {
+        this.record = AccessControl.getDefaultRecord();
+        this.messageId = "";
+
+        for (const [messageId, record] of records) {
+            if (AccessControl.isAccessRecord(record) && (this.messageId == "" || compareSnowflakes(messageId, this.messageId) > 0)) {
+                // copy, so changes are not seen in the journal before they are saved.
+                this.record = { ...AccessControl.getDefaultRecord(), ...JSON.parse(JSON.stringify(record)) };
+                this.messageId = messageId;
+            }
+        }
+    }
+
+    public getRecord(): IAccessRecord {
+        return this.record;
+    }
+
+    public getMessageId(): string {
+        return this.messageId;
+    }
+
+    public getPrincipals(username: string): string[] {
+        const groups = Object.keys(this.record.groups).filter(group => this.record.groups[group].includes(username));
+        return ["user:" + username, "*"].concat(groups.map(group => "group:" + group));
+    }
+
+    public isReadOnly(username: string): boolean {
+        return this.getPrincipals(username).some(principal => this.record.readOnly.includes(principal));
+    }
+
+    public getHomePath(username: string): string {
+        return "/" + AccessControl.HOMES_FOLDER + "/" + username;
+    }
+
+    /**
+     * Stored rules with the rules of home folders: own home is writable, homes of others are hidden.
+     */
+    private getRules(username: string): IAccessRule[] {
+        if (!this.record.homes) {
+            return this.record.rules;
+        }
+
+        return this.record.rules.concat([
+            { path: "/" + AccessControl.HOMES_FOLDER, principal: "*", access: "none" },
+            { path: this.getHomePath(username), principal: "user:" + username, access: "write" },
+        ]);
+    }
+
+    private getRuleAccess(rules: IAccessRule[], principals: string[], path: string): AccessLevel {
+        const matching = rules.filter(rule => principals.includes(rule.principal) && AccessControl.isUnder(path, AccessControl.normalizePath(rule.path)));
+        if (matching.length == 0) {
+            return "none";
+        }
+
+        const rank = (rule: IAccessRule) => AccessControl.normalizePath(rule.path).length * 3 + (rule.principal.startsWith("user:") ? 2 : rule.principal.startsWith("group:") ? 1 : 0);
+        const best = Math.max(...matching.map(rank));
+        return matching.filter(rule => rank(rule) == best).reduce((level, rule) => LEVELS.indexOf(rule.access) > LEVELS.indexOf(level) ? rule.access : level, "none" as AccessLevel);
+    }
+
+    /**
+     * True if user has access to something below the path, so the path can be listed to get there.
+     */
+    private canTraverse(rules: IAccessRule[], principals: string[], path: string): boolean {
+        return rules.some(rule => {
+            const rulePath = AccessControl.normalizePath(rule.path);
+            return rule.access != "none" && principals.includes(rule.principal) && rulePath != path && AccessControl.isUnder(rulePath, path) &&
+                this.getRuleAccess(rules, principals, rulePath) != "none";
+        });
+    }
+
+    public getAccess(username: string, path: string): AccessLevel {
+        path = AccessControl.normalizePath(path);
+        const rules = this.getRules(username);
+        const principals = this.getPrincipals(username);
+
+        let access = this.getRuleAccess(rules, principals, path);
+        if (access == "none" && this.canTraverse(rules, principals, path)) {
+            access = "read";
+        }
+        if (access == "write" && this.isReadOnly(username)) {
+            access = "read";
+        }
+        return access;
+    }
+
+    public setRule(path: string, principal: string, access: AccessLevel): void {
+        if (!path.startsWith("/")) {
+            throw new Error("Path should start with /");
+        }
+        if (!AccessControl.isValidPrincipal(principal)) {
+            throw new Error("Invalid principal " + principal + ", use user:<name>, group:<name> or *");
+        }
+        if (!LEVELS.includes(access)) {
+            throw new Error("Invalid access " + access + ", use " + LEVELS.join(", "));
+        }
+
+        path = AccessControl.normalizePath(path);
+        this.removeRule(path, principal);
+        this.record.rules.push({ path, principal, access });
+    }
+
+    /**
+     * @returns true if there was such rule.
+     */
+    public removeRule(path: string, principal: string): boolean {
+        path = AccessControl.normalizePath(path);
+        const rules = this.record.rules.filter(rule => !(AccessControl.normalizePath(rule.path) == path && rule.principal == principal));
+        const removed = rules.length != this.record.rules.length;
+        this.record.rules = rules;
+        return removed;
+    }
+
+    /**
+     * Sets members of the group, group without members is removed.
+     */
+    public setGroup(group: string, usernames: string[]): void {
+        if (usernames.length == 0) {
+            delete this.record.groups[group];
+            return;
+        }
+        this.record.groups[group] = usernames;
+    }
+
+    public setReadOnly(principal: string, readOnly: boolean): void {
+        if (!AccessControl.isValidPrincipal(principal)) {
+            throw new Error("Invalid principal " + principal + ", use user:<name>, group:<name> or *");
+        }
+
+        this.record.readOnly = this.record.readOnly.filter(p => p != principal);
+        if (readOnly) {
+            this.record.readOnly.push(principal);
+        }
+    }
+
+    public setHomes(homes: boolean): void {
+        this.record.homes = homes;
+    }
+
+    /**
+     * Writes access record into the metadata channel.
+     */
+    public async save(): Promise<void> {
+        const manager = this.app.getDiscordFileManager();
+        if (this.messageId) {
+            await manager.updateMetaAccess(this.record, this.messageId);
+        } else {
+            this.messageId = await manager.postMetaAccess(this.record);
+        }
+    }
+
+    /**
+     * Creates home folders of the users, if homes are enabled.
+     */
+    public async ensureHomes(usernames: string[]): Promise<void> {
+        if (!this.record.homes) {
+            return;
+        }
+
+        const root = this.app.getFileSystem().getRoot();
+        for (const username of usernames) {
+            const folder = root.prepareFolderHierarchy(this.getHomePath(username));
+            await this.app.getDiscordFileManager().ensureFolderPosted(folder);
+        }
+    }
+
+}
@@ -0,0 +1,52 @@
+import { v2 } from "webdav-server";
+import DiscordFileStorageApp from "../DiscordFileStorageApp.js";
+import Trash from "../trash/Trash.js";
+import VersionsView from "../webdav/VersionsView.js";
+
+/**
+ * Checks webdav privileges against AccessControl: write privileges need write access, all others read access.
+ * Old versions and trash entries are checked against the path of the file they belong to.
+ */
+export default class AccessPrivilegeManager extends v2.PrivilegeManager {
+    private app: DiscordFileStorageApp;
+    private trash: Trash;
+
+    constructor(app: DiscordFileStorageApp) {
+        super();
+        this.app = app;
+        this.trash = new Trash(app);
+    }
+
+    /**
+     * @returns path to check rules against, undefined if every user can read the path.
+     */
+    private resolvePath(path: string): string | undefined {
+        if (VersionsView.isVersionsPath(path)) {
+            return path.slice(VersionsView.FOLDER_NAME.length + 1) || "/";
+        }
+
+        if (Trash.isTrashPath(path)) {
+            // trash folder is listed by everyone, users see only entries they had access to.
+            return this.trash.getOriginalPath(path) ?? (path.replace(/\/$/, "") == "/" + Trash.FOLDER_NAME ? undefined : path);
+        }
+
+        return path;
+    }
+
+    protected _can(fullPath: v2.Path, user: v2.IUser, resource: v2.Resource, privilege: string, callback: v2.PrivilegeManagerCallback): void {
+        const isWrite = privilege.startsWith("canWrite");
+        // requests without credentials get the default user, rules do not apply to it.
+        if (!user || user.isDefaultUser) {
+            return callback(undefined!, false);
+        }
+
+        const path = this.resolvePath(fullPath.toString());
+        if (path === undefined) {
+            return callback(undefined!, !isWrite);
+        }
+
+        const access = this.app.getAccessControl().getAccess(user.username, path);
+        callback(undefined!, isWrite ? access == "write" : access != "none");
+    }
+
+}
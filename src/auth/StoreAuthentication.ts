@@ -0,0 +1,205 @@
+import crypto from "crypto";
+import { v2 } from "webdav-server";
+import { Errors } from "webdav-server/lib/index.v2.js";
+import { parseHTTPAuthHeader } from "webdav-server/lib/user/CommonFunctions.js";
+import UserStore from "./UserStore.js";
+
+function md5(value: string): string {
+    return crypto.createHash("md5").update(value).digest("hex");
+}
+
+function sha256(value: string): string {
+    return crypto.createHash("sha256").update(value).digest("hex");
+}
+
+const DEFAULT_USER: v2.IUser = { uid: "DefaultUser", username: "DefaultUser", isDefaultUser: true };
+
+interface IIssuedNonce {
+    issuedAt: number;
+    counts: Set<number>; // nc values already used with the nonce.
+}
+
+interface IVerifiedBasic {
+    username: string;
+    expiresAt: number;
+}
+
+/**
+ * Basic and digest authentication against UserStore. Clients are offered both, digest works only for users with stored HA1.
+ * Basic authentication of the library is not used, since it rejects base64 with "+" and "/", which passwords with special characters give.
+ * Digest nonces are accepted only if issued here and not expired, every nc value once, so captured headers can not be replayed.
+ * Successful basic authentications are cached for a short time, so not every request costs a password hash. Changed or removed users
+ * do not match the cache anymore.
+ */
+export default class StoreAuthentication implements v2.HTTPAuthentication {
+    private static readonly NONCE_TTL = 5 * 60 * 1000;
+    private static readonly MAX_NONCES = 10000;
+    private static readonly BASIC_CACHE_TTL = 60 * 1000;
+    private static readonly MAX_BASIC_CACHE = 1000;
+
+    private store: UserStore;
+    // insertion order is issue order, so the oldest nonces come first.
+    private nonces: Map<string, IIssuedNonce> = new Map();
+    private basicCache: Map<string, IVerifiedBasic> = new Map();
+
+    constructor(store: UserStore) {
+        this.store = store;
+    }
+
+    private generateNonce(): string {
+        return crypto.randomBytes(32).toString("hex");
+    }
+
+    private issueNonce(): string {
+        // expired nonces are kept for a while, so their clients are told to retry with a new one (stale) instead of asking for credentials.
+        const now = Date.now();
+        for (const [nonce, issued] of this.nonces) {
+            if (now - issued.issuedAt < StoreAuthentication.NONCE_TTL * 2 && this.nonces.size < StoreAuthentication.MAX_NONCES) {
+                break;
+            }
+            this.nonces.delete(nonce);
+        }
+
+        const nonce = this.generateNonce();
+        this.nonces.set(nonce, { issuedAt: now, counts: new Set() });
+        return nonce;
+    }
+
+    private isExpired(issued: IIssuedNonce): boolean {
+        return Date.now() - issued.issuedAt >= StoreAuthentication.NONCE_TTL;
+    }
+
+    /**
+     * True if request uses an expired nonce, then client only has to repeat it with a new one.
+     */
+    private isStale(ctx: v2.HTTPRequestContext): boolean {
+        const header = ctx.headers.find("Authorization", "");
+        if (!/^Digest\s/i.test(header)) {
+            return false;
+        }
+
+        try {
+            const issued = this.nonces.get(parseHTTPAuthHeader(header, "Digest").nonce);
+            return !!issued && this.isExpired(issued);
+        } catch (e) {
+            return false;
+        }
+    }
+
+    // called before getUser on every request, so the challenge is there when authentication fails.
+    public askForAuthentication(ctx: v2.HTTPRequestContext): { [headeName: string]: string } {
+        const stale = this.isStale(ctx) ? ", stale=true" : "";
+        // two challenges need two headers, library sets only one value per header.
+        ctx.response.setHeader("WWW-Authenticate", [
+            "Digest realm=\"" + UserStore.REALM + "\", qop=\"auth\", nonce=\"" + this.issueNonce() + "\", opaque=\"" + this.generateNonce() + "\"" + stale,
+            "Basic realm=\"" + UserStore.REALM + "\", charset=\"UTF-8\"",
+        ]);
+        return {};
+    }
+
+    public getUser(ctx: v2.HTTPRequestContext, callback: (error: Error, user?: v2.IUser) => void): void {
+        const header = ctx.headers.find("Authorization");
+        if (!header) {
+            return callback(Errors.MissingAuthorisationHeader, DEFAULT_USER);
+        }
+
+        const user = /^Basic\s/i.test(header) ? this.getBasicUser(header) : /^Digest\s/i.test(header) ? Promise.resolve(this.getDigestUser(ctx, header)) : undefined;
+        if (!user) {
+            return callback(Errors.WrongHeaderFormat, DEFAULT_USER);
+        }
+
+        user.then(
+            user => user ? callback(undefined!, user) : callback(Errors.BadAuthentication, DEFAULT_USER),
+            () => callback(Errors.BadAuthentication, DEFAULT_USER),
+        );
+    }
+
+    private async getBasicUser(header: string): Promise<v2.IUser | undefined> {
+        const value = Buffer.from(header.replace(/^Basic\s+/i, "").trim(), "base64").toString("utf-8");
+        const separator = value.indexOf(":");
+        if (separator == -1) {
+            return undefined;
+        }
+
+        const username = value.slice(0, separator);
+        const stored = this.store.getUser(username);
+        if (!stored) {
+            return undefined;
+        }
+
+        // stored hash is a part of the key, so the old password stops working as soon as the password is changed.
+        const key = sha256(stored.passwordHash + " " + header);
+        const cached = this.basicCache.get(key);
+        if (cached && cached.expiresAt > Date.now()) {
+            return { uid: cached.username, username: cached.username };
+        }
+
+        const verified = await this.store.verifyPassword(username, value.slice(separator + 1));
+        if (!verified) {
+            return undefined;
+        }
+
+        this.cacheBasic(key, username);
+        return { uid: username, username };
+    }
+
+    private cacheBasic(key: string, username: string): void {
+        const now = Date.now();
+        for (const [cachedKey, cached] of this.basicCache) {
+            if (cached.expiresAt > now && this.basicCache.size < StoreAuthentication.MAX_BASIC_CACHE) {
+                break;
+            }
+            this.basicCache.delete(cachedKey);
+        }
+        this.basicCache.delete(key);
+        this.basicCache.set(key, { username, expiresAt: now + StoreAuthentication.BASIC_CACHE_TTL });
+    }
+
+    private getDigestUser(ctx: v2.HTTPRequestContext, header: string): v2.IUser | undefined {
+        let props: { [key: string]: string };
+        try {
+            props = parseHTTPAuthHeader(header, "Digest");
+        } catch (e) {
+            return undefined;
+        }
+
+        const stored = props.username ? this.store.getUser(props.username) : undefined;
+        if (!stored?.ha1 || !props.uri || !props.nonce || !props.response || (props.qop && props.qop != "auth")) {
+            return undefined;
+        }
+
+        // uri may differ from the requested one only by the trailing slash.
+        const requested = ctx.requested.uri;
+        if (props.uri.replace(/\/$/, "") != requested.replace(/\/$/, "")) {
+            return undefined;
+        }
+
+        let ha1 = stored.ha1;
+        if (props.algorithm == "MD5-sess") {
+            ha1 = md5(ha1 + ":" + props.nonce + ":" + props.cnonce);
+        }
+        const ha2 = md5(ctx.request.method!.toUpperCase() + ":" + props.uri);
+        const expected = props.qop
+            ? md5(ha1 + ":" + props.nonce + ":" + props.nc + ":" + props.cnonce + ":" + props.qop + ":" + ha2)
+            : md5(ha1 + ":" + props.nonce + ":" + ha2);
+
+        if (expected != props.response.toLowerCase()) {
+            return undefined;
+        }
+
+        const issued = this.nonces.get(props.nonce);
+        if (!issued || this.isExpired(issued)) {
+            return undefined;
+        }
+
+        // without qop there is no nc, such nonce is used once.
+        const nc = props.qop ? parseInt(props.nc ?? "", 16) : 0;
+        if (Number.isNaN(nc) || issued.counts.has(nc)) {
+            return undefined;
+        }
+        issued.counts.add(nc);
+
+        return { uid: stored.username, username: stored.username };
+    }
+
+}
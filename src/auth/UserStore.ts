@@ -0,0 +1,164 @@
+import fs from "fs";
+import path from "path";
+import crypto from "crypto";
+import { promisify } from "util";
+
+const scrypt = promisify(crypto.scrypt) as (password: string, salt: Buffer, keylen: number, options: crypto.ScryptOptions) => Promise<Buffer>;
+
+export interface IStoredUser {
+    username: string;
+    passwordHash: string; // scrypt$<N>$<r>$<p>$<salt>$<hash>, salt and hash in base64.
+    ha1?: string; // md5(username:realm:password) for digest authentication, hex.
+    quota?: number; // bytes, overrides USER_QUOTA. 0 is unlimited.
+}
+
+interface IUsersFile {
+    version: number;
+    users: IStoredUser[];
+}
+
+/**
+ * Users of the webdav server, kept in a json file with salted scrypt hashes of their passwords. Digest authentication can not work
+ * with such hash, so users allowed to use it also have HA1 of the password stored. HA1 is bound to the realm, but it is enough to log in,
+ * so the file has to be kept as secret as the passwords.
+ */
+export default class UserStore {
+    public static readonly REALM = "DICloud Server";
+    private static readonly KEY_LENGTH = 64;
+    private static readonly SCRYPT_OPTIONS = { N: 16384, r: 8, p: 1 };
+
+    private filePath: string;
+    private users: IStoredUser[];
+
+    constructor(filePath: string) {
+        this.filePath = path.resolve(filePath);
+        this.users = this.load();
+    }
+
+    private load(): IStoredUser[] {
+        if (!fs.existsSync(this.filePath)) {
+            return [];
+        }
+
+        const file = JSON.parse(fs.readFileSync(this.filePath, "utf-8")) as IUsersFile;
+        if (!Array.isArray(file.users)) {
+            throw new Error("Users file " + this.filePath + " is broken, it has no users list");
+        }
+        return file.users;
+    }
+
+    private save(): void {
+        const file: IUsersFile = { version: 1, users: this.users };
+        fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+
+        // rename is atomic, so users are never left half written.
+        fs.writeFileSync(this.filePath + ".tmp", JSON.stringify(file, null, 4), { mode: 0o600 });
+        fs.renameSync(this.filePath + ".tmp", this.filePath);
+    }
+
+    /**
+     * Colon separates username and password in basic and digest authentication, so it can not be part of the username.
+     */
+    public static isValidUsername(username: string): boolean {
+        return /^[^:\s]+$/.test(username);
+    }
+
+    public static getHA1(username: string, password: string): string {
+        return crypto.createHash("md5").update(username + ":" + UserStore.REALM + ":" + password).digest("hex");
+    }
+
+    public static async hashPassword(password: string): Promise<string> {
+        const { N, r, p } = UserStore.SCRYPT_OPTIONS;
+        const salt = crypto.randomBytes(16);
+        const hash = await scrypt(password, salt, UserStore.KEY_LENGTH, { N, r, p });
+        return ["scrypt", N, r, p, salt.toString("base64"), hash.toString("base64")].join("$");
+    }
+
+    public static async verifyHash(password: string, passwordHash: string): Promise<boolean> {
+        const [algorithm, N, r, p, salt, hash] = passwordHash.split("$");
+        if (algorithm != "scrypt" || !hash) {
+            return false;
+        }
+
+        const expected = Buffer.from(hash, "base64");
+        const actual = await scrypt(password, Buffer.from(salt, "base64"), expected.length, { N: parseInt(N, 10), r: parseInt(r, 10), p: parseInt(p, 10) });
+        return crypto.timingSafeEqual(actual, expected);
+    }
+
+    public getUsers(): IStoredUser[] {
+        return this.users;
+    }
+
+    public getUser(username: string): IStoredUser | undefined {
+        return this.users.find(user => user.username == username);
+    }
+
+    private async createUser(username: string, password: string, digest: boolean): Promise<IStoredUser> {
+        if (password.length == 0) {
+            throw new Error("Password can not be empty");
+        }
+
+        const user: IStoredUser = { username, passwordHash: await UserStore.hashPassword(password) };
+        if (digest) {
+            user.ha1 = UserStore.getHA1(username, password);
+        }
+        return user;
+    }
+
+    /**
+     * @param digest if true, HA1 is stored too, so user can log in with digest authentication.
+     */
+    public async addUser(username: string, password: string, digest: boolean = true): Promise<void> {
+        if (!UserStore.isValidUsername(username)) {
+            throw new Error("Invalid username " + username + ", it can not contain colons or spaces");
+        }
+        if (this.getUser(username)) {
+            throw new Error("User " + username + " already exists");
+        }
+
+        this.users.push(await this.createUser(username, password, digest));
+        this.save();
+    }
+
+    public async setPassword(username: string, password: string, digest: boolean = true): Promise<void> {
+        const index = this.users.findIndex(user => user.username == username);
+        if (index == -1) {
+            throw new Error("User " + username + " does not exist");
+        }
+
+        this.users[index] = { ...await this.createUser(username, password, digest), quota: this.users[index].quota };
+        this.save();
+    }
+
+    /**
+     * @param quota bytes, 0 is unlimited, undefined uses USER_QUOTA.
+     */
+    public setQuota(username: string, quota: number | undefined): void {
+        const user = this.getUser(username);
+        if (!user) {
+            throw new Error("User " + username + " does not exist");
+        }
+
+        user.quota = quota;
+        this.save();
+    }
+
+    /**
+     * @returns true if there was such user.
+     */
+    public removeUser(username: string): boolean {
+        const users = this.users.filter(user => user.username != username);
+        const removed = users.length != this.users.length;
+        this.users = users;
+        if (removed) {
+            this.save();
+        }
+        return removed;
+    }
+
+    public async verifyPassword(username: string, password: string): Promise<boolean> {
+        const user = this.getUser(username);
+        return user ? UserStore.verifyHash(password, user.passwordHash) : false;
+    }
+
+}
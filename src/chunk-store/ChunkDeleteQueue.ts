@@ -0,0 +1,115 @@
+import fs from "fs";
+import path from "path";
+import { IChunkInfo } from "../file/RemoteFile.js";
+import IChunkStore from "./IChunkStore.js";
+
+/**
+ * Chunks which are not used by any file anymore and wait for deletion. They are deleted in the background in batches, so deleting
+ * a big folder does not wait for every chunk message. Queue is kept on disk, chunks queued before a restart are deleted after it.
+ */
+export default class ChunkDeleteQueue {
+    public static readonly BATCH_SIZE = 100;
+    public static readonly RETRY_DELAY = 60 * 1000;
+
+    private store: IChunkStore;
+    private filePath: string;
+    private chunks: IChunkInfo[];
+    private running: Promise<void> | undefined;
+    private retryTimer: NodeJS.Timeout | undefined;
+
+    constructor(store: IChunkStore, filePath: string) {
+        this.store = store;
+        this.filePath = path.resolve(filePath);
+        this.chunks = this.load();
+    }
+
+    private load(): IChunkInfo[] {
+        if (!fs.existsSync(this.filePath)) {
+            return [];
+        }
+
+        try {
+            return JSON.parse(fs.readFileSync(this.filePath, "utf-8"));
+        } catch (e) {
+            console.log("Skipping broken chunk delete queue " + this.filePath + ", garbage collector will find its chunks: " + e);
+            return [];
+        }
+    }
+
+    private save(): void {
+        fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+
+        // rename is atomic, so queue is never left half written.
+        fs.writeFileSync(this.filePath + ".tmp", JSON.stringify(this.chunks));
+        fs.renameSync(this.filePath + ".tmp", this.filePath);
+    }
+
+    public getPending(): IChunkInfo[] {
+        return this.chunks;
+    }
+
+    /**
+     * Queues chunks for deletion and starts deleting them. Chunks must not be referenced by any record anymore.
+     */
+    public push(chunks: IChunkInfo[]): void {
+        if (chunks.length == 0) {
+            return;
+        }
+
+        this.chunks = this.chunks.concat(chunks);
+        this.save();
+        this.start();
+    }
+
+    /**
+     * Starts deleting queued chunks in the background, if it is not running already.
+     */
+    public start(): void {
+        if (this.running || this.chunks.length == 0) {
+            return;
+        }
+
+        clearTimeout(this.retryTimer);
+        this.retryTimer = undefined;
+        this.running = this.process().finally(() => {
+            this.running = undefined;
+            // chunks may be pushed after the last batch was taken.
+            if (!this.retryTimer) {
+                this.start();
+            }
+        });
+    }
+
+    /**
+     * Resolves when queued chunks are deleted, or when deletion failed and waits for the next attempt.
+     */
+    public async whenIdle(): Promise<void> {
+        while (this.running) {
+            await this.running;
+        }
+    }
+
+    public stop(): void {
+        clearTimeout(this.retryTimer);
+        this.retryTimer = undefined;
+    }
+
+    private async process(): Promise<void> {
+        while (this.chunks.length > 0) {
+            const batch = this.chunks.slice(0, ChunkDeleteQueue.BATCH_SIZE);
+            try {
+                await this.store.deleteChunks(batch);
+            } catch (err) {
+                console.log("Failed to delete " + batch.length + " chunks, next attempt in " + ChunkDeleteQueue.RETRY_DELAY + "ms: " + err);
+                this.retryTimer = setTimeout(() => this.start(), ChunkDeleteQueue.RETRY_DELAY);
+                this.retryTimer.unref();
+                return;
+            }
+
+            this.chunks = this.chunks.filter(chunk => !batch.includes(chunk));
+            this.save();
+            console.log("Deleted " + batch.length + " chunks, " + this.chunks.length + " chunks left in the delete queue.");
+        }
+    }
+
+}
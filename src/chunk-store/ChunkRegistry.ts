@@ -0,0 +1,64 @@
+import { IChunkInfo } from "../file/RemoteFile.js";
+
+/**
+ * Reference counts of stored chunks, so several files can share the same chunks (copies, identical uploads).
+ * Chunks of files which are stored as is (not encrypted) are also indexed by content hash, so uploads of the same content can reuse them.
+ * Counts are not persisted, they are rebuilt from the loaded files on boot.
+ */
+export default class ChunkRegistry {
+    private counts: Map<string, number> = new Map();
+    private byHash: Map<string, IChunkInfo> = new Map();
+
+    public clear(): void {
+        this.counts.clear();
+        this.byHash.clear();
+    }
+
+    public getCount(chunk: IChunkInfo): number {
+        return this.counts.get(chunk.id) ?? 0;
+    }
+
+    /**
+     * @param indexable true if chunk data is the plain content (not encrypted), so chunk can be found by its hash.
+     */
+    public acquire(chunk: IChunkInfo, indexable: boolean = false): void {
+        this.counts.set(chunk.id, this.getCount(chunk) + 1);
+        if (indexable && chunk.sha256 && !this.byHash.has(chunk.sha256)) {
+            this.byHash.set(chunk.sha256, chunk);
+        }
+    }
+
+    /**
+     * @returns true if chunk is not used anymore and can be deleted.
+     */
+    public release(chunk: IChunkInfo): boolean {
+        const count = this.getCount(chunk) - 1;
+        if (count > 0) {
+            this.counts.set(chunk.id, count);
+            return false;
+        }
+
+        this.forget(chunk.id);
+        return true;
+    }
+
+    /**
+     * Drops chunk which is deleted from the store by other means (garbage collector).
+     */
+    public forget(chunkId: string): void {
+        this.counts.delete(chunkId);
+        for (const [hash, chunk] of this.byHash) {
+            if (chunk.id == chunkId) {
+                this.byHash.delete(hash);
+            }
+        }
+    }
+
+    /**
+     * Returns stored plain chunk with the given content hash, if there is one.
+     */
+    public findByHash(sha256: string): IChunkInfo | undefined {
+        return this.byHash.get(sha256);
+    }
+
+}
@@ -0,0 +1,112 @@
+import { AttachmentBuilder, DiscordAPIError, GuildTextBasedChannel, RESTJSONErrorCodes, SnowflakeUtil } from "discord.js";
+import { Readable } from "stream";
+import DiscordFileStorageApp from "../DiscordFileStorageApp.js";
+import client from "../helper/AxiosInstance.js";
+import { IChunkInfo } from "../file/RemoteFile.js";
+import IChunkStore, { IStoredChunk } from "./IChunkStore.js";
+import { IByteRange, SliceStream } from "../stream-helpers/ByteRange.js";
+
+/**
+ * Stores chunks as attachments of messages in the files channel.
+ */
+export default class DiscordChunkStore implements IChunkStore {
+    // discord deletes 2 - 100 messages at once, if they are younger than 14 days. Few minutes of margin for clock differences.
+    public static readonly BULK_DELETE_LIMIT = 100;
+    public static readonly BULK_DELETE_MAX_AGE = (14 * 24 * 60 - 5) * 60 * 1000;
+
+    private app: DiscordFileStorageApp;
+    private userAgent = "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/112.0.0.0 Safari/537.36"
+
+    constructor(app: DiscordFileStorageApp) {
+        this.app = app;
+    }
+
+    public async getStoreId(): Promise<string> {
+        return (await this.app.getFileChannel()).id;
+    }
+
+    public async putChunk(buffer: Buffer, name: string): Promise<IChunkInfo> {
+        const filesChannel = await this.app.getFileChannel();
+        const message = await filesChannel.send({
+            files: [new AttachmentBuilder(buffer).setName(name)],
+        });
+
+        return {
+            id: message.id,
+            url: message.attachments.first()!.url,
+            proxyUrl: message.attachments.first()!.proxyURL,
+            length: buffer.length,
+        };
+    }
+
+    public async getChunkStream(chunk: IChunkInfo, range?: IByteRange): Promise<Readable> {
+        console.log("getting: " + chunk.url + (range ? " (bytes " + range.start + "-" + range.end + ")" : ""));
+        const res = await client.get(chunk.url, {
+            responseType: "stream",
+            headers: {
+                "User-Agent": this.userAgent,
+                ...(range ? { "Range": "bytes=" + range.start + "-" + range.end } : {}),
+            },
+            timeout: 10000,
+        });
+
+        // cdn may ignore Range header and send whole chunk.
+        if (range && res.status != 206) {
+            return (res.data as Readable).pipe(new SliceStream(range.start, range.end - range.start + 1));
+        }
+
+        return res.data;
+    }
+
+    public async deleteChunk(chunk: IChunkInfo): Promise<void> {
+        const filesChannel = await this.app.getFileChannel();
+        try {
+            await filesChannel.messages.delete(chunk.id);
+        } catch (err) {
+            if (!(err instanceof DiscordAPIError && err.code == RESTJSONErrorCodes.UnknownMessage)) {
+                throw err;
+            }
+        }
+    }
+
+    public async deleteChunks(chunks: IChunkInfo[]): Promise<void> {
+        const filesChannel = await this.app.getFileChannel() as GuildTextBasedChannel;
+        const now = Date.now();
+        const young = chunks.filter(chunk => now - SnowflakeUtil.timestampFrom(chunk.id) < DiscordChunkStore.BULK_DELETE_MAX_AGE);
+        let single = chunks.filter(chunk => !young.includes(chunk));
+
+        for (let i = 0; i < young.length; i += DiscordChunkStore.BULK_DELETE_LIMIT) {
+            const batch = young.slice(i, i + DiscordChunkStore.BULK_DELETE_LIMIT);
+            if (batch.length < 2) {
+                single = single.concat(batch);
+                continue;
+            }
+
+            try {
+                await filesChannel.bulkDelete(batch.map(chunk => chunk.id));
+            } catch (err) {
+                // bulk delete fails as a whole, for example if some message is deleted already.
+                console.log("Bulk delete of " + batch.length + " chunks failed, deleting them one by one: " + err);
+                single = single.concat(batch);
+            }
+        }
+
+        for (const chunk of single) {
+            await this.deleteChunk(chunk);
+        }
+    }
+
+    public async listChunks(): Promise<IStoredChunk[]> {
+        const filesChannel = await this.app.getFileChannel();
+        const messages = await this.app.getAllMessages(filesChannel.id);
+
+        return messages.filter(msg => msg.attachments.size > 0).map(msg => ({
+            id: msg.id,
+            url: msg.attachments.first()!.url,
+            proxyUrl: msg.attachments.first()!.proxyURL,
+            length: msg.attachments.first()!.size,
+            createdAt: msg.createdAt,
+        }));
+    }
+
+}
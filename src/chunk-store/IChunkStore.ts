@@ -0,0 +1,33 @@
+import { Readable } from "stream";
+import { IChunkInfo } from "../file/RemoteFile.js";
+import { IByteRange } from "../stream-helpers/ByteRange.js";
+
+export interface IStoredChunk extends IChunkInfo {
+    createdAt: Date;
+}
+
+/**
+ * Backend that keeps the raw chunks of remote files. 
+ * DiscordFileManager never touches the storage directly, it only goes through this interface.
+ */
+export default interface IChunkStore {
+    /**
+     * Returns id of the place where chunks are stored (channel id, directory, etc). Saved into file meta as filesPostedInChannelId.
+     */
+    getStoreId(): Promise<string>;
+
+    putChunk(buffer: Buffer, name: string): Promise<IChunkInfo>;
+    /**
+     * @param range part of the chunk to read, relative to the chunk start. Whole chunk is read if not set.
+     */
+    getChunkStream(chunk: IChunkInfo, range?: IByteRange): Promise<Readable>;
+    /**
+     * Chunk which is already gone is not an error, deletes may be repeated after restart.
+     */
+    deleteChunk(chunk: IChunkInfo): Promise<void>;
+    /**
+     * Deletes several chunks, in fewer requests if the store can. Chunks which are already gone are skipped.
+     */
+    deleteChunks(chunks: IChunkInfo[]): Promise<void>;
+    listChunks(): Promise<IStoredChunk[]>;
+}
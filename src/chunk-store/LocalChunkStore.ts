@@ -0,0 +1,87 @@
+import fs from "fs";
+import path from "path";
+import crypto from "crypto";
+import { pathToFileURL } from "url";
+import { Readable } from "stream";
+import { IChunkInfo } from "../file/RemoteFile.js";
+import IChunkStore, { IStoredChunk } from "./IChunkStore.js";
+import { IByteRange } from "../stream-helpers/ByteRange.js";
+
+/**
+ * Stores chunks as plain files in a local directory. Useful for CI and development, where no discord bot is available.
+ */
+export default class LocalChunkStore implements IChunkStore {
+    private directory: string;
+
+    constructor(directory: string) {
+        this.directory = path.resolve(directory);
+        fs.mkdirSync(this.directory, { recursive: true });
+    }
+
+    public async getStoreId(): Promise<string> {
+        return "local:" + this.directory;
+    }
+
+    private getChunkPath(id: string): string {
+        // ids are generated by us, but meta may come from anywhere, so dont allow to escape the directory.
+        if (id != path.basename(id)) {
+            throw new Error("Invalid chunk id: " + id);
+        }
+        return path.join(this.directory, id);
+    }
+
+    public async putChunk(buffer: Buffer, name: string): Promise<IChunkInfo> {
+        const id = Date.now() + "-" + crypto.randomBytes(8).toString("hex");
+        const chunkPath = this.getChunkPath(id);
+        await fs.promises.writeFile(chunkPath, buffer);
+
+        const url = pathToFileURL(chunkPath).toString();
+        return {
+            id,
+            url,
+            proxyUrl: url,
+            length: buffer.length,
+        };
+    }
+
+    public async getChunkStream(chunk: IChunkInfo, range?: IByteRange): Promise<Readable> {
+        const chunkPath = this.getChunkPath(chunk.id);
+        await fs.promises.access(chunkPath, fs.constants.R_OK);
+        return fs.createReadStream(chunkPath, range ? { start: range.start, end: range.end } : undefined);
+    }
+
+    public async deleteChunk(chunk: IChunkInfo): Promise<void> {
+        await fs.promises.rm(this.getChunkPath(chunk.id), { force: true });
+    }
+
+    public async deleteChunks(chunks: IChunkInfo[]): Promise<void> {
+        for (const chunk of chunks) {
+            await this.deleteChunk(chunk);
+        }
+    }
+
+    public async listChunks(): Promise<IStoredChunk[]> {
+        const names = await fs.promises.readdir(this.directory);
+        const chunks: IStoredChunk[] = [];
+
+        for (const name of names) {
+            const chunkPath = this.getChunkPath(name);
+            const stat = await fs.promises.stat(chunkPath);
+            if (!stat.isFile()) {
+                continue;
+            }
+
+            const url = pathToFileURL(chunkPath).toString();
+            chunks.push({
+                id: name,
+                url,
+                proxyUrl: url,
+                length: stat.size,
+                createdAt: stat.mtime,
+            });
+        }
+
+        return chunks;
+    }
+
+}
@@ -0,0 +1,164 @@
+import crypto from "crypto";
+
+const ALGORITHM = "aes-256-gcm";
+const KEY_LENGTH = 32;
+const NONCE_LENGTH = 12;
+const NONCE_PREFIX_LENGTH = 8; // rest 4 bytes of the chunk nonce are the chunk index.
+const TAG_LENGTH = 16;
+const KEY_WRAP_AAD = Buffer.from("dicloud-data-key");
+
+export interface IKdfParams {
+    salt: string; // base64
+    N: number;
+    r: number;
+    p: number;
+}
+
+/**
+ * Encryption info stored in file meta. Data key is random per file and stored only wrapped (encrypted) with the master key.
+ * Kdf params are stored too, so files keep their master key also when the salt of new files changes.
+ */
+export interface IFileEncryption {
+    algorithm: typeof ALGORITHM;
+    kdf: IKdfParams;
+    wrappedKey: string; // base64
+    wrapNonce: string; // base64
+    wrapTag: string; // base64
+    noncePrefix: string; // base64
+}
+
+export interface IEncryptedChunk {
+    data: Buffer;
+    tag: string; // base64
+}
+
+/**
+ * Envelope encryption of file chunks.
+ * Master key is derived from the password with scrypt once, every file gets own random data key, every chunk is encrypted with AES-GCM and has own auth tag.
+ */
+export default class FileEncryption {
+    private password: string;
+    private kdfs: Map<string, IKdfParams> = new Map(); // kdf of new files by scrypt params, so they share one salt and master key.
+    private masterKeys: Map<string, Promise<Buffer>> = new Map();
+    private dataKeys: Map<string, Promise<Buffer>> = new Map();
+
+    public static readonly DEFAULT_KDF_PARAMS = { N: 1 << 15, r: 8, p: 1 };
+
+    constructor(password: string) {
+        this.password = password;
+    }
+
+    /**
+     * Derives master key. Scrypt is slow on purpose, so keys are cached by salt.
+     */
+    private getMasterKey(kdf: IKdfParams): Promise<Buffer> {
+        const cacheKey = [kdf.salt, kdf.N, kdf.r, kdf.p].join(":");
+        let key = this.masterKeys.get(cacheKey);
+        if (!key) {
+            key = new Promise((resolve, reject) => {
+                crypto.scrypt(this.password, Buffer.from(kdf.salt, "base64"), KEY_LENGTH, { N: kdf.N, r: kdf.r, p: kdf.p, maxmem: 256 * kdf.N * kdf.r }, (err, derived) => {
+                    err ? reject(err) : resolve(derived);
+                });
+            });
+            this.masterKeys.set(cacheKey, key);
+            key.catch(() => this.masterKeys.delete(cacheKey));
+        }
+        return key;
+    }
+
+    /**
+     * Makes new files use the salt of already stored file, so master key is derived once after restart too.
+     */
+    public useKdf(kdf: IKdfParams): void {
+        const params = [kdf.N, kdf.r, kdf.p].join(":");
+        if (!this.kdfs.has(params)) {
+            this.kdfs.set(params, { salt: kdf.salt, N: kdf.N, r: kdf.r, p: kdf.p });
+        }
+    }
+
+    private getKdf(kdfParams: Omit<IKdfParams, "salt">): IKdfParams {
+        const params = [kdfParams.N, kdfParams.r, kdfParams.p].join(":");
+        let kdf = this.kdfs.get(params);
+        if (!kdf) {
+            kdf = { salt: crypto.randomBytes(16).toString("base64"), ...kdfParams };
+            this.kdfs.set(params, kdf);
+        }
+        return { ...kdf };
+    }
+
+    private getDataKey(encryption: IFileEncryption): Promise<Buffer> {
+        let key = this.dataKeys.get(encryption.wrappedKey);
+        if (!key) {
+            key = (async () => {
+                const masterKey = await this.getMasterKey(encryption.kdf);
+                const decipher = crypto.createDecipheriv(ALGORITHM, masterKey, Buffer.from(encryption.wrapNonce, "base64"), { authTagLength: TAG_LENGTH });
+                decipher.setAAD(KEY_WRAP_AAD);
+                decipher.setAuthTag(Buffer.from(encryption.wrapTag, "base64"));
+                try {
+                    return Buffer.concat([decipher.update(Buffer.from(encryption.wrappedKey, "base64")), decipher.final()]);
+                } catch (err) {
+                    throw new Error("Failed to unwrap file key, wrong ENCRYPT_PASS?");
+                }
+            })();
+            this.dataKeys.set(encryption.wrappedKey, key);
+            key.catch(() => this.dataKeys.delete(encryption.wrappedKey));
+        }
+        return key;
+    }
+
+    private getChunkNonce(encryption: IFileEncryption, index: number): Buffer {
+        const nonce = Buffer.alloc(NONCE_LENGTH);
+        Buffer.from(encryption.noncePrefix, "base64").copy(nonce, 0, 0, NONCE_PREFIX_LENGTH);
+        nonce.writeUInt32BE(index, NONCE_PREFIX_LENGTH);
+        return nonce;
+    }
+
+    /**
+     * Creates new random data key for a file and wraps it with the master key.
+     */
+    public async createFileEncryption(kdfParams = FileEncryption.DEFAULT_KDF_PARAMS): Promise<IFileEncryption> {
+        const kdf = this.getKdf(kdfParams);
+        const masterKey = await this.getMasterKey(kdf);
+        const dataKey = crypto.randomBytes(KEY_LENGTH);
+        const wrapNonce = crypto.randomBytes(NONCE_LENGTH);
+
+        const cipher = crypto.createCipheriv(ALGORITHM, masterKey, wrapNonce, { authTagLength: TAG_LENGTH });
+        cipher.setAAD(KEY_WRAP_AAD);
+        const wrappedKey = Buffer.concat([cipher.update(dataKey), cipher.final()]);
+
+        const encryption: IFileEncryption = {
+            algorithm: ALGORITHM,
+            kdf,
+            wrappedKey: wrappedKey.toString("base64"),
+            wrapNonce: wrapNonce.toString("base64"),
+            wrapTag: cipher.getAuthTag().toString("base64"),
+            noncePrefix: crypto.randomBytes(NONCE_PREFIX_LENGTH).toString("base64"),
+        };
+        this.dataKeys.set(encryption.wrappedKey, Promise.resolve(dataKey));
+
+        return encryption;
+    }
+
+    /**
+     * Encrypts whole chunk. Chunk index is a part of the nonce, so chunks cannot be reordered.
+     */
+    public async encryptChunk(encryption: IFileEncryption, index: number, data: Buffer): Promise<IEncryptedChunk> {
+        const cipher = crypto.createCipheriv(ALGORITHM, await this.getDataKey(encryption), this.getChunkNonce(encryption, index), { authTagLength: TAG_LENGTH });
+        const encrypted = Buffer.concat([cipher.update(data), cipher.final()]);
+
+        return {
+            data: encrypted,
+            tag: cipher.getAuthTag().toString("base64"),
+        };
+    }
+
+    /**
+     * Returns decrypting stream for a single chunk. Stream emits error at the end if chunk was modified.
+     */
+    public async createChunkDecryptor(encryption: IFileEncryption, index: number, tag: string): Promise<crypto.DecipherGCM> {
+        const decipher = crypto.createDecipheriv(ALGORITHM, await this.getDataKey(encryption), this.getChunkNonce(encryption, index), { authTagLength: TAG_LENGTH });
+        decipher.setAuthTag(Buffer.from(tag, "base64"));
+        return decipher;
+    }
+
+}
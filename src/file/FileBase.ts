@@ -14,13 +14,18 @@ export default abstract class FileBase implements IResourceHelper {
     private folder: Folder;
     private markedDeleted: boolean = false;
 
-    constructor(filename: string, totalSize: number, folder: Folder, uploadedDate: Date, lastChangedDate: Date) {
+    /**
+     * @param attach false to only reference the folder without adding file to it, for example for a file which replaces existing one later.
+     */
+    constructor(filename: string, totalSize: number, folder: Folder, uploadedDate: Date, lastChangedDate: Date, attach: boolean = true) {
         this.filename = filename;
         this.totalSize = totalSize;
         this.creationDate = uploadedDate;
         this.modifyDate = lastChangedDate;
         this.folder = folder;
-        folder.addFile(this);
+        if (attach) {
+            folder.addFile(this);
+        }
     }
 
     public isMarkedDeleted(): boolean {
@@ -99,6 +104,13 @@ export default abstract class FileBase implements IResourceHelper {
         this.totalSize = totalSize;
     }
 
+    /**
+     * Returns sha256 (hex) of the file content, if it is known.
+     */
+    public getContentHash(): string | undefined {
+        return undefined;
+    }
+
     public getETag(): string {
         return this.modifyDate.getTime() + "-" + this.getSize();
     }
@@ -3,6 +3,7 @@ import { Readable } from 'stream';
 import Folder from "./filesystem/Folder.js";
 import MutableBuffer from "../helper/MutableBuffer.js"
 import FileBase from './FileBase.js';
+import { ETagHasher } from '../helper/ETagHasher.js';
 
 /**
  * A file that is stored in ram.
@@ -21,14 +22,29 @@ export default class RamFile extends FileBase {
         return Readable.from(this.buffer.cloneNativeBuffer());
     }
 
-    public getWritable(): Writable {
+    /**
+     * @param onFinished called before stream emits finish, so writer waits for it.
+     * @param onWrite called with the size after each write, throws to fail the stream.
+     */
+    public getWritable(onFinished?: () => Promise<void>, onWrite?: (writtenBytes: number) => void): Writable {
         return new Writable({
             write: (chunk: Buffer, encoding: string, callback: (error?: Error | null) => void) => {
+                try {
+                    onWrite?.(this.buffer.size + chunk.length);
+                } catch (err) {
+                    return callback(err as Error);
+                }
                 this.buffer.write(chunk, encoding);
                 if (this.buffer.size > this.buffer.capacity()) {
                     return callback(new Error("Ramfile too large: " + this.buffer.size + " > " + this.maxSize + " bytes"));
                 }
                 callback();
+            },
+            final: (callback: (error?: Error | null) => void) => {
+                if (!onFinished) {
+                    return callback();
+                }
+                onFinished().then(() => callback(), callback);
             }
         });
     }
@@ -42,8 +58,14 @@ export default class RamFile extends FileBase {
         return this.buffer.size;
     }
 
+    public getContentHash(): string {
+        const hasher = new ETagHasher();
+        hasher.modifyHash(this.buffer.cloneNativeBuffer());
+        return hasher.finalize();
+    }
+
     public getETag(): string {
-        return Math.random().toString().replace(".", "");
+        return this.getContentHash();
     }
 
     public toString(): string {
@@ -1,38 +1,68 @@
 import FileBase from "./FileBase.js";
-import Folder, { VirtualFS } from "./filesystem/Folder.js";
+import Folder, { ITrashInfo } from "./filesystem/Folder.js";
+import { IFileEncryption } from "../encryption/FileEncryption.js";
 
 export interface IChunkInfo {
     id: string;
     url: string;
     proxyUrl: string;
     length: number;
+    tag?: string; // auth tag of the encrypted chunk, base64.
+    sha256?: string; // hash of the plain chunk data, hex.
+}
+
+/**
+ * Previous content of a file, kept in the file record after the file was overwritten.
+ */
+export interface IFileVersion {
+    replacedAt: Date;
+    modifiedDate: Date;
+    totalSize: number;
+    attachmentInfos: IChunkInfo[];
+    filesPostedInChannelId: string;
+    metaVersion: number;
+    encryption?: IFileEncryption;
+    sha256?: string;
 }
 
 export interface IRemoteFile {
     filename: string;
     totalSize: number;
-    folder: string;
+    folder?: string; // absolute path of the file, used only by metaVersion 0 records.
+    folderId?: string;
     uploadDate: Date;
     modifiedDate: Date;
     attachmentInfos: IChunkInfo[];
     filesPostedInChannelId: string;
     metaIdInMetaChannel: string;
     metaVersion: number;
+    encryption?: IFileEncryption;
+    sha256?: string; // hash of the whole plain file, hex.
+    versions?: IFileVersion[]; // newest first.
+    trashed?: ITrashInfo;
+    owner?: string; // user who wrote the current content, it counts to the quota of the user.
 }
 
 /**
  * Represents a file on the server side. This file is stored on the server.
  */
 export default class RemoteFile extends FileBase {
+    // 1 - folders are referenced by id, 2 - envelope encryption (files without encryption info and version < 2 may use legacy cipher).
+    public static readonly CURRENT_META_VERSION = 2;
 
     private chunks: IChunkInfo[] = [];
     private filesPostedInChannelId: string = "";
     private messageMetaIdInMetaChannel: string = "";
-    private metaVersion: number = 0;
+    private metaVersion: number = RemoteFile.CURRENT_META_VERSION;
+    private encryption: IFileEncryption | undefined;
+    private contentHash: string | undefined;
+    private versions: IFileVersion[] = [];
+    private trashInfo: ITrashInfo | undefined;
+    private owner: string | undefined;
 
 
-    constructor(filename: string, totalSize: number, folder: Folder, uploadedDate: Date) {
-        super(filename, totalSize, folder, uploadedDate, new Date());
+    constructor(filename: string, totalSize: number, folder: Folder, uploadedDate: Date, attach: boolean = true) {
+        super(filename, totalSize, folder, uploadedDate, new Date(), attach);
     }
 
     public getChunks(): IChunkInfo[] {
@@ -43,6 +73,13 @@ export default class RemoteFile extends FileBase {
         this.chunks.push(discordMessageId);
     }
 
+    /**
+     * Puts chunk at its position in the file. Chunks may be uploaded in parallel and finish in any order.
+     */
+    public setChunk(index: number, chunk: IChunkInfo): void {
+        this.chunks[index] = chunk;
+    }
+
     public setChunks(attachmentInfos: IChunkInfo[]): void {
         this.chunks = attachmentInfos;
     }
@@ -64,6 +101,106 @@ export default class RemoteFile extends FileBase {
     }
 
 
+    public getEncryption(): IFileEncryption | undefined {
+        return this.encryption;
+    }
+
+    public setEncryption(encryption: IFileEncryption | undefined): void {
+        this.encryption = encryption;
+    }
+
+    public getContentHash(): string | undefined {
+        return this.contentHash;
+    }
+
+    public setContentHash(contentHash: string | undefined): void {
+        this.contentHash = contentHash;
+    }
+
+    /**
+     * Content hash if file has it, files uploaded by older versions use metadata based etag.
+     */
+    public getETag(): string {
+        return this.contentHash ?? super.getETag();
+    }
+
+    /**
+     * Returns true if file was encrypted with old password based cipher (without per-file key).
+     * Such files have no encryption info, so it depends on ENCRYPT setting.
+     */
+    public isLegacyEncrypted(encryptEnabled: boolean): boolean {
+        return encryptEnabled && !this.encryption && this.metaVersion < 2;
+    }
+
+    public getVersions(): IFileVersion[] {
+        return this.versions;
+    }
+
+    public setVersions(versions: IFileVersion[]): void {
+        this.versions = versions;
+    }
+
+    /**
+     * Chunks of the current content and of all kept versions.
+     */
+    public getAllChunks(): IChunkInfo[] {
+        return this.versions.reduce((chunks, version) => chunks.concat(version.attachmentInfos), this.chunks);
+    }
+
+    /**
+     * Current content as a version, which is kept when the file is overwritten.
+     */
+    public toVersion(replacedAt: Date): IFileVersion {
+        return {
+            replacedAt,
+            modifiedDate: this.getModifyDate(),
+            totalSize: this.getSize(),
+            attachmentInfos: this.chunks,
+            filesPostedInChannelId: this.filesPostedInChannelId,
+            metaVersion: this.metaVersion,
+            encryption: this.encryption,
+            sha256: this.contentHash,
+        };
+    }
+
+    /**
+     * Creates read only file with the content of the version. File references the folder, but is not added to it.
+     */
+    public static fromVersion(name: string, version: IFileVersion, folder: Folder, uploadedDate: Date): RemoteFile {
+        const file = new RemoteFile(name, version.totalSize, folder, uploadedDate, false);
+        file.setModifyDate(new Date(version.modifiedDate));
+        file.setFilesPostedInChannelId(version.filesPostedInChannelId);
+        file.setChunks(version.attachmentInfos);
+        file.setMetaVersion(version.metaVersion);
+        file.setEncryption(version.encryption);
+        file.setContentHash(version.sha256);
+        return file;
+    }
+
+    public getTrashInfo(): ITrashInfo | undefined {
+        return this.trashInfo;
+    }
+
+    public setTrashInfo(trashInfo: ITrashInfo | undefined): void {
+        this.trashInfo = trashInfo;
+    }
+
+    public getOwner(): string | undefined {
+        return this.owner;
+    }
+
+    public setOwner(owner: string | undefined): void {
+        this.owner = owner;
+    }
+
+    /**
+     * Size of the current content with all kept versions.
+     */
+    public getStoredSize(): number {
+        // files uploaded without content-length have size -1 until the upload is finished.
+        return this.versions.reduce((size, version) => size + version.totalSize, Math.max(0, this.getSize()));
+    }
+
     public cleanAttachmentInfos(): void {
         this.chunks = [];
     }
@@ -84,10 +221,11 @@ export default class RemoteFile extends FileBase {
 
     static isValidRemoteFile(obj: any) : boolean {
         return obj.filename && 
-            obj.totalSize && 
+            typeof obj.totalSize == "number" && 
             obj.uploadDate && 
             obj.filesPostedInChannelId && 
-            obj.attachmentInfos && obj.attachmentInfos.length > 0
+            Array.isArray(obj.attachmentInfos) &&
+            (obj.attachmentInfos.length > 0 || obj.totalSize == 0) // empty files have no chunks.
     }
 
     toObject(): IRemoteFile {
@@ -99,17 +237,43 @@ export default class RemoteFile extends FileBase {
             filesPostedInChannelId: this.getFilesPostedInChannelId(),
             metaIdInMetaChannel: this.getMessageMetaIdInMetaChannel(),
             metaVersion: this.metaVersion,
-            folder: this.getAbsolutePath(),
+            folderId: this.getFolder().getId(),
             attachmentInfos: this.getChunks(),
+            encryption: this.encryption,
+            sha256: this.contentHash,
+            versions: this.versions.length > 0 ? this.versions : undefined,
+            trashed: this.trashInfo,
+            owner: this.owner,
         };
     }
     
-    public static fromObject(obj: IRemoteFile, root: VirtualFS): RemoteFile {
-        let folder = root.getRoot().prepareFileHierarchy(obj.folder);
+    /**
+     * Returns true if record references its folder by path instead of folder id and has to be migrated.
+     */
+    static isLegacyRemoteFile(obj: IRemoteFile): boolean {
+        return !obj.folderId;
+    }
+
+    /**
+     * Creates file from the record inside the given folder. Folder has to be resolved by caller, see isLegacyRemoteFile.
+     */
+    public static fromObject(obj: IRemoteFile, folder: Folder): RemoteFile {
         const file = new RemoteFile(obj.filename, obj.totalSize, folder, new Date(obj.uploadDate));
         file.setModifyDate(new Date(obj.modifiedDate ?? obj.uploadDate));
         file.setFilesPostedInChannelId(obj.filesPostedInChannelId);
         file.setChunks(obj.attachmentInfos);
+        file.setMetaVersion(obj.metaVersion ?? 0);
+        file.setEncryption(obj.encryption);
+        file.setContentHash(obj.sha256);
+        file.setVersions((obj.versions ?? []).map(version => ({
+            ...version,
+            replacedAt: new Date(version.replacedAt),
+            modifiedDate: new Date(version.modifiedDate),
+        })));
+        if (obj.trashed) {
+            file.setTrashInfo({ ...obj.trashed, deletedAt: new Date(obj.trashed.deletedAt) });
+        }
+        file.setOwner(obj.owner);
         
         // console.dir(obj);
         // console.log("setup file", file);
@@ -123,7 +287,7 @@ export default class RemoteFile extends FileBase {
     }
     
     public isUploaded(): boolean {
-        return (this.chunks.length > 0 && !!this.messageMetaIdInMetaChannel);
+        return ((this.chunks.length > 0 || this.getSize() == 0) && !!this.messageMetaIdInMetaChannel);
     }
 
     public toString(): string {
@@ -2,6 +2,7 @@ import FileBase from "../FileBase.js";
 import colors from "colors/safe.js";
 import { IResourceHelper } from "./IResourceHelper.js";
 import RamFile from "../RamFile.js";
+import crypto from "crypto";
 
 export interface ElementType {
     isFile?: boolean;
@@ -10,20 +11,44 @@ export interface ElementType {
     entry?: Folder | FileBase; // undefined on isUnknown
 }
 
+/**
+ * Where and when entry in the trash was deleted from. Only entries deleted directly have it, their content is in the trash with them.
+ */
+export interface ITrashInfo {
+    path: string; // original absolute path.
+    deletedAt: Date;
+}
+
+/**
+ * Folder record stored in the metadata channel. Files reference folders by id, so renaming or moving a folder changes only its own record.
+ */
+export interface IRemoteFolder {
+    type: "folder";
+    id: string;
+    name: string;
+    parentId: string;
+    metaVersion: number;
+    trashed?: ITrashInfo;
+}
+
 /**
  * Very dirty implementation of a folder class.
  * Very early, unefficient and messy implementation, will be cleaned up later.
  */
 export default class Folder implements IResourceHelper {
+    public static readonly ROOT_ID = "root";
 
+    private id: string;
+    private messageMetaIdInMetaChannel: string = "";
     private name: string;
     private files: FileBase[] = [];
     private folders: Folder[] = [];
     private parent: Folder | null = null;
     private isRoot: boolean;
+    private trashInfo: ITrashInfo | undefined;
     private static root: Folder;
 
-    constructor(name: string, parent: Folder | null = null) {
+    constructor(name: string, parent: Folder | null = null, id?: string) {
         name = name.trim();
 
         if (name.includes("/") || name.includes("\\")) {
@@ -47,6 +72,7 @@ export default class Folder implements IResourceHelper {
         }
 
         this.isRoot = isRoot;
+        this.id = isRoot ? Folder.ROOT_ID : (id ?? crypto.randomUUID());
 
         this.name = name;
         this.parent = parent;
@@ -60,10 +86,37 @@ export default class Folder implements IResourceHelper {
         return this.name;
     }
 
+    public getId(): string {
+        return this.id;
+    }
+
+    public getMessageMetaIdInMetaChannel(): string {
+        return this.messageMetaIdInMetaChannel;
+    }
+
+    public setMessageMetaIdInMetaChannel(metaId: string): void {
+        this.messageMetaIdInMetaChannel = metaId;
+    }
+
+    /**
+     * Returns true if folder record is stored in the metadata channel. Root folder is never posted.
+     */
+    public isPosted(): boolean {
+        return this.isRoot || !!this.messageMetaIdInMetaChannel;
+    }
+
     public getEntryName(): string {
         return this.name;
     }
 
+    public getTrashInfo(): ITrashInfo | undefined {
+        return this.trashInfo;
+    }
+
+    public setTrashInfo(trashInfo: ITrashInfo | undefined): void {
+        this.trashInfo = trashInfo;
+    }
+
     public setName(name: string): void {
         this.name = name;
     }
@@ -219,6 +272,20 @@ export default class Folder implements IResourceHelper {
         folder.files = folder.files.filter(f => f.getFileName() != file.getFileName());
     }
 
+    /**
+     * Puts newFile in place of oldFile, which is left without folder.
+     */
+    public replaceFile(oldFile: FileBase, newFile: FileBase): void {
+        const index = this.files.indexOf(oldFile);
+        if (index == -1) {
+            throw new Error("File " + oldFile.getFileName() + " is not in folder " + this.getName());
+        }
+
+        this.files[index] = newFile;
+        newFile.setFolder(this, false);
+        oldFile.setNullFolder();
+    }
+
     public removeFileFromThisFolder(file: FileBase): void {
         this.removeFileFromFolder(file, this);
     }
@@ -258,6 +325,31 @@ export default class Folder implements IResourceHelper {
         }
     }
 
+    /**
+     * Moves this folder with all its content under newParent with newName.
+     */
+    public moveTo(newParent: Folder, newName: string): void {
+        if (this.isRoot) {
+            throw new Error("Cannot move root folder");
+        }
+
+        let current: Folder | null = newParent;
+        while (current != null) {
+            if (current == this) {
+                throw new Error("Cannot move folder into itself");
+            }
+            current = current.getParent();
+        }
+
+        if (newParent.isSameNameExists(newName)) {
+            throw new Error("Folder with name " + newName + " already exists");
+        }
+
+        this.removeThisFolder();
+        this.name = newName;
+        newParent.addFolder(this);
+    }
+
     public removeThisFolder(): void {
         let parent = this.getParent()!;
         parent.folders = parent.folders.filter(f => f.name != this.name);
@@ -265,9 +357,7 @@ export default class Folder implements IResourceHelper {
 
     public createFolder(name: string): Folder {
         if (!this.isSameNameExists(name)) {
-            const folder = new Folder(name, this);
-            this.folders.push(folder);
-            return folder;
+            return new Folder(name, this); // adds itself to this folder.
         } else {
             throw new Error("Folder with name " + name + " already exists");
         }
@@ -478,6 +568,28 @@ export default class Folder implements IResourceHelper {
 
     }
 
+    public toObject(): IRemoteFolder {
+        return {
+            type: "folder",
+            id: this.id,
+            name: this.name,
+            parentId: this.parent ? this.parent.getId() : Folder.ROOT_ID,
+            metaVersion: 1,
+            trashed: this.trashInfo,
+        };
+    }
+
+    public toJson(): string {
+        return JSON.stringify(this.toObject());
+    }
+
+    static isValidRemoteFolder(obj: any): boolean {
+        return obj.type == "folder" &&
+            obj.id &&
+            obj.name &&
+            obj.parentId;
+    }
+
     public getTotalSize(): number {
         let size = 0;
         this.files.forEach(file => {
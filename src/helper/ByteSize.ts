@@ -0,0 +1,24 @@
+const UNITS: { [unit: string]: number } = { "": 1, k: 1024, m: 1024 ** 2, g: 1024 ** 3, t: 1024 ** 4 };
+
+/**
+ * Parses size with optional binary unit: "1048576", "512M", "10GB", "1.5t".
+ * @returns size in bytes, undefined if value is not a size.
+ */
+export function parseByteSize(value: string): number | undefined {
+    const match = /^(\d+(?:\.\d+)?)\s*([kmgt]?)i?b?$/i.exec(value.trim());
+    if (!match) {
+        return undefined;
+    }
+    return Math.floor(parseFloat(match[1]) * UNITS[match[2].toLowerCase()]);
+}
+
+// 1610612736 => "1.5 GB"
+export function formatByteSize(bytes: number): string {
+    const units = ["B", "KB", "MB", "GB", "TB"];
+    let unit = 0;
+    while (bytes >= 1024 && unit < units.length - 1) {
+        bytes /= 1024;
+        unit++;
+    }
+    return (Math.round(bytes * 10) / 10) + " " + units[unit];
+}
@@ -0,0 +1,26 @@
+export interface ICliArgs {
+    command: string | undefined;
+    positional: string[];
+    flags: Map<string, string>;
+}
+
+/**
+ * Parses "<command> [positional...] [--flag] [--key=value]". Value is everything after the first "=", so it may contain "=" too.
+ */
+export function parseArgs(args: string[]): ICliArgs {
+    const flags: Map<string, string> = new Map();
+    const positional: string[] = [];
+    for (const arg of args.slice(1)) {
+        if (!arg.startsWith("--")) {
+            positional.push(arg);
+            continue;
+        }
+        const separator = arg.indexOf("=");
+        if (separator == -1) {
+            flags.set(arg.slice(2), "true");
+        } else {
+            flags.set(arg.slice(2, separator), arg.slice(separator + 1));
+        }
+    }
+    return { command: args[0], positional, flags };
+}
@@ -0,0 +1,8 @@
+const ESCAPED: { [char: string]: string } = { "&": "&amp;", "<": "&lt;", ">": "&gt;", "\"": "&quot;", "'": "&#39;" };
+
+/**
+ * Escapes text for html content and quoted attribute values.
+ */
+export function escapeHtml(text: string): string {
+    return text.replace(/[&<>"']/g, char => ESCAPED[char]);
+}
@@ -0,0 +1,57 @@
+export interface IRetryOptions {
+    retries: number; // attempts after the first one.
+    baseDelay: number; // ms, doubled after every attempt.
+    maxDelay: number; // ms
+}
+
+export const DEFAULT_RETRY_OPTIONS: IRetryOptions = { retries: 5, baseDelay: 1000, maxDelay: 30000 };
+
+function getStatus(err: any): number | undefined {
+    return err?.status ?? err?.response?.status;
+}
+
+/**
+ * Returns how long (ms) discord asked to wait before the next request, if error is a rate limit.
+ * Handles discord.js RateLimitError (retryAfter in ms), DiscordAPIError (retry_after in seconds in the raw body) and axios errors (Retry-After header in seconds).
+ */
+export function getRetryAfter(err: any): number | undefined {
+    if (typeof err?.retryAfter == "number") {
+        return err.retryAfter;
+    }
+
+    const retryAfter = err?.rawError?.retry_after ?? err?.response?.data?.retry_after ?? err?.response?.headers?.["retry-after"];
+    if (retryAfter !== undefined && !isNaN(parseFloat(retryAfter))) {
+        return parseFloat(retryAfter) * 1000;
+    }
+
+    return undefined;
+}
+
+/**
+ * Network errors, rate limits and server errors are worth retrying. Other 4xx errors (too big file, missing permissions) will fail again.
+ */
+export function isRetryableError(err: any): boolean {
+    const status = getStatus(err);
+    return status === undefined || status == 429 || status >= 500;
+}
+
+/**
+ * Calls fn until it succeeds or retries are exhausted. Waits with exponential backoff between attempts, or as long as rate limit says.
+ */
+export async function retry<T>(fn: (attempt: number) => Promise<T>, options: IRetryOptions = DEFAULT_RETRY_OPTIONS, onRetry?: (err: any, attempt: number, delay: number) => void): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+        try {
+            return await fn(attempt);
+        } catch (err) {
+            if (attempt >= options.retries || !isRetryableError(err)) {
+                throw err;
+            }
+
+            const delay = getRetryAfter(err) ?? Math.min(options.baseDelay * Math.pow(2, attempt), options.maxDelay);
+            if (onRetry) {
+                onRetry(err, attempt + 1, delay);
+            }
+            await new Promise(resolve => setTimeout(resolve, delay));
+        }
+    }
+}
@@ -0,0 +1,10 @@
+/**
+ * Compares two snowflake ids (discord message ids) as numbers without converting them, since they dont fit into js number.
+ * @returns negative if a < b, positive if a > b, 0 if equal.
+ */
+export function compareSnowflakes(a: string, b: string): number {
+    if (a.length != b.length) {
+        return a.length - b.length;
+    }
+    return a < b ? -1 : (a > b ? 1 : 0);
+}
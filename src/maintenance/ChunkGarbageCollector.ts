@@ -0,0 +1,96 @@
+import color from "colors/safe.js";
+import DiscordFileStorageApp from "../DiscordFileStorageApp.js";
+import RemoteFile from "../file/RemoteFile.js";
+import Folder from "../file/filesystem/Folder.js";
+import { IStoredChunk } from "../chunk-store/IChunkStore.js";
+
+export interface IGarbageCollectOptions {
+    dryRun: boolean;
+    minAge: number; // ms, younger chunks may belong to uploads which are not finished yet.
+    force?: boolean; // run even if not all metadata is loaded.
+}
+
+export interface IGarbageCollectResult {
+    scannedChunks: number;
+    orphans: IStoredChunk[];
+    orphanedSize: number;
+    deletedChunks: number;
+    failedChunks: number;
+}
+
+/**
+ * Finds chunks in the chunk store which are not referenced by any file (failed uploads, crashes before meta was posted, failed deletes) and deletes them.
+ */
+export default class ChunkGarbageCollector {
+    private app: DiscordFileStorageApp;
+
+    constructor(app: DiscordFileStorageApp) {
+        this.app = app;
+    }
+
+    /**
+     * Returns ids of chunks used by loaded files and by unfinished upload sessions.
+     */
+    public getReferencedChunkIds(): Set<string> {
+        const ids: Set<string> = new Set();
+
+        const walk = (folder: Folder) => {
+            for (const file of folder.getFiles()) {
+                if (file instanceof RemoteFile) {
+                    file.getAllChunks().forEach(chunk => ids.add(chunk.id));
+                }
+            }
+            folder.getFolders().forEach(walk);
+        };
+        walk(this.app.getFileSystem().getRoot());
+
+        // chunks of abandoned uploads are orphans too.
+        this.app.getUploadSessions().removeExpired();
+        for (const session of this.app.getUploadSessions().list()) {
+            session.chunks.forEach(uploaded => uploaded && ids.add(uploaded.chunk.id));
+        }
+
+        return ids;
+    }
+
+    public async collect(options: IGarbageCollectOptions): Promise<IGarbageCollectResult> {
+        // chunks of files which failed to load look like orphans, deleting them would destroy these files completely.
+        if (!options.force && !this.app.isMetadataComplete()) {
+            throw new Error("Not all file metadata is loaded (cache only boot or broken meta records), refusing to collect garbage.");
+        }
+
+        const store = this.app.getDiscordFileManager().getChunkStore();
+        const referenced = this.getReferencedChunkIds();
+        const chunks = await store.listChunks();
+        const deadline = Date.now() - options.minAge;
+
+        const orphans = chunks.filter(chunk => !referenced.has(chunk.id) && chunk.createdAt.getTime() <= deadline);
+        const result: IGarbageCollectResult = {
+            scannedChunks: chunks.length,
+            orphans,
+            orphanedSize: orphans.reduce((size, chunk) => size + chunk.length, 0),
+            deletedChunks: 0,
+            failedChunks: 0,
+        };
+
+        console.log("Scanned " + chunks.length + " chunks, " + orphans.length + " of them are orphaned (" + result.orphanedSize + " bytes).");
+        if (options.dryRun) {
+            return result;
+        }
+
+        for (const chunk of orphans) {
+            try {
+                await store.deleteChunk(chunk);
+                this.app.getDiscordFileManager().getChunkRegistry().forget(chunk.id);
+                result.deletedChunks++;
+            } catch (err) {
+                console.log(color.red("Failed to delete chunk " + chunk.id + ": " + err));
+                result.failedChunks++;
+            }
+        }
+
+        console.log("Deleted " + result.deletedChunks + " orphaned chunks, failed to delete " + result.failedChunks + ".");
+        return result;
+    }
+
+}
@@ -0,0 +1,187 @@
+import color from "colors/safe.js";
+import DiscordFileStorageApp from "../DiscordFileStorageApp.js";
+import RemoteFile, { IChunkInfo, IRemoteFile } from "../file/RemoteFile.js";
+import Folder from "../file/filesystem/Folder.js";
+import AccessControl from "../access/AccessControl.js";
+
+export type FsckProblemType = "invalid-record" | "size-mismatch" | "missing-chunk" | "path-collision" | "missing-folder";
+
+export interface IFsckProblem {
+    type: FsckProblemType;
+    messageId: string; // meta message id of the record.
+    path: string;
+    message: string;
+}
+
+export interface IFsckOptions {
+    repair: boolean;
+    checkChunks: boolean; // lists all chunks of the chunk store, slow with a lot of files.
+}
+
+export interface IFsckResult {
+    checkedRecords: number;
+    problems: IFsckProblem[];
+    repairedRecords: number;
+}
+
+/**
+ * Validates file records of the metadata journal against each other, the VirtualFS and the chunk store.
+ * Broken records can be repaired by moving them into /lost+found, so they are visible and their chunks are not collected as garbage.
+ */
+export default class MetadataFsck {
+    public static readonly LOST_AND_FOUND = "lost+found";
+
+    private app: DiscordFileStorageApp;
+
+    constructor(app: DiscordFileStorageApp) {
+        this.app = app;
+    }
+
+    public async check(options: IFsckOptions): Promise<IFsckResult> {
+        const records = this.app.getMetadataJournal().getRecords();
+        const { files, folders } = this.collectEntries();
+        const store = this.app.getDiscordFileManager().getChunkStore();
+        const storeId = await store.getStoreId();
+        const storedChunkIds = options.checkChunks ? new Set((await store.listChunks()).map(chunk => chunk.id)) : undefined;
+
+        const result: IFsckResult = { checkedRecords: 0, problems: [], repairedRecords: 0 };
+        const report = (type: FsckProblemType, messageId: string, path: string, message: string) => {
+            console.log(color.yellow("[" + type + "] " + path + " (" + messageId + "): " + message));
+            result.problems.push({ type, messageId, path, message });
+        };
+
+        for (const [messageId, record] of records) {
+            if (Folder.isValidRemoteFolder(record) || AccessControl.isAccessRecord(record)) {
+                continue;
+            }
+            result.checkedRecords++;
+
+            const obj = record as IRemoteFile;
+            const file = files.get(messageId);
+            const name = obj.filename ?? "record-" + messageId;
+
+            if (!RemoteFile.isValidRemoteFile(obj)) {
+                report("invalid-record", messageId, name, "record is not a valid file record");
+                continue;
+            }
+
+            if (!file) {
+                const folder = obj.folderId ? folders.get(obj.folderId) : this.app.getFileSystem().getRoot().getFolderByPath(obj.folder!);
+                const path = (folder ? folder.getAbsolutePath() : "/") + name;
+                report("path-collision", messageId, path, "other file with the same path is already loaded");
+                continue;
+            }
+
+            const path = file.getAbsolutePath();
+            if (obj.folderId && !folders.has(obj.folderId)) {
+                report("missing-folder", messageId, path, "folder " + obj.folderId + " does not exist, file is put into root folder");
+            }
+
+            const chunksSize = this.getChunksSize(obj.attachmentInfos);
+            if (chunksSize != obj.totalSize) {
+                report("size-mismatch", messageId, path, "size is " + obj.totalSize + " bytes, but chunks have " + chunksSize + " bytes");
+            }
+
+            if (storedChunkIds && obj.filesPostedInChannelId == storeId) {
+                const missing = obj.attachmentInfos.filter(chunk => !storedChunkIds.has(chunk.id));
+                if (missing.length > 0) {
+                    report("missing-chunk", messageId, path, missing.length + " of " + obj.attachmentInfos.length + " chunks do not exist anymore");
+                }
+            }
+        }
+
+        console.log("Checked " + result.checkedRecords + " file records, found " + result.problems.length + " problems.");
+        if (options.repair) {
+            result.repairedRecords = await this.repair(result.problems, files);
+            console.log("Moved " + result.repairedRecords + " records to /" + MetadataFsck.LOST_AND_FOUND);
+        }
+
+        return result;
+    }
+
+    /**
+     * Returns loaded files by meta message id and all folders by id.
+     */
+    private collectEntries(): { files: Map<string, RemoteFile>, folders: Map<string, Folder> } {
+        const files: Map<string, RemoteFile> = new Map();
+        const folders: Map<string, Folder> = new Map();
+
+        const walk = (folder: Folder) => {
+            folders.set(folder.getId(), folder);
+            for (const file of folder.getFiles()) {
+                if (file instanceof RemoteFile && file.isPosted()) {
+                    files.set(file.getMessageMetaIdInMetaChannel(), file);
+                }
+            }
+            folder.getFolders().forEach(walk);
+        };
+        walk(this.app.getFileSystem().getRoot());
+
+        return { files, folders };
+    }
+
+    private getChunksSize(chunks: IChunkInfo[] | undefined): number {
+        return (chunks ?? []).reduce((size, chunk) => size + (chunk.length ?? 0), 0);
+    }
+
+    private getLostAndFound(): Folder {
+        const root = this.app.getFileSystem().getRoot();
+        return root.getFolders().find(folder => folder.getName() == MetadataFsck.LOST_AND_FOUND) ?? root.createFolder(MetadataFsck.LOST_AND_FOUND);
+    }
+
+    private getFreeName(folder: Folder, name: string, messageId: string): string {
+        return folder.isSameNameExists(name) ? messageId + "-" + name : name;
+    }
+
+    /**
+     * Moves files of the problems into lost+found and rewrites their records. Records which are not valid files are rebuilt from what is left in them.
+     */
+    private async repair(problems: IFsckProblem[], files: Map<string, RemoteFile>): Promise<number> {
+        const manager = this.app.getDiscordFileManager();
+        const records = this.app.getMetadataJournal().getRecords();
+        const lostAndFound = this.getLostAndFound();
+        const repaired: Set<string> = new Set();
+
+        for (const problem of problems) {
+            if (repaired.has(problem.messageId)) {
+                continue;
+            }
+
+            let file = files.get(problem.messageId);
+            if (file && file.getFolder() == lostAndFound) {
+                continue; // already quarantined, nothing else can be done here.
+            }
+
+            try {
+                if (file) {
+                    file.getFolder().removeFileFromThisFolder(file);
+                    file.setFileName(this.getFreeName(lostAndFound, file.getFileName(), problem.messageId));
+                    lostAndFound.addFile(file);
+                } else {
+                    const obj = records.get(problem.messageId) as IRemoteFile;
+                    const chunks = Array.isArray(obj.attachmentInfos) ? obj.attachmentInfos : [];
+                    file = RemoteFile.fromObject({
+                        ...obj,
+                        filename: this.getFreeName(lostAndFound, obj.filename ?? "record-" + problem.messageId, problem.messageId),
+                        totalSize: typeof obj.totalSize == "number" ? obj.totalSize : this.getChunksSize(chunks),
+                        uploadDate: obj.uploadDate ?? new Date(),
+                        filesPostedInChannelId: obj.filesPostedInChannelId ?? await manager.getChunkStore().getStoreId(),
+                        attachmentInfos: chunks,
+                    }, lostAndFound);
+                    file.setMessageMetaIdInMetaChannel(problem.messageId);
+                }
+
+                // downloads of files with wrong size would be cut or never finish.
+                file.setTotalSize(this.getChunksSize(file.getChunks()));
+                file.setMetaVersion(Math.max(file.getMetaVersion(), 1));
+                await manager.updateMetaFile(file, false);
+                repaired.add(problem.messageId);
+            } catch (err) {
+                console.log(color.red("Failed to move " + problem.path + " to /" + MetadataFsck.LOST_AND_FOUND + ": " + err));
+            }
+        }
+
+        return repaired.size;
+    }
+
+}
@@ -0,0 +1,48 @@
+import DiscordFileStorageApp from "../DiscordFileStorageApp.js";
+import Trash from "../trash/Trash.js";
+
+/**
+ * Deletes entries which are in the trash longer than TRASH_MAX_AGE for good.
+ */
+export default class TrashPurge {
+    public static readonly INTERVAL = 60 * 60 * 1000;
+
+    private app: DiscordFileStorageApp;
+    private trash: Trash;
+    private running: boolean = false;
+
+    constructor(app: DiscordFileStorageApp) {
+        this.app = app;
+        this.trash = new Trash(app);
+    }
+
+    /**
+     * @returns number of deleted entries.
+     */
+    public async run(now: Date = new Date()): Promise<number> {
+        if (this.running) {
+            return 0;
+        }
+
+        this.running = true;
+        try {
+            let deleted = 0;
+            for (const entry of this.trash.getExpired(now)) {
+                try {
+                    await this.trash.purge(entry);
+                    deleted++;
+                } catch (err) {
+                    this.app.getLogger().error("Failed to delete " + entry.getEntryName() + " from the trash", err);
+                }
+            }
+
+            if (deleted > 0) {
+                this.app.getLogger().info("Trash purge deleted " + deleted + " entries.");
+            }
+            return deleted;
+        } finally {
+            this.running = false;
+        }
+    }
+
+}
@@ -0,0 +1,61 @@
+import DiscordFileStorageApp from "../DiscordFileStorageApp.js";
+import RemoteFile from "../file/RemoteFile.js";
+import Folder from "../file/filesystem/Folder.js";
+
+/**
+ * Deletes old file versions which exceed VERSIONS_KEEP or are older than VERSIONS_MAX_AGE. New versions are limited on overwrite already,
+ * this catches versions which expire later and versions kept before the limits were lowered.
+ */
+export default class VersionRetention {
+    public static readonly INTERVAL = 60 * 60 * 1000;
+
+    private app: DiscordFileStorageApp;
+    private running: boolean = false;
+
+    constructor(app: DiscordFileStorageApp) {
+        this.app = app;
+    }
+
+    /**
+     * @returns number of deleted versions.
+     */
+    public async run(now: Date = new Date()): Promise<number> {
+        if (this.running) {
+            return 0;
+        }
+
+        this.running = true;
+        try {
+            let deleted = 0;
+            for (const file of this.getFilesWithVersions()) {
+                try {
+                    deleted += await this.app.getDiscordFileManager().pruneVersions(file, now);
+                } catch (err) {
+                    this.app.getLogger().error("Failed to delete old versions of " + file.getFileName(), err);
+                }
+            }
+
+            if (deleted > 0) {
+                this.app.getLogger().info("Version retention deleted " + deleted + " old versions.");
+            }
+            return deleted;
+        } finally {
+            this.running = false;
+        }
+    }
+
+    private getFilesWithVersions(): RemoteFile[] {
+        const files: RemoteFile[] = [];
+        const walk = (folder: Folder) => {
+            for (const file of folder.getFiles()) {
+                if (file instanceof RemoteFile && file.getVersions().length > 0) {
+                    files.push(file);
+                }
+            }
+            folder.getFolders().forEach(walk);
+        };
+        walk(this.app.getFileSystem().getRoot());
+        return files;
+    }
+
+}
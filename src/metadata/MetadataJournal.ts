@@ -0,0 +1,222 @@
+import fs from "fs";
+import path from "path";
+import { compareSnowflakes } from "../helper/Snowflake.js";
+
+interface IJournalEntry {
+    op: "header" | "put" | "delete" | "cursor";
+    id?: string;
+    data?: object;
+    editedAt?: number; // time of the message edit the record comes from.
+}
+
+/**
+ * Local append-only journal (json lines) of the records posted to the metadata channel, keyed by meta message id.
+ * Allows to boot without downloading every meta attachment again: only new messages and messages edited since are fetched.
+ * Every change is appended as a single line, the file is rewritten (compacted) after each sync with discord.
+ *
+ * Only one process writes the journal, it holds a lock file next to it. Other processes (cli while server is running) 
+ * get the journal read-only: their changes are kept in memory, the writer picks them up from the metadata channel on next sync.
+ */
+export default class MetadataJournal {
+    private path: string;
+    private lockPath: string;
+    private channelId: string = "";
+    private records: Map<string, object> = new Map();
+    private editedAt: Map<string, number> = new Map();
+    private lastMessageId: string | undefined;
+    private readOnly: boolean = false;
+    private locked: boolean = false;
+    private releaseOnExit = () => this.close();
+
+    constructor(journalPath: string) {
+        this.path = path.resolve(journalPath);
+        this.lockPath = this.path + ".lock";
+    }
+
+    private static isProcessAlive(pid: number): boolean {
+        try {
+            // signal 0 only checks that the process exists.
+            process.kill(pid, 0);
+            return true;
+        } catch (err) {
+            return (err as NodeJS.ErrnoException).code == "EPERM";
+        }
+    }
+
+    /**
+     * @returns false if journal is locked by other running process.
+     */
+    private lock(): boolean {
+        if (this.locked) {
+            return true;
+        }
+
+        fs.mkdirSync(path.dirname(this.path), { recursive: true });
+        try {
+            fs.writeFileSync(this.lockPath, String(process.pid), { flag: "wx" });
+        } catch (err) {
+            if ((err as NodeJS.ErrnoException).code != "EEXIST") {
+                throw err;
+            }
+
+            const pid = parseInt(fs.readFileSync(this.lockPath, "utf-8"), 10);
+            if (pid != process.pid && MetadataJournal.isProcessAlive(pid)) {
+                return false;
+            }
+            // lock of a crashed process, or of other journal of this process (tests).
+            fs.writeFileSync(this.lockPath, String(process.pid));
+        }
+
+        this.locked = true;
+        process.once("exit", this.releaseOnExit);
+        return true;
+    }
+
+    /**
+     * Releases the lock, so other processes can write the journal.
+     */
+    public close(): void {
+        if (!this.locked) {
+            return;
+        }
+        this.locked = false;
+        process.removeListener("exit", this.releaseOnExit);
+        fs.rmSync(this.lockPath, { force: true });
+    }
+
+    public isReadOnly(): boolean {
+        return this.readOnly;
+    }
+
+    /**
+     * Reads journal from disk. If journal belongs to other metadata channel (or guild), it is discarded.
+     * @param channelId id of the metadata channel records belong to.
+     */
+    public load(channelId: string): void {
+        this.channelId = channelId;
+        this.records.clear();
+        this.editedAt.clear();
+        this.lastMessageId = undefined;
+
+        this.readOnly = !this.lock();
+        if (this.readOnly) {
+            console.log("Metadata journal " + this.path + " is used by other process, changes are kept in memory only.");
+        }
+
+        if (!fs.existsSync(this.path)) {
+            return;
+        }
+
+        const lines = fs.readFileSync(this.path, "utf-8").split("\n");
+        for (const line of lines) {
+            if (line.trim() == "") {
+                continue;
+            }
+
+            let entry: IJournalEntry;
+            try {
+                entry = JSON.parse(line);
+            } catch (e) {
+                // last line may be cut if process was killed while writing, everything before it is still valid.
+                console.log("Skipping broken metadata journal line: " + line.substring(0, 100));
+                continue;
+            }
+
+            if (entry.op == "header" && entry.id != channelId) {
+                console.log("Metadata journal belongs to other channel (" + entry.id + "), discarding it.");
+                this.records.clear();
+                this.editedAt.clear();
+                this.lastMessageId = undefined;
+                this.compact();
+                return;
+            }
+
+            this.applyEntry(entry);
+        }
+    }
+
+    private applyEntry(entry: IJournalEntry) {
+        switch (entry.op) {
+            case "put":
+                this.records.set(entry.id!, entry.data!);
+                if (entry.editedAt !== undefined) {
+                    this.editedAt.set(entry.id!, entry.editedAt);
+                } else {
+                    this.editedAt.delete(entry.id!);
+                }
+                break;
+            case "delete":
+                this.records.delete(entry.id!);
+                this.editedAt.delete(entry.id!);
+                break;
+            case "cursor":
+                this.lastMessageId = entry.id;
+                break;
+        }
+    }
+
+    private append(entry: IJournalEntry) {
+        this.applyEntry(entry);
+        if (this.readOnly) {
+            return;
+        }
+        fs.mkdirSync(path.dirname(this.path), { recursive: true });
+        fs.appendFileSync(this.path, JSON.stringify(entry) + "\n");
+    }
+
+    public getRecords(): Map<string, object> {
+        return this.records;
+    }
+
+    public getLastMessageId(): string | undefined {
+        return this.lastMessageId;
+    }
+
+    /**
+     * @returns time of the message edit the record comes from, undefined if record was cached without it.
+     */
+    public getEditedAt(messageId: string): number | undefined {
+        return this.editedAt.get(messageId);
+    }
+
+    /**
+     * @param editedAt time of the message edit (or creation) the record comes from, edits after it are fetched on sync.
+     */
+    public put(messageId: string, record: object, editedAt?: number | null): void {
+        this.append({ op: "put", id: messageId, data: record, editedAt: editedAt ?? undefined });
+    }
+
+    public delete(messageId: string): void {
+        this.append({ op: "delete", id: messageId });
+    }
+
+    /**
+     * Moves the cursor forward. Cursor never goes back, so older ids are ignored.
+     */
+    public setLastMessageId(messageId: string): void {
+        if (this.lastMessageId && compareSnowflakes(messageId, this.lastMessageId) <= 0) {
+            return;
+        }
+        this.append({ op: "cursor", id: messageId });
+    }
+
+    /**
+     * Rewrites the journal with only actual records. Written into temporary file first, so crash during compaction does not lose the journal.
+     */
+    public compact(): void {
+        if (this.readOnly) {
+            return;
+        }
+
+        const entries: IJournalEntry[] = [{ op: "header", id: this.channelId }];
+        this.records.forEach((data, id) => entries.push({ op: "put", id, data, editedAt: this.editedAt.get(id) }));
+        if (this.lastMessageId) {
+            entries.push({ op: "cursor", id: this.lastMessageId });
+        }
+
+        fs.mkdirSync(path.dirname(this.path), { recursive: true });
+        fs.writeFileSync(this.path + ".tmp", entries.map(e => JSON.stringify(e)).join("\n") + "\n");
+        fs.renameSync(this.path + ".tmp", this.path);
+    }
+
+}
@@ -0,0 +1,121 @@
+import color from "colors/safe.js";
+import RemoteFile, { IRemoteFile } from "../file/RemoteFile.js";
+import Folder, { IRemoteFolder, VirtualFS } from "../file/filesystem/Folder.js";
+import AccessControl from "../access/AccessControl.js";
+
+export interface ILoadResult {
+    totalFiles: number;
+    failedFiles: number;
+    // files with path based records (metaVersion 0), they have to be rewritten with folder id.
+    legacyFiles: RemoteFile[];
+}
+
+/**
+ * Builds VirtualFS from metadata records (meta message id -> file or folder record).
+ */
+export default class MetadataLoader {
+    private filesystem: VirtualFS;
+
+    constructor(filesystem: VirtualFS) {
+        this.filesystem = filesystem;
+    }
+
+    public load(records: Map<string, object>): ILoadResult {
+        const result: ILoadResult = { totalFiles: 0, failedFiles: 0, legacyFiles: [] };
+
+        // folders first, so files can be put into them by id.
+        const folders = this.loadFolders(records);
+
+        for (const [messageId, file] of records) {
+            if (Folder.isValidRemoteFolder(file) || AccessControl.isAccessRecord(file)) {
+                continue;
+            }
+
+            console.log(file);
+            result.totalFiles++;
+            if (!RemoteFile.isValidRemoteFile(file)) {
+                console.log("Failed to extract valid message data");
+                console.log(file);
+                result.failedFiles++;
+                continue;
+            }
+
+            const obj = file as IRemoteFile;
+            const isLegacy = RemoteFile.isLegacyRemoteFile(obj);
+
+            let folder = isLegacy ? this.filesystem.getRoot().prepareFileHierarchy(obj.folder!) : folders.get(obj.folderId!);
+            if (!folder) {
+                console.log(color.yellow("Folder " + obj.folderId + " of file " + obj.filename + " not found, putting file into root folder"));
+                folder = this.filesystem.getRoot();
+            }
+
+            try {
+                const remoteFile = RemoteFile.fromObject(obj, folder);
+                remoteFile.setMessageMetaIdInMetaChannel(messageId);
+                if (isLegacy) {
+                    result.legacyFiles.push(remoteFile);
+                }
+
+                console.log("Loaded file " + remoteFile.getFileName() + " at " + remoteFile.getAbsolutePath());
+            } catch (e) {
+                console.log("Failed to load file " + obj.filename + ": " + e);
+                result.failedFiles++;
+            }
+        }
+
+        return result;
+    }
+
+    /**
+     * Builds folder hierarchy from folder records. Folders with missing parents are put into root folder.
+     * @returns map of folder id to folder, including root.
+     */
+    private loadFolders(records: Map<string, object>): Map<string, Folder> {
+        const root = this.filesystem.getRoot();
+        const folderRecords: Map<string, { messageId: string, record: IRemoteFolder }> = new Map();
+        const folders: Map<string, Folder> = new Map([[root.getId(), root]]);
+
+        for (const [messageId, record] of records) {
+            if (Folder.isValidRemoteFolder(record)) {
+                folderRecords.set((record as IRemoteFolder).id, { messageId, record: record as IRemoteFolder });
+            }
+        }
+
+        const resolve = (id: string, chain: Set<string>): Folder => {
+            const loaded = folders.get(id);
+            if (loaded) {
+                return loaded;
+            }
+
+            const entry = folderRecords.get(id);
+            if (!entry || chain.has(id)) {
+                console.log(color.yellow("Folder " + id + " not found or has cyclic parents, using root folder instead"));
+                return root;
+            }
+            chain.add(id);
+
+            const parent = resolve(entry.record.parentId, chain);
+            let folder = parent.getFolders().find(f => f.getName() == entry.record.name);
+            if (!folder) {
+                folder = new Folder(entry.record.name, parent, entry.record.id);
+                folder.setMessageMetaIdInMetaChannel(entry.messageId);
+                if (entry.record.trashed) {
+                    folder.setTrashInfo({ ...entry.record.trashed, deletedAt: new Date(entry.record.trashed.deletedAt) });
+                }
+            } else {
+                console.log(color.yellow("Folder " + parent.getAbsolutePath() + entry.record.name + " has more than one record, merging them"));
+            }
+
+            folders.set(id, folder);
+            return folder;
+        };
+
+        for (const id of folderRecords.keys()) {
+            resolve(id, new Set());
+        }
+
+        console.log("Loaded " + folderRecords.size + " folders");
+        return folders;
+    }
+
+}
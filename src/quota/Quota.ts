@@ -0,0 +1,71 @@
+import DiscordFileStorageApp from "../DiscordFileStorageApp.js";
+import RemoteFile from "../file/RemoteFile.js";
+
+export interface IQuotaReport {
+    used: number; // bytes counted to the limit which leaves the least space.
+    available: number;
+}
+
+/**
+ * Storage limits: QUOTA for all stored data, USER_QUOTA (or quota of the user in the users file) for data owned by a user.
+ * Every file counts with its kept versions, files in the trash count too. Copies count in full, even though they share chunks with the source.
+ * Usage is computed from VirtualFS on every call, so it is always in line with the files.
+ */
+export default class Quota {
+    private app: DiscordFileStorageApp;
+
+    constructor(app: DiscordFileStorageApp) {
+        this.app = app;
+    }
+
+    private getFiles(): RemoteFile[] {
+        return this.app.getFileSystem().getRoot().getallEntriesRecursiveThis()
+            .filter(entry => entry.isFile && entry.entry instanceof RemoteFile)
+            .map(entry => entry.entry as RemoteFile);
+    }
+
+    /**
+     * @param username owner to count the usage of, all files are counted without it.
+     */
+    public getUsedBytes(username?: string): number {
+        return this.getFiles()
+            .filter(file => username === undefined || file.getOwner() == username)
+            .reduce((size, file) => size + file.getStoredSize(), 0);
+    }
+
+    /**
+     * @returns limit of the user in bytes, 0 if user has no limit.
+     */
+    public getUserLimit(username: string): number {
+        return this.app.getUserStore().getUser(username)?.quota ?? this.app.getUserQuota();
+    }
+
+    /**
+     * @returns usage against the limit which leaves the least space, undefined if no limit applies to the user.
+     */
+    public getReport(username?: string): IQuotaReport | undefined {
+        const reports: IQuotaReport[] = [];
+
+        const limit = this.app.getQuota();
+        if (limit > 0) {
+            const used = this.getUsedBytes();
+            reports.push({ used, available: Math.max(0, limit - used) });
+        }
+
+        const userLimit = username !== undefined ? this.getUserLimit(username) : 0;
+        if (userLimit > 0) {
+            const used = this.getUsedBytes(username);
+            reports.push({ used, available: Math.max(0, userLimit - used) });
+        }
+
+        return reports.reduce<IQuotaReport | undefined>((tightest, report) => !tightest || report.available < tightest.available ? report : tightest, undefined);
+    }
+
+    /**
+     * @returns bytes the user can still store, Infinity if no limit applies.
+     */
+    public getAvailableBytes(username?: string): number {
+        return this.getReport(username)?.available ?? Infinity;
+    }
+
+}
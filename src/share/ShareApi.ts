@@ -0,0 +1,127 @@
+import { v2 } from "webdav-server";
+import DiscordFileStorageApp from "../DiscordFileStorageApp.js";
+import ShareLinks from "./ShareLinks.js";
+import { IShare, IShareOptions } from "./ShareStore.js";
+
+/**
+ * Management of share links for webdav users, under /.shares:
+ * POST /.shares with json { path, password?, expiresAt?, maxDownloads? } creates a share, GET /.shares lists shares of the user,
+ * DELETE /.shares/<id> revokes a share. Users can share paths they can read and see and revoke their own shares only.
+ */
+export default class ShareApi {
+    private app: DiscordFileStorageApp;
+    private links: ShareLinks;
+
+    constructor(app: DiscordFileStorageApp) {
+        this.app = app;
+        this.links = new ShareLinks(app);
+    }
+
+    public static isApiPath(path: string): boolean {
+        return path == ShareLinks.API_PATH || path.startsWith(ShareLinks.API_PATH + "/");
+    }
+
+    /**
+     * @returns name of the authenticated user, undefined if server runs without authentication.
+     */
+    private getUsername(ctx: v2.HTTPRequestContext): string | undefined {
+        return ctx.user && !ctx.user.isDefaultUser ? ctx.user.username : undefined;
+    }
+
+    private send(ctx: v2.HTTPRequestContext, code: number, body?: object): void {
+        ctx.setCode(code);
+        if (body) {
+            ctx.response.setHeader("Content-Type", "application/json; charset=utf-8");
+            ctx.response.write(JSON.stringify(body));
+        }
+    }
+
+    private toJson(ctx: v2.HTTPRequestContext, share: IShare): object {
+        const token = this.app.getShareStore().getToken(share);
+        const protocol = ctx.server.options.https ? "https" : "http";
+        return {
+            id: share.id,
+            token,
+            url: protocol + "://" + ctx.headers.host + ShareLinks.LINK_PATH + token,
+            path: this.links.resolveTarget(share)?.getAbsolutePath() ?? null, // null if shared entry is gone.
+            createdAt: share.createdAt,
+            expiresAt: share.expiresAt ?? null,
+            maxDownloads: share.maxDownloads ?? null,
+            downloads: share.downloads,
+            password: !!share.passwordHash,
+        };
+    }
+
+    public handle(ctx: v2.HTTPRequestContext, body: Buffer, callback: () => void): void {
+        this.process(ctx, body).catch((err) => {
+            this.app.getLogger().error(".shares", "Share request failed", err);
+            this.send(ctx, 500, { error: "Internal server error" });
+        }).then(callback);
+    }
+
+    private async process(ctx: v2.HTTPRequestContext, body: Buffer): Promise<void> {
+        const path = ctx.requested.path.toString().replace(/\/$/, "");
+        const method = ctx.request.method!.toUpperCase();
+        const username = this.getUsername(ctx);
+        const store = this.app.getShareStore();
+
+        if (path == ShareLinks.API_PATH && method == "GET") {
+            return this.send(ctx, 200, store.getShares(username).map(share => this.toJson(ctx, share)));
+        }
+
+        if (path == ShareLinks.API_PATH && method == "POST") {
+            return this.create(ctx, body, username);
+        }
+
+        if (path != ShareLinks.API_PATH && method == "DELETE") {
+            const share = store.getShare(path.slice(ShareLinks.API_PATH.length + 1));
+            if (!share || (username !== undefined && share.createdBy != username)) {
+                return this.send(ctx, 404, { error: "Share not found" });
+            }
+            store.revokeShare(share.id);
+            this.app.getLogger().info(".shares", "Share " + share.id + " of " + share.path + " revoked");
+            return this.send(ctx, 204);
+        }
+
+        ctx.response.setHeader("Allow", path == ShareLinks.API_PATH ? "GET, POST" : "DELETE");
+        this.send(ctx, 405, { error: "Method not allowed" });
+    }
+
+    private async create(ctx: v2.HTTPRequestContext, body: Buffer, username: string | undefined): Promise<void> {
+        let request: { path?: unknown, password?: unknown, expiresAt?: unknown, maxDownloads?: unknown };
+        try {
+            request = JSON.parse(body.toString("utf-8"));
+        } catch (err) {
+            return this.send(ctx, 400, { error: "Body should be json" });
+        }
+
+        if (typeof request.path != "string" || !request.path.startsWith("/")) {
+            return this.send(ctx, 400, { error: "path should be an absolute path" });
+        }
+        if (request.password !== undefined && typeof request.password != "string") {
+            return this.send(ctx, 400, { error: "password should be a string" });
+        }
+        if (request.expiresAt !== undefined && (typeof request.expiresAt != "string" || !(new Date(request.expiresAt) > new Date()))) {
+            return this.send(ctx, 400, { error: "expiresAt should be a date in the future" });
+        }
+        if (request.maxDownloads !== undefined && (typeof request.maxDownloads != "number" || !Number.isInteger(request.maxDownloads) || request.maxDownloads < 1)) {
+            return this.send(ctx, 400, { error: "maxDownloads should be a positive integer" });
+        }
+
+        const entry = this.links.getShareableEntry(request.path);
+        const readable = entry && await ctx.server.rootFileSystem().checkPrivilegeAsync(ctx, new v2.Path(request.path), "canRead");
+        if (!entry || !readable) {
+            return this.send(ctx, 404, { error: "Nothing to share at " + request.path });
+        }
+
+        const options: IShareOptions = {
+            password: request.password,
+            expiresAt: request.expiresAt !== undefined ? new Date(request.expiresAt as string) : undefined,
+            maxDownloads: request.maxDownloads,
+        };
+        const share = await this.links.createShare(entry, username, options);
+        this.app.getLogger().info(".shares", "Share " + share.id + " of " + share.path + " created" + (username ? " by " + username : ""));
+        this.send(ctx, 201, this.toJson(ctx, share));
+    }
+
+}
@@ -0,0 +1,222 @@
+import { IncomingMessage, ServerResponse } from "http";
+import { Readable } from "stream";
+import DiscordFileStorageApp from "../DiscordFileStorageApp.js";
+import RemoteFile from "../file/RemoteFile.js";
+import Folder from "../file/filesystem/Folder.js";
+import Trash from "../trash/Trash.js";
+import { escapeHtml } from "../helper/Html.js";
+import { formatByteSize } from "../helper/ByteSize.js";
+import { IShare, IShareOptions } from "./ShareStore.js";
+
+/**
+ * Public share links: /s/<token> downloads a shared file, or lists a shared folder and downloads files below it.
+ * Links work without webdav credentials, shares with password ask for it with basic authentication (username is ignored).
+ * Links show only entries the creator of the share can read, checked on every request, so later access rules apply too.
+ */
+export default class ShareLinks {
+    public static readonly API_PATH = "/.shares";
+    public static readonly LINK_PATH = "/s/";
+    private static readonly REALM = "DICloud Share";
+
+    private app: DiscordFileStorageApp;
+
+    constructor(app: DiscordFileStorageApp) {
+        this.app = app;
+    }
+
+    public static isLinkPath(path: string): boolean {
+        return path.startsWith(ShareLinks.LINK_PATH);
+    }
+
+    /**
+     * @returns uploaded file or folder at the path, undefined if it can not be shared.
+     */
+    public getShareableEntry(path: string): RemoteFile | Folder | undefined {
+        if (Trash.isTrashPath(path)) {
+            return undefined;
+        }
+
+        const entry = this.app.getFileSystem().getRoot().getEntryByPath(path);
+        if (entry.entry instanceof Folder || (entry.entry instanceof RemoteFile && entry.entry.getMessageMetaIdInMetaChannel())) {
+            return entry.entry;
+        }
+        return undefined;
+    }
+
+    public async createShare(entry: RemoteFile | Folder, createdBy: string | undefined, options: IShareOptions): Promise<IShare> {
+        if (entry instanceof RemoteFile) {
+            return this.app.getShareStore().createShare({ type: "file", id: entry.getMessageMetaIdInMetaChannel() }, entry.getAbsolutePath(), createdBy, options);
+        }
+
+        // id of a folder which was never posted is lost on restart.
+        await this.app.getDiscordFileManager().ensureFolderPosted(entry);
+        return this.app.getShareStore().createShare({ type: "folder", id: entry.getId() }, entry.getAbsolutePath(), createdBy, options);
+    }
+
+    /**
+     * @returns shared entry, undefined if it was deleted or moved into the trash.
+     */
+    public resolveTarget(share: IShare): RemoteFile | Folder | undefined {
+        const root = this.app.getFileSystem().getRoot();
+        const target = share.target.type == "folder" && share.target.id == Folder.ROOT_ID ? { isFolder: true, entry: root } : root.getallEntriesRecursiveThis().find(e => share.target.type == "folder"
+            ? e.entry instanceof Folder && e.entry.getId() == share.target.id
+            : e.entry instanceof RemoteFile && e.entry.getMessageMetaIdInMetaChannel() == share.target.id);
+
+        const entry = target?.entry as RemoteFile | Folder | undefined;
+        return entry && !Trash.isTrashPath(entry.getAbsolutePath()) ? entry : undefined;
+    }
+
+    private canRead(share: IShare, entry: RemoteFile | Folder): boolean {
+        // shares created without authentication have no creator, access rules do not apply then.
+        return share.createdBy === undefined || this.app.getAccessControl().getAccess(share.createdBy, entry.getAbsolutePath()) != "none";
+    }
+
+    private getPassword(req: IncomingMessage): string | undefined {
+        const header = req.headers.authorization;
+        if (!header || !/^Basic\s/i.test(header)) {
+            return undefined;
+        }
+
+        const value = Buffer.from(header.replace(/^Basic\s+/i, "").trim(), "base64").toString("utf-8");
+        const separator = value.indexOf(":");
+        return separator == -1 ? undefined : value.slice(separator + 1);
+    }
+
+    private end(res: ServerResponse, code: number, message: string): void {
+        res.statusCode = code;
+        res.setHeader("Content-Type", "text/plain; charset=utf-8");
+        res.end(message);
+    }
+
+    /**
+     * Walks down from the shared folder by names, so paths can not leave it.
+     */
+    private findInFolder(share: IShare, folder: Folder, names: string[]): RemoteFile | Folder | undefined {
+        let current: RemoteFile | Folder | undefined = folder;
+        for (const name of names) {
+            if (!(current instanceof Folder)) {
+                return undefined;
+            }
+            const parent: Folder = current;
+            current = parent.getFolders().find(f => f.getName() == name) ?? parent.getFiles().find(f => f instanceof RemoteFile && f.getFileName() == name) as RemoteFile;
+            if (!current || (parent.getAbsolutePath() == "/" && name == Trash.FOLDER_NAME) || !this.canRead(share, current)) {
+                return undefined;
+            }
+        }
+        return current;
+    }
+
+    public async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+        const url = new URL(req.url!, "http://localhost");
+        const [token, ...names] = url.pathname.slice(ShareLinks.LINK_PATH.length).split("/");
+        const store = this.app.getShareStore();
+        const share = store.getShareByToken(token);
+        if (!share) {
+            return this.end(res, 404, "Share not found");
+        }
+
+        if (req.method != "GET" && req.method != "HEAD") {
+            res.setHeader("Allow", "GET, HEAD");
+            return this.end(res, 405, "Method not allowed");
+        }
+
+        if (store.isExhausted(share)) {
+            return this.end(res, 410, "Share is expired");
+        }
+
+        if (!await store.verifyPassword(share, this.getPassword(req))) {
+            res.setHeader("WWW-Authenticate", "Basic realm=\"" + ShareLinks.REALM + "\", charset=\"UTF-8\"");
+            return this.end(res, 401, "Password required");
+        }
+
+        let decoded: string[];
+        try {
+            decoded = names.filter(name => name != "").map(name => decodeURIComponent(name));
+        } catch (err) {
+            return this.end(res, 400, "Invalid path");
+        }
+
+        const target = this.resolveTarget(share);
+        const readable = target && this.canRead(share, target) ? target : undefined;
+        const entry = readable instanceof Folder ? this.findInFolder(share, readable, decoded) : decoded.length == 0 ? readable : undefined;
+        if (!entry) {
+            return this.end(res, 404, "Not found");
+        }
+
+        if (entry instanceof Folder) {
+            // links in the listing are relative to the folder.
+            if (!url.pathname.endsWith("/")) {
+                res.statusCode = 301;
+                res.setHeader("Location", url.pathname + "/");
+                return void res.end();
+            }
+            return this.sendListing(req, res, share, [(target as Folder).getName(), ...decoded], entry);
+        }
+
+        return this.sendFile(req, res, share, entry);
+    }
+
+    /**
+     * @param names name of the shared folder and names on the way to the listed folder.
+     */
+    private sendListing(req: IncomingMessage, res: ServerResponse, share: IShare, names: string[], folder: Folder): void {
+        const title = escapeHtml(names.filter(name => name != "").join("/") || "/");
+        const rows: string[] = names.length > 1 ? ["<li><a href=\"../\">../</a></li>"] : [];
+
+        const folders = folder.getFolders().filter(f => !(folder.getAbsolutePath() == "/" && f.getName() == Trash.FOLDER_NAME) && this.canRead(share, f));
+        folders.sort((a, b) => a.getName().localeCompare(b.getName())).forEach(f => {
+            rows.push("<li><a href=\"" + escapeHtml(encodeURIComponent(f.getName())) + "/\">" + escapeHtml(f.getName()) + "/</a></li>");
+        });
+
+        const files = folder.getFiles().filter(f => f instanceof RemoteFile && this.canRead(share, f));
+        files.sort((a, b) => a.getFileName().localeCompare(b.getFileName())).forEach(f => {
+            rows.push("<li><a href=\"" + escapeHtml(encodeURIComponent(f.getFileName())) + "\">" + escapeHtml(f.getFileName()) + "</a> " + formatByteSize(f.getSize()) + "</li>");
+        });
+
+        const html = "<!DOCTYPE html><html><head><meta charset=\"utf-8\"><title>" + title + "</title></head><body><h1>" + title + "</h1><ul>" + rows.join("") + "</ul></body></html>";
+        res.statusCode = 200;
+        res.setHeader("Content-Type", "text/html; charset=utf-8");
+        res.setHeader("Content-Length", Buffer.byteLength(html));
+        res.end(req.method == "HEAD" ? undefined : html);
+    }
+
+    private async sendFile(req: IncomingMessage, res: ServerResponse, share: IShare, file: RemoteFile): Promise<void> {
+        // exhaustion is checked again, other downloads could take the last ones while password was checked.
+        const store = this.app.getShareStore();
+        if (req.method != "HEAD" && !store.takeDownload(share)) {
+            return this.end(res, 410, "Share is expired");
+        }
+
+        res.statusCode = 200;
+        res.setHeader("Content-Type", file.getMimeType());
+        res.setHeader("Content-Length", file.getSize());
+        // shared files are downloaded, not rendered on the origin of the webdav server.
+        res.setHeader("Content-Disposition", "attachment; filename*=UTF-8''" + encodeURIComponent(file.getFileName()));
+        res.setHeader("X-Content-Type-Options", "nosniff");
+        if (req.method == "HEAD") {
+            return void res.end();
+        }
+
+        this.app.getLogger().info(".share", "Downloading " + file.getAbsolutePath() + " by share " + share.id);
+        let stream: Readable;
+        try {
+            stream = await this.app.getDiscordFileManager().getDownloadableReadStream(file);
+        } catch (err) {
+            store.releaseDownload(share);
+            throw err;
+        }
+
+        // interrupted downloads do not count.
+        res.on("close", () => {
+            if (!res.writableFinished) {
+                store.releaseDownload(share);
+            }
+        });
+        stream.on("error", (err) => {
+            this.app.getLogger().error(".share", "Download of " + file.getAbsolutePath() + " failed", err);
+            res.destroy(err);
+        });
+        stream.pipe(res);
+    }
+
+}
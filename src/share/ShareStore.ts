@@ -0,0 +1,187 @@
+import fs from "fs";
+import path from "path";
+import crypto from "crypto";
+import UserStore from "../auth/UserStore.js";
+
+/**
+ * Shared entry. Files are referenced by the id of their record and folders by their id, so shares follow them when they are moved or overwritten.
+ */
+export interface IShareTarget {
+    type: "file" | "folder";
+    id: string;
+}
+
+export interface IShare {
+    id: string;
+    target: IShareTarget;
+    path: string; // path of the entry when it was shared, for listing only.
+    createdBy?: string; // user who created the share, undefined without authentication.
+    createdAt: string;
+    expiresAt?: string;
+    passwordHash?: string; // see UserStore.hashPassword.
+    maxDownloads?: number;
+    downloads: number;
+}
+
+export interface IShareOptions {
+    password?: string;
+    expiresAt?: Date;
+    maxDownloads?: number;
+}
+
+interface ISharesFile {
+    version: number;
+    secret: string; // key of token signatures, hex.
+    shares: IShare[];
+}
+
+/**
+ * Share links, kept in a json file. Token of a share is its id with HMAC signature, so tokens can not be guessed from ids
+ * and forged tokens are rejected without looking them up. Removing the file revokes all shares.
+ */
+export default class ShareStore {
+    private filePath: string;
+    private secret: string;
+    private shares: IShare[];
+
+    constructor(filePath: string) {
+        this.filePath = path.resolve(filePath);
+        const file = this.load();
+        this.secret = file?.secret ?? crypto.randomBytes(32).toString("hex");
+        this.shares = file?.shares ?? [];
+    }
+
+    private load(): ISharesFile | undefined {
+        if (!fs.existsSync(this.filePath)) {
+            return undefined;
+        }
+
+        const file = JSON.parse(fs.readFileSync(this.filePath, "utf-8")) as ISharesFile;
+        if (!Array.isArray(file.shares) || !file.secret) {
+            throw new Error("Shares file " + this.filePath + " is broken, it has no shares list or secret");
+        }
+        return file;
+    }
+
+    private save(): void {
+        const file: ISharesFile = { version: 1, secret: this.secret, shares: this.shares };
+        fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+
+        // rename is atomic, so shares are never left half written.
+        fs.writeFileSync(this.filePath + ".tmp", JSON.stringify(file, null, 4), { mode: 0o600 });
+        fs.renameSync(this.filePath + ".tmp", this.filePath);
+    }
+
+    private sign(id: string): string {
+        return crypto.createHmac("sha256", this.secret).update(id).digest("base64url");
+    }
+
+    public getToken(share: IShare): string {
+        return share.id + "." + this.sign(share.id);
+    }
+
+    /**
+     * @returns share of the token, undefined if token is forged or share is revoked.
+     */
+    public getShareByToken(token: string): IShare | undefined {
+        const [id, signature] = token.split(".");
+        if (!id || !signature) {
+            return undefined;
+        }
+
+        const expected = Buffer.from(this.sign(id));
+        const actual = Buffer.from(signature);
+        if (actual.length != expected.length || !crypto.timingSafeEqual(actual, expected)) {
+            return undefined;
+        }
+        return this.getShare(id);
+    }
+
+    public getShare(id: string): IShare | undefined {
+        return this.shares.find(share => share.id == id);
+    }
+
+    /**
+     * @param username creator of the shares, all shares are returned without it.
+     */
+    public getShares(username?: string): IShare[] {
+        return this.shares.filter(share => username === undefined || share.createdBy == username);
+    }
+
+    public async createShare(target: IShareTarget, sharedPath: string, createdBy: string | undefined, options: IShareOptions = {}): Promise<IShare> {
+        if (options.maxDownloads !== undefined && (!Number.isInteger(options.maxDownloads) || options.maxDownloads < 1)) {
+            throw new Error("Download limit should be a positive integer");
+        }
+        if (options.expiresAt && isNaN(options.expiresAt.valueOf())) {
+            throw new Error("Invalid expiry date");
+        }
+        if (options.password !== undefined && options.password.length == 0) {
+            throw new Error("Password can not be empty");
+        }
+
+        const share: IShare = {
+            id: crypto.randomBytes(12).toString("base64url"),
+            target,
+            path: sharedPath,
+            createdBy,
+            createdAt: new Date().toISOString(),
+            expiresAt: options.expiresAt?.toISOString(),
+            passwordHash: options.password !== undefined ? await UserStore.hashPassword(options.password) : undefined,
+            maxDownloads: options.maxDownloads,
+            downloads: 0,
+        };
+        this.shares.push(share);
+        this.save();
+        return share;
+    }
+
+    /**
+     * @returns true if there was such share.
+     */
+    public revokeShare(id: string): boolean {
+        const shares = this.shares.filter(share => share.id != id);
+        const removed = shares.length != this.shares.length;
+        this.shares = shares;
+        if (removed) {
+            this.save();
+        }
+        return removed;
+    }
+
+    /**
+     * True if share is expired or its downloads are used up.
+     */
+    public isExhausted(share: IShare, now: Date = new Date()): boolean {
+        const expired = !!share.expiresAt && new Date(share.expiresAt) <= now;
+        return expired || (share.maxDownloads !== undefined && share.downloads >= share.maxDownloads);
+    }
+
+    public async verifyPassword(share: IShare, password: string | undefined): Promise<boolean> {
+        if (!share.passwordHash) {
+            return true;
+        }
+        return password !== undefined && UserStore.verifyHash(password, share.passwordHash);
+    }
+
+    /**
+     * Checks and counts a download at once, so concurrent downloads can not get past the limit.
+     * @returns false if share is exhausted.
+     */
+    public takeDownload(share: IShare): boolean {
+        if (this.isExhausted(share)) {
+            return false;
+        }
+        share.downloads++;
+        this.save();
+        return true;
+    }
+
+    /**
+     * Gives back a download taken by takeDownload which did not finish.
+     */
+    public releaseDownload(share: IShare): void {
+        share.downloads = Math.max(0, share.downloads - 1);
+        this.save();
+    }
+
+}
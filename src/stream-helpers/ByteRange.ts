@@ -0,0 +1,77 @@
+import { Transform, TransformCallback } from "stream";
+
+/**
+ * Byte range of a file, both ends are inclusive like in http Range header.
+ */
+export interface IByteRange {
+    start: number;
+    end: number;
+}
+
+/**
+ * Parses http Range header with a single range: "bytes=0-99", "bytes=100-" or "bytes=-100".
+ * Returns undefined if header is invalid or contains multiple ranges, such requests are served by webdav-server itself.
+ * Returned range may be unsatisfiable (start >= size), check it with isSatisfiableRange.
+ */
+export function parseByteRange(header: string | undefined, size: number): IByteRange | undefined {
+    if (!header) {
+        return undefined;
+    }
+
+    const match = /^\s*bytes\s*=\s*(\d*)\s*-\s*(\d*)\s*$/i.exec(header);
+    if (!match || (match[1] == "" && match[2] == "")) {
+        return undefined;
+    }
+
+    if (match[1] == "") {
+        // suffix range, last N bytes.
+        const suffix = parseInt(match[2], 10);
+        return { start: suffix == 0 ? size : Math.max(0, size - suffix), end: size - 1 };
+    }
+
+    const start = parseInt(match[1], 10);
+    const end = match[2] == "" ? size - 1 : Math.min(parseInt(match[2], 10), size - 1);
+    if (match[2] != "" && parseInt(match[2], 10) < start) {
+        return undefined;
+    }
+
+    return { start, end };
+}
+
+export function isSatisfiableRange(range: IByteRange, size: number): boolean {
+    return range.start < size && range.start <= range.end;
+}
+
+/**
+ * Skips first bytes of the stream and passes only given amount of bytes after them.
+ */
+export class SliceStream extends Transform {
+    private skip: number;
+    private left: number;
+
+    constructor(skip: number, length: number) {
+        super();
+        this.skip = skip;
+        this.left = length;
+    }
+
+    _transform(chunk: Buffer, encoding: BufferEncoding, callback: TransformCallback): void {
+        if (this.skip >= chunk.length) {
+            this.skip -= chunk.length;
+            return callback();
+        }
+
+        chunk = chunk.subarray(this.skip);
+        this.skip = 0;
+
+        if (this.left <= 0) {
+            return callback();
+        }
+
+        if (chunk.length > this.left) {
+            chunk = chunk.subarray(0, this.left);
+        }
+        this.left -= chunk.length;
+        callback(null, chunk);
+    }
+}
@@ -0,0 +1,33 @@
+import { Transform, TransformCallback } from "stream";
+import { ETagHasher } from "../helper/ETagHasher.js";
+
+/**
+ * Passes data through and checks its sha256 at the end. Emits error instead of end if data does not match the expected hash.
+ */
+export default class HashVerifyStream extends Transform {
+    private hasher = new ETagHasher();
+    private expected: string;
+    private description: string;
+
+    /**
+     * @param description what is verified, used in the error message. For example "chunk 2 of file.txt".
+     */
+    constructor(expected: string, description: string) {
+        super();
+        this.expected = expected;
+        this.description = description;
+    }
+
+    _transform(chunk: Buffer, encoding: BufferEncoding, callback: TransformCallback): void {
+        this.hasher.modifyHash(chunk);
+        callback(null, chunk);
+    }
+
+    _flush(callback: TransformCallback): void {
+        const actual = this.hasher.finalize();
+        if (actual != this.expected) {
+            return callback(new Error("Content hash mismatch in " + this.description + ": expected sha256 " + this.expected + ", got " + actual + ". Data is corrupted."));
+        }
+        callback();
+    }
+}
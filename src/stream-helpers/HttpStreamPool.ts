@@ -1,94 +1,264 @@
-import { Readable, PassThrough } from "stream";
-import client from "../helper/AxiosInstance.js";
+import { Readable, Transform } from "stream";
 import { IChunkInfo } from "../file/RemoteFile.js";
-import { AxiosResponse } from "axios";
+import IChunkStore from "../chunk-store/IChunkStore.js";
+import { IByteRange, SliceStream } from "./ByteRange.js";
+import HashVerifyStream from "./HashVerifyStream.js";
 
 /**
- * Class that combines list of urls into a single Readable stream. 
+ * Creates stream which every downloaded chunk is piped through, for example decryption.
+ */
+export type ChunkTransformFactory = (chunk: IChunkInfo, index: number) => Promise<Transform>;
+
+export interface IDownloadOptions {
+	// if set, chunks are always fetched whole (transform like AEAD decryption needs whole chunk) and sliced after it.
+	chunkTransform?: ChunkTransformFactory;
+	// byte range of the file to read. Only chunks overlapping the range are fetched.
+	range?: IByteRange;
+	// how many chunks are downloaded at the same time. Every chunk ahead of the one being sent is kept in memory, so memory is bounded by concurrency * chunk size.
+	concurrency?: number;
+}
+
+/**
+ * State of a single chunk, passed with "progress" event.
+ */
+export interface IChunkProgress {
+	index: number; // index of the chunk in the file.
+	state: "pending" | "downloading" | "done";
+	received: number;
+	length: number;
+}
+
+interface IChunkPart {
+	chunk: IChunkInfo;
+	index: number;
+	fetchRange?: IByteRange; // requested from the store, relative to chunk start.
+	slice?: { skip: number, length: number }; // applied after chunk transform, when chunk has to be fetched whole.
+}
+
+interface IPartState {
+	part: IChunkPart;
+	progress: IChunkProgress;
+	buffers: Buffer[];
+	source?: Readable;
+	ended: boolean;
+}
+
+/**
+ * Class that combines list of chunks into a single Readable stream. 
+ * Chunks are opened through the given chunk store, so for discord store every chunk is a http request.
+ * Several chunks may be downloaded at once, but data is always emitted in order.
  */
 export default class HttpStreamPool {
-	private urls: IChunkInfo[];
+	private parts: IChunkPart[];
 	private totalSize: number;
 	private gotSize = 0;
-	private currentUrlIndex = 0;
-	private userAgent = "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/112.0.0.0 Safari/537.36"
 	private downloadingFileName: string;
+	private store: IChunkStore;
+	private chunkTransform: ChunkTransformFactory | undefined;
+	private concurrency: number;
 	
-	constructor(info: IChunkInfo[], totalSize: number, filename: string) {
+	constructor(info: IChunkInfo[], totalSize: number, filename: string, store: IChunkStore, options: IDownloadOptions = {}) {
 		if (info.length == 0) {
 			throw new Error("IChunkInfo[] is empty, wtf?");
 		}
 
-		this.urls = info;
-		this.totalSize = totalSize;
 		this.downloadingFileName = filename;
+		this.store = store;
+		this.chunkTransform = options.chunkTransform;
+		this.concurrency = Math.max(1, options.concurrency ?? 1);
+		this.parts = HttpStreamPool.planParts(info, options.range, !!options.chunkTransform);
+		this.totalSize = options.range ? options.range.end - options.range.start + 1 : totalSize;
+	}
+
+	/**
+	 * Finds chunks overlapping the range and part of each chunk to read.
+	 */
+	private static planParts(chunks: IChunkInfo[], range: IByteRange | undefined, wholeChunks: boolean): IChunkPart[] {
+		if (!range) {
+			return chunks.map((chunk, index) => ({ chunk, index }));
+		}
+
+		const parts: IChunkPart[] = [];
+		let offset = 0;
+		for (let index = 0; index < chunks.length; index++) {
+			const chunk = chunks[index];
+			const chunkStart = offset;
+			const chunkEnd = offset + chunk.length - 1;
+			offset += chunk.length;
+
+			if (chunkEnd < range.start || chunkStart > range.end) {
+				continue;
+			}
+
+			const start = Math.max(range.start, chunkStart) - chunkStart;
+			const end = Math.min(range.end, chunkEnd) - chunkStart;
+			if (start == 0 && end == chunk.length - 1) {
+				parts.push({ chunk, index });
+			} else if (wholeChunks) {
+				parts.push({ chunk, index, slice: { skip: start, length: end - start + 1 } });
+			} else {
+				parts.push({ chunk, index, fetchRange: { start, end } });
+			}
+		}
+
+		return parts;
+	}
+
+	private static getPartLength(part: IChunkPart): number {
+		if (part.slice) {
+			return part.slice.length;
+		}
+		if (part.fetchRange) {
+			return part.fetchRange.end - part.fetchRange.start + 1;
+		}
+		return part.chunk.length;
+	}
+
+	private async openPart(part: IChunkPart, onError: (err: Error) => void): Promise<Readable> {
+		let chunkStream = await this.store.getChunkStream(part.chunk, part.fetchRange);
+		chunkStream.once("error", onError);
+
+		if (this.chunkTransform) {
+			const transform = await this.chunkTransform(part.chunk, part.index);
+			// transform errors mean corrupted data (like failed auth tag check), so they are passed to the client.
+			transform.once("error", onError);
+			chunkStream = chunkStream.pipe(transform);
+		}
+		// hash is of the whole plain chunk, so it can be checked only if whole chunk was fetched.
+		if (part.chunk.sha256 && !part.fetchRange) {
+			const verify = new HashVerifyStream(part.chunk.sha256, "chunk " + (part.index + 1) + " of " + this.downloadingFileName);
+			verify.once("error", onError);
+			chunkStream = chunkStream.pipe(verify);
+		}
+		if (part.slice) {
+			chunkStream = chunkStream.pipe(new SliceStream(part.slice.skip, part.slice.length));
+		}
+
+		return chunkStream;
 	}
 
 	/**
-	 * Combines list of urls into a single Readable stream, where data readen sequentially.
-	 * Warning! After returning stream, since it promise-based function, it will start downloading data from urls in the background.
-	 * Not tested much and may !crash or leak your memory! 
-	 * @returns Readable stream that emits data from all urls sequentially. 
+	 * Combines list of chunks into a single Readable stream, where data emitted sequentially.
+	 * Up to `concurrency` chunks are downloaded at once, chunks ahead of the current one are buffered in memory until their turn.
+	 * Current chunk is paused when client does not read fast enough.
+	 * Emits "progress" event with (received bytes, total bytes, IChunkProgress[]).
+	 * @returns Readable stream that emits data from all chunks sequentially. 
 	 */
 	public async getDownloadStream(): Promise<Readable> {
-		const stream = new PassThrough();
-		const self = this;
-
-		let next = async () => {
-			if (self.currentUrlIndex >= self.urls.length) {
-				stream.once("unpipe", () => {
-					console.log("Downloading finished: " + self.downloadingFileName);
-					stream.end(null);
-				});
+		if (this.parts.length == 0) {
+			return Readable.from([]);
+		}
+
+		const states: IPartState[] = this.parts.map(part => ({
+			part,
+			progress: { index: part.index, state: "pending", received: 0, length: HttpStreamPool.getPartLength(part) },
+			buffers: [],
+			ended: false,
+		}));
+
+		let current = 0; // index of the state which data is being emitted.
+		let started = 0;
+		let finished = false;
+
+		const emitProgress = () => {
+			stream.emit("progress", this.gotSize, this.totalSize, states.map(s => s.progress));
+		};
+
+		const fail = (err: Error) => {
+			if (finished) {
 				return;
 			}
+			finished = true;
+			console.error(err);
+			stream.destroy(err);
+		};
 
-			if(stream.closed || stream.destroyed) {
-				console.log("stream closed; aborting");
-				return;
+		// emits buffered data of the current chunk and moves to the next one when it is done.
+		const flush = () => {
+			while (!finished && current < states.length) {
+				const state = states[current];
+				while (state.buffers.length > 0) {
+					if (!stream.push(state.buffers.shift())) {
+						state.source?.pause();
+						return;
+					}
+				}
+
+				if (!state.ended) {
+					state.source?.resume();
+					return;
+				}
+
+				current++;
+				startNext();
+			}
+
+			if (!finished) {
+				finished = true;
+				console.log("Downloading finished: " + this.downloadingFileName);
+				stream.push(null);
 			}
+		};
+
+		const fetch = async (i: number) => {
+			const state = states[i];
+			state.progress.state = "downloading";
 
-			let url = self.urls[self.currentUrlIndex];
-			let res: AxiosResponse;
+			let source: Readable;
 			try {
-				console.log("getting: " + url.url);
-				res = await client.get(url.url, {
-					responseType: "stream",
-					headers: {
-						"User-Agent": self.userAgent,
-					},
-					timeout: 10000,
-				});
+				source = await this.openPart(state.part, fail);
 			} catch (err) {
-				console.error(err);
-				stream.emit("error", err);
-				return;
+				return fail(err as Error);
 			}
 
-			// print download progress in percentage each 10%. at 0, 10, 20, 30, ... 100%
-			res.data.on("data", (chunk: Buffer) => {
-				self.gotSize += chunk.length;
-				stream.emit("progress", self.gotSize, self.totalSize);
-			});
+			if (finished) {
+				source.destroy();
+				return;
+			}
 
-			res.data.on("end", () => {
-				self.currentUrlIndex++;
-				next();
+			state.source = source;
+			source.on("data", (chunk: Buffer) => {
+				state.buffers.push(chunk);
+				state.progress.received += chunk.length;
+				this.gotSize += chunk.length;
+				emitProgress();
+				if (i == current) {
+					flush();
+				}
 			});
 
-			res.data.on("error", (err: Error) => {
-				console.error(err);
-				// stream.emit("error", err);
+			source.on("end", () => {
+				state.ended = true;
+				state.source = undefined;
+				state.progress.state = "done";
+				emitProgress();
+				if (i == current) {
+					flush();
+				}
 			});
+		};
 
-			res.data.pipe(stream, { end: false });
-		}
-
+		const startNext = () => {
+			while (!finished && started < states.length && started < current + this.concurrency) {
+				fetch(started++);
+			}
+		};
 
+		const stream = new Readable({
+			read: () => flush(),
+			destroy: (err, callback) => {
+				if (!finished) {
+					console.log("stream closed; aborting");
+				}
+				finished = true;
+				states.forEach(s => s.source?.destroy());
+				callback(err);
+			},
+		});
 
-		next();
+		startNext();
 
 		return stream;
 	}
 
-}
\ No newline at end of file
+}
@@ -0,0 +1,135 @@
+import path from "path";
+import DiscordFileStorageApp from "../DiscordFileStorageApp.js";
+import Folder from "../file/filesystem/Folder.js";
+import RemoteFile from "../file/RemoteFile.js";
+
+/**
+ * Recycle bin. Deleted files and folders are moved into /.trash with their original path and deletion date in their records,
+ * folders keep their content. Entries are restored by moving them out of the trash, deleted in the trash they are gone for good.
+ */
+export default class Trash {
+    public static readonly FOLDER_NAME = ".trash";
+
+    private app: DiscordFileStorageApp;
+
+    constructor(app: DiscordFileStorageApp) {
+        this.app = app;
+    }
+
+    public static isTrashPath(path: string): boolean {
+        const folder = "/" + Trash.FOLDER_NAME;
+        return path == folder || path.startsWith(folder + "/");
+    }
+
+    public getFolder(): Folder | undefined {
+        return this.app.getFileSystem().getRoot().getFolders().find(f => f.getName() == Trash.FOLDER_NAME);
+    }
+
+    /**
+     * Maps path inside the trash to the path it had before deletion: /.trash/docs (2)/a.txt -> /projects/docs/a.txt.
+     * @returns undefined for the trash folder itself and for entries without trash info.
+     */
+    public getOriginalPath(path: string): string | undefined {
+        const parts = path.split("/").filter(part => part != "").slice(1);
+        const trash = this.getFolder();
+        if (!trash || parts.length == 0) {
+            return undefined;
+        }
+
+        const entry = trash.getFolders().find(f => f.getName() == parts[0]) ?? trash.getFiles().find(f => f.getFileName() == parts[0]);
+        const info = entry instanceof Folder || entry instanceof RemoteFile ? entry.getTrashInfo() : undefined;
+        if (!info) {
+            return undefined;
+        }
+
+        return [info.path.replace(/\/$/, "")].concat(parts.slice(1)).join("/");
+    }
+
+    private async ensureFolder(): Promise<Folder> {
+        const folder = this.getFolder() ?? this.app.getFileSystem().getRoot().createFolder(Trash.FOLDER_NAME);
+        await this.app.getDiscordFileManager().ensureFolderPosted(folder);
+        return folder;
+    }
+
+    /**
+     * Entries with the same name may be deleted several times, later ones get a number: "report (2).txt".
+     */
+    private getFreeName(folder: Folder, name: string): string {
+        const { name: base, ext } = path.parse(name);
+        let free = name;
+        for (let i = 2; folder.isSameNameExists(free); i++) {
+            free = base + " (" + i + ")" + ext;
+        }
+        return free;
+    }
+
+    public async moveToTrash(entry: Folder | RemoteFile, now: Date = new Date()): Promise<void> {
+        const trash = await this.ensureFolder();
+        const manager = this.app.getDiscordFileManager();
+
+        if (entry instanceof Folder) {
+            const oldParent = entry.getParent()!;
+            const oldName = entry.getName();
+            entry.setTrashInfo({ path: entry.getAbsolutePath(), deletedAt: now });
+            entry.moveTo(trash, this.getFreeName(trash, oldName));
+            try {
+                // files reference folder by id, so only folder record has to be updated.
+                await manager.updateMetaFolder(entry);
+            } catch (err) {
+                entry.moveTo(oldParent, oldName);
+                entry.setTrashInfo(undefined);
+                throw err;
+            }
+            return;
+        }
+
+        const root = this.app.getFileSystem().getRoot();
+        const oldFolder = entry.getFolder();
+        const oldName = entry.getFileName();
+        entry.setTrashInfo({ path: entry.getAbsolutePath(), deletedAt: now });
+        entry.setFileName(this.getFreeName(trash, oldName));
+        root.moveFile(entry, oldFolder, trash.getAbsolutePath());
+        try {
+            await manager.updateMetaFile(entry, false);
+        } catch (err) {
+            // record still has the old path.
+            entry.setFileName(oldName);
+            root.moveFile(entry, trash, oldFolder.getAbsolutePath());
+            entry.setTrashInfo(undefined);
+            throw err;
+        }
+    }
+
+    /**
+     * Returns entries which were deleted longer than TRASH_MAX_AGE ago.
+     */
+    public getExpired(now: Date = new Date()): (Folder | RemoteFile)[] {
+        const maxAge = this.app.getTrashMaxAge();
+        const trash = this.getFolder();
+        if (!trash || maxAge == 0) {
+            return [];
+        }
+
+        const entries: (Folder | RemoteFile)[] = [...trash.getFolders()];
+        trash.getFiles().forEach(file => file instanceof RemoteFile && entries.push(file));
+        return entries.filter(entry => {
+            const info = entry.getTrashInfo();
+            return info && now.getTime() - info.deletedAt.getTime() > maxAge;
+        });
+    }
+
+    /**
+     * Deletes entry from the trash for good, with its records and chunks.
+     */
+    public async purge(entry: Folder | RemoteFile): Promise<void> {
+        if (entry instanceof Folder) {
+            await this.app.getDiscordFileManager().deleteFolder(entry);
+            entry.getParent()!.removeFolder(entry);
+            return;
+        }
+
+        await this.app.getDiscordFileManager().deleteFile(entry, false);
+        entry.rm();
+    }
+
+}
@@ -0,0 +1,125 @@
+import fs from "fs";
+import path from "path";
+import crypto from "crypto";
+import { IChunkInfo } from "../file/RemoteFile.js";
+import { IFileEncryption } from "../encryption/FileEncryption.js";
+
+export interface IUploadedChunk {
+    hash: string; // sha256 of the plain chunk data, hex.
+    chunk: IChunkInfo;
+}
+
+/**
+ * Chunks of an unfinished upload, which are already acknowledged by the chunk store.
+ */
+export interface IUploadSession {
+    path: string; // absolute path of the uploaded file.
+    size: number;
+    storeId: string;
+    chunkSize: number;
+    encryption?: IFileEncryption;
+    chunks: (IUploadedChunk | null)[]; // by chunk index.
+    updatedAt: string; // last activity, session expires after max age without it.
+}
+
+// days a session is kept without activity, when app options or UPLOAD_SESSION_MAX_AGE do not set it.
+export const DEFAULT_UPLOAD_SESSION_MAX_AGE_DAYS = 7;
+
+/**
+ * Keeps upload sessions on disk (one json file per uploaded path), so upload of the same file can be continued after failure or restart
+ * without posting already uploaded chunks again. Session is removed once file meta is posted.
+ * Abandoned sessions expire after max age without activity, their chunks are not in use anymore and are collected by gc.
+ */
+export default class UploadSessionStore {
+    private directory: string;
+    private maxAge: number;
+
+    /**
+     * @param maxAge time in ms a session is kept without activity, 0 keeps sessions until the upload finishes.
+     */
+    constructor(directory: string, maxAge: number = 0) {
+        this.directory = path.resolve(directory);
+        this.maxAge = maxAge;
+    }
+
+    private isExpired(session: IUploadSession, now: Date = new Date()): boolean {
+        return this.maxAge > 0 && now.valueOf() - new Date(session.updatedAt).valueOf() > this.maxAge;
+    }
+
+    private getSessionPath(filePath: string): string {
+        return path.join(this.directory, crypto.createHash("sha256").update(filePath).digest("hex") + ".json");
+    }
+
+    /**
+     * Returns saved session for the path, or a new one if there is no session or it was started for other file size, store or encryption mode.
+     */
+    public open(filePath: string, size: number, storeId: string, chunkSize: number, encrypted: boolean): IUploadSession {
+        const session = this.load(this.getSessionPath(filePath));
+        if (session && !this.isExpired(session) && session.path == filePath && session.size == size && session.storeId == storeId && session.chunkSize == chunkSize && !!session.encryption == encrypted) {
+            const uploaded = session.chunks.filter(c => c).length;
+            console.log("Resuming upload of " + filePath + ", " + uploaded + " chunks are already uploaded.");
+            return session;
+        }
+
+        return { path: filePath, size, storeId, chunkSize, chunks: [], updatedAt: new Date().toISOString() };
+    }
+
+    private load(sessionPath: string): IUploadSession | undefined {
+        if (!fs.existsSync(sessionPath)) {
+            return undefined;
+        }
+
+        try {
+            return JSON.parse(fs.readFileSync(sessionPath, "utf-8"));
+        } catch (e) {
+            console.log("Skipping broken upload session " + sessionPath + ": " + e);
+            return undefined;
+        }
+    }
+
+    public save(session: IUploadSession): void {
+        session.updatedAt = new Date().toISOString();
+        const sessionPath = this.getSessionPath(session.path);
+        fs.mkdirSync(this.directory, { recursive: true });
+
+        // rename is atomic, so session is never left half written.
+        fs.writeFileSync(sessionPath + ".tmp", JSON.stringify(session));
+        fs.renameSync(sessionPath + ".tmp", sessionPath);
+    }
+
+    public remove(session: IUploadSession): void {
+        fs.rmSync(this.getSessionPath(session.path), { force: true });
+    }
+
+    /**
+     * Returns all saved sessions which are not expired. Their chunks are not referenced by any file yet, but are still in use.
+     */
+    public list(): IUploadSession[] {
+        return this.listAll().filter(session => !this.isExpired(session));
+    }
+
+    private listAll(): IUploadSession[] {
+        if (!fs.existsSync(this.directory)) {
+            return [];
+        }
+
+        return fs.readdirSync(this.directory)
+            .filter(name => name.endsWith(".json"))
+            .map(name => this.load(path.join(this.directory, name)))
+            .filter((session): session is IUploadSession => !!session);
+    }
+
+    /**
+     * Removes sessions without activity for longer than max age.
+     * @returns removed sessions.
+     */
+    public removeExpired(now: Date = new Date()): IUploadSession[] {
+        const expired = this.listAll().filter(session => this.isExpired(session, now));
+        for (const session of expired) {
+            console.log("Upload session of " + session.path + " expired, last activity " + session.updatedAt + ".");
+            this.remove(session);
+        }
+        return expired;
+    }
+
+}
@@ -0,0 +1,57 @@
+import { v2 } from "webdav-server";
+import { Errors } from "webdav-server/lib/index.v2.js";
+
+/**
+ * Property manager of a single file, which adds read only "getcontenthash" property (sha256 of the file content) to the properties of the given manager.
+ */
+export default class ContentHashPropertyManager implements v2.IPropertyManager {
+    public static readonly PROPERTY_NAME = "getcontenthash";
+    public static readonly NAMESPACE = "urn:dicloud:";
+
+    private properties: v2.IPropertyManager;
+    private contentHash: string;
+
+    constructor(properties: v2.IPropertyManager, contentHash: string) {
+        this.properties = properties;
+        this.contentHash = contentHash;
+    }
+
+    private getAttributes(): v2.PropertyAttributes {
+        return { xmlns: ContentHashPropertyManager.NAMESPACE, algorithm: "sha256" };
+    }
+
+    setProperty(name: string, value: v2.ResourcePropertyValue, attributes: v2.PropertyAttributes, callback: v2.SimpleCallback): void {
+        if (name == ContentHashPropertyManager.PROPERTY_NAME) {
+            return callback(Errors.Forbidden);
+        }
+        this.properties.setProperty(name, value, attributes, callback);
+    }
+
+    getProperty(name: string, callback: v2.Return2Callback<v2.ResourcePropertyValue, v2.PropertyAttributes>): void {
+        if (name == ContentHashPropertyManager.PROPERTY_NAME) {
+            return callback(undefined, this.contentHash, this.getAttributes());
+        }
+        this.properties.getProperty(name, callback);
+    }
+
+    removeProperty(name: string, callback: v2.SimpleCallback): void {
+        if (name == ContentHashPropertyManager.PROPERTY_NAME) {
+            return callback(Errors.Forbidden);
+        }
+        this.properties.removeProperty(name, callback);
+    }
+
+    getProperties(callback: v2.ReturnCallback<v2.PropertyBag>, byCopy?: boolean): void {
+        this.properties.getProperties((e, properties) => {
+            if (e) {
+                return callback(e);
+            }
+
+            callback(undefined, {
+                ...properties,
+                [ContentHashPropertyManager.PROPERTY_NAME]: { value: this.contentHash, attributes: this.getAttributes() },
+            });
+        }, byCopy);
+    }
+
+}
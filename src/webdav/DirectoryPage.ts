@@ -0,0 +1,199 @@
+import { v2 } from "webdav-server";
+import { escapeHtml } from "../helper/Html.js";
+import { formatByteSize } from "../helper/ByteSize.js";
+
+export interface IDirectoryEntry {
+    name: string;
+    isFolder: boolean;
+    size?: number; // files only.
+    modified?: Date; // folders have no modification date.
+    mimeType?: string;
+}
+
+export type SortKey = "name" | "size" | "modified";
+
+export interface ISortOrder {
+    key: SortKey;
+    descending: boolean;
+}
+
+export interface IDirectoryPage {
+    path: string; // decoded absolute path of the folder, with trailing slash.
+    entries: IDirectoryEntry[];
+    sort: ISortOrder;
+    writable: boolean; // shows upload form.
+}
+
+/**
+ * Browsers ask for html, webdav clients do not. Only such requests get the directory page, others get usual webdav responses.
+ */
+export function isBrowserRequest(ctx: v2.HTTPRequestContext): boolean {
+    return /text\/html/i.test(ctx.headers.find("Accept", ""));
+}
+
+export function parseSortOrder(query: URLSearchParams): ISortOrder {
+    const key = query.get("sort");
+    return {
+        key: key == "size" || key == "modified" ? key : "name",
+        descending: query.get("order") == "desc",
+    };
+}
+
+/**
+ * Reads folder members through the filesystem, so privileges are checked and virtual folders (/.versions) are listed too.
+ */
+export async function readDirectoryEntries(ctx: v2.RequestContext, fs: v2.FileSystem, path: v2.Path): Promise<IDirectoryEntry[]> {
+    const entries: IDirectoryEntry[] = [];
+    for (const name of await fs.readDirAsync(ctx, path)) {
+        const child = path.getChildPath(name);
+        const type = await fs.typeAsync(ctx, child);
+        if (type.isDirectory) {
+            entries.push({ name, isFolder: true });
+            continue;
+        }
+
+        // properties user can not read are left empty.
+        const size = await fs.sizeAsync(ctx, child).catch(() => undefined);
+        const modified = await fs.lastModifiedDateAsync(ctx, child).catch(() => undefined);
+        const mimeType = await fs.mimeTypeAsync(ctx, child).catch(() => undefined);
+        entries.push({ name, isFolder: false, size, modified: modified ? new Date(modified) : undefined, mimeType });
+    }
+    return entries;
+}
+
+// folders go first regardless of the order.
+function sortEntries(entries: IDirectoryEntry[], sort: ISortOrder): IDirectoryEntry[] {
+    const compare = (a: IDirectoryEntry, b: IDirectoryEntry): number => {
+        if (sort.key == "size" && (a.size ?? 0) != (b.size ?? 0)) {
+            return (a.size ?? 0) - (b.size ?? 0);
+        }
+        if (sort.key == "modified" && (a.modified?.valueOf() ?? 0) != (b.modified?.valueOf() ?? 0)) {
+            return (a.modified?.valueOf() ?? 0) - (b.modified?.valueOf() ?? 0);
+        }
+        return a.name.localeCompare(b.name);
+    };
+
+    return [...entries].sort((a, b) => {
+        if (a.isFolder != b.isFolder) {
+            return a.isFolder ? -1 : 1;
+        }
+        return sort.descending ? compare(b, a) : compare(a, b);
+    });
+}
+
+function getIcon(entry: IDirectoryEntry): string {
+    if (entry.isFolder) {
+        return "📁";
+    }
+
+    const mimeType = entry.mimeType ?? "";
+    if (mimeType.startsWith("image/")) {
+        return "🖼️";
+    }
+    if (mimeType.startsWith("video/")) {
+        return "🎞️";
+    }
+    if (mimeType.startsWith("audio/")) {
+        return "🎵";
+    }
+    if (mimeType.startsWith("text/") || mimeType == "application/json" || mimeType == "application/xml") {
+        return "📝";
+    }
+    if (mimeType == "application/pdf") {
+        return "📕";
+    }
+    if (/zip|tar|rar|7z|gzip|compressed/.test(mimeType)) {
+        return "🗜️";
+    }
+    return "📄";
+}
+
+function formatDate(date: Date | undefined): string {
+    return date ? date.toISOString().slice(0, 16).replace("T", " ") : "";
+}
+
+function getPathHref(names: string[]): string {
+    return escapeHtml("/" + names.map(name => encodeURIComponent(name) + "/").join(""));
+}
+
+function renderBreadcrumbs(path: string): string {
+    const names = path.split("/").filter(name => name != "");
+    const crumbs = ["<a href=\"/\">DICloud</a>"].concat(names.map((name, i) => "<a href=\"" + getPathHref(names.slice(0, i + 1)) + "\">" + escapeHtml(name) + "</a>"));
+    return crumbs.join(" / ");
+}
+
+function renderSortHeader(title: string, key: SortKey, sort: ISortOrder): string {
+    const active = sort.key == key;
+    // clicking the active column reverses the order.
+    const order = active && !sort.descending ? "desc" : "asc";
+    const arrow = active ? (sort.descending ? " ▼" : " ▲") : "";
+    return "<th><a href=\"?sort=" + key + "&amp;order=" + order + "\">" + title + arrow + "</a></th>";
+}
+
+function renderRow(entry: IDirectoryEntry): string {
+    const href = escapeHtml(encodeURIComponent(entry.name)) + (entry.isFolder ? "/" : "");
+    return "<tr>" +
+        "<td class=\"icon\">" + getIcon(entry) + "</td>" +
+        "<td><a href=\"" + href + "\">" + escapeHtml(entry.name) + (entry.isFolder ? "/" : "") + "</a></td>" +
+        "<td class=\"size\">" + (entry.size !== undefined ? formatByteSize(entry.size) : "") + "</td>" +
+        "<td>" + formatDate(entry.modified) + "</td>" +
+        "</tr>";
+}
+
+// uploads files one by one with PUT into the current folder, names are taken from the picked or dropped files.
+const UPLOAD_SCRIPT = `
+const status = document.getElementById("status");
+async function upload(files) {
+    for (const file of files) {
+        status.textContent = "Uploading " + file.name + "...";
+        const res = await fetch(location.pathname + encodeURIComponent(file.name), { method: "PUT", body: file });
+        if (!res.ok) {
+            status.textContent = "Upload of " + file.name + " failed: " + res.status + " " + res.statusText;
+            return;
+        }
+    }
+    location.reload();
+}
+document.getElementById("upload").addEventListener("submit", (e) => {
+    e.preventDefault();
+    upload(document.getElementById("files").files);
+});
+document.addEventListener("dragover", (e) => {
+    e.preventDefault();
+    document.body.classList.add("drop");
+});
+document.addEventListener("dragleave", () => document.body.classList.remove("drop"));
+document.addEventListener("drop", (e) => {
+    e.preventDefault();
+    document.body.classList.remove("drop");
+    upload(e.dataTransfer.files);
+});
+`;
+
+const STYLE = `
+body { font-family: sans-serif; margin: 2em; }
+body.drop { outline: 3px dashed #48c; outline-offset: -10px; }
+table { border-collapse: collapse; min-width: 60%; }
+th, td { padding: 4px 12px; text-align: left; }
+tr:nth-child(even) { background: #f4f4f4; }
+td.size { text-align: right; }
+a { text-decoration: none; }
+`;
+
+export function renderDirectoryPage(page: IDirectoryPage): string {
+    const rows = sortEntries(page.entries, page.sort).map(renderRow);
+    if (page.path != "/") {
+        rows.unshift("<tr><td class=\"icon\">⬆️</td><td><a href=\"../\">../</a></td><td></td><td></td></tr>");
+    }
+
+    const upload = page.writable
+        ? "<form id=\"upload\"><input type=\"file\" id=\"files\" multiple> <button type=\"submit\">Upload</button> or drop files here. <span id=\"status\"></span></form><script>" + UPLOAD_SCRIPT + "</script>"
+        : "";
+
+    return "<!DOCTYPE html><html><head><meta charset=\"utf-8\"><title>Index of " + escapeHtml(page.path) + "</title><style>" + STYLE + "</style></head><body>" +
+        "<h1>" + renderBreadcrumbs(page.path) + "</h1>" +
+        "<table><thead><tr><th></th>" + renderSortHeader("Name", "name", page.sort) + renderSortHeader("Size", "size", page.sort) + renderSortHeader("Modified", "modified", page.sort) + "</tr></thead>" +
+        "<tbody>" + rows.join("") + "</tbody></table>" +
+        upload +
+        "<hr><address>DICloud Server</address></body></html>";
+}
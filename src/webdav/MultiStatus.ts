@@ -0,0 +1,37 @@
+import http from "http";
+import { HTTPCodes, v2 } from "webdav-server";
+
+export interface IMemberFailure {
+    path: string;
+    error: Error;
+}
+
+function element(name: string, elements: object[]): object {
+    return { type: "element", name, elements };
+}
+
+function text(name: string, value: string): object {
+    return element(name, [{ type: "text", text: value }]);
+}
+
+/**
+ * Writes 207 Multi-Status response with the members which failed, for operations on collections which succeeded only partially.
+ * Status code of the response is sent with the body, so codes set after this call are ignored.
+ */
+export function writeMultiStatus(ctx: v2.RequestContext, failures: IMemberFailure[]): void {
+    if (!(ctx instanceof v2.HTTPRequestContext)) {
+        return;
+    }
+
+    const responses = failures.map(failure => {
+        const code = v2.HTTPRequestContext.defaultStatusCode(failure.error) ?? HTTPCodes.InternalServerError;
+        return element("D:response", [
+            text("D:href", encodeURI((ctx.rootPath ?? "") + failure.path)),
+            text("D:status", "HTTP/1.1 " + code + " " + http.STATUS_CODES[code]),
+            text("D:responsedescription", failure.error.message),
+        ]);
+    });
+
+    ctx.setCode(HTTPCodes.MultiStatus);
+    ctx.writeBody({ type: "element", name: "D:multistatus", attributes: { "xmlns:D": "DAV:" }, elements: responses });
+}
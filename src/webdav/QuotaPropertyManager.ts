@@ -0,0 +1,67 @@
+import { v2 } from "webdav-server";
+import { Errors } from "webdav-server/lib/index.v2.js";
+import { IQuotaReport } from "../quota/Quota.js";
+
+/**
+ * Property manager of a folder, which adds read only "quota-available-bytes" and "quota-used-bytes" properties (RFC 4331) to the properties of the given manager.
+ * Report is taken when properties are read, properties are left out if no limit applies to the user.
+ */
+export default class QuotaPropertyManager implements v2.IPropertyManager {
+    // requested properties are parsed with the namespace, so the names include it. Response gets a prefix declared for it.
+    public static readonly AVAILABLE_PROPERTY = "DAV:quota-available-bytes";
+    public static readonly USED_PROPERTY = "DAV:quota-used-bytes";
+
+    private properties: v2.IPropertyManager;
+    private getReport: () => IQuotaReport | undefined;
+
+    constructor(properties: v2.IPropertyManager, getReport: () => IQuotaReport | undefined) {
+        this.properties = properties;
+        this.getReport = getReport;
+    }
+
+    private isQuotaProperty(name: string): boolean {
+        return name == QuotaPropertyManager.AVAILABLE_PROPERTY || name == QuotaPropertyManager.USED_PROPERTY;
+    }
+
+    setProperty(name: string, value: v2.ResourcePropertyValue, attributes: v2.PropertyAttributes, callback: v2.SimpleCallback): void {
+        if (this.isQuotaProperty(name)) {
+            return callback(Errors.Forbidden);
+        }
+        this.properties.setProperty(name, value, attributes, callback);
+    }
+
+    getProperty(name: string, callback: v2.Return2Callback<v2.ResourcePropertyValue, v2.PropertyAttributes>): void {
+        const report = this.isQuotaProperty(name) ? this.getReport() : undefined;
+        if (report) {
+            return callback(undefined, String(name == QuotaPropertyManager.AVAILABLE_PROPERTY ? report.available : report.used), {});
+        }
+        this.properties.getProperty(name, callback);
+    }
+
+    removeProperty(name: string, callback: v2.SimpleCallback): void {
+        if (this.isQuotaProperty(name)) {
+            return callback(Errors.Forbidden);
+        }
+        this.properties.removeProperty(name, callback);
+    }
+
+    getProperties(callback: v2.ReturnCallback<v2.PropertyBag>, byCopy?: boolean): void {
+        this.properties.getProperties((e, properties) => {
+            if (e) {
+                return callback(e);
+            }
+
+            const report = this.getReport();
+            if (!report) {
+                return callback(undefined, properties);
+            }
+
+            callback(undefined, {
+                ...properties,
+                [QuotaPropertyManager.AVAILABLE_PROPERTY]: { value: String(report.available), attributes: {} },
+                [QuotaPropertyManager.USED_PROPERTY]: { value: String(report.used), attributes: {} },
+            });
+        }, byCopy);
+    }
+
+}
@@ -0,0 +1,103 @@
+import Folder, { ElementType } from "../file/filesystem/Folder.js";
+import RemoteFile, { IFileVersion } from "../file/RemoteFile.js";
+
+export interface IVersionEntry {
+    file: RemoteFile;
+    version: IFileVersion;
+}
+
+interface IResolvedPath {
+    folder?: Folder;
+    file?: RemoteFile; // file is shown as a folder with its versions.
+    version?: IVersionEntry;
+}
+
+/**
+ * Read only folder /.versions, which mirrors the folder tree. Every file is a folder there, which contains old versions of the file,
+ * for example /.versions/docs/report.txt/2026-01-02T10-20-30.000Z_report.txt. Version is restored by copying it over the file.
+ */
+export default class VersionsView {
+    public static readonly FOLDER_NAME = ".versions";
+
+    private root: Folder;
+
+    constructor(root: Folder) {
+        this.root = root;
+    }
+
+    public static isVersionsPath(path: string): boolean {
+        const folder = "/" + VersionsView.FOLDER_NAME;
+        return path == folder || path.startsWith(folder + "/");
+    }
+
+    public static getVersionName(file: RemoteFile, version: IFileVersion): string {
+        return version.replacedAt.toISOString().replace(/:/g, "-") + "_" + file.getFileName();
+    }
+
+    private resolve(path: string): IResolvedPath | undefined {
+        if (!VersionsView.isVersionsPath(path)) {
+            return undefined;
+        }
+
+        const parts = path.slice(VersionsView.FOLDER_NAME.length + 1).split("/").filter(part => part != "");
+
+        let folder = this.root;
+        for (let i = 0; i < parts.length; i++) {
+            const subFolder = folder.getFolders().find(f => f.getName() == parts[i]);
+            if (subFolder) {
+                folder = subFolder;
+                continue;
+            }
+
+            const file = folder.getFiles().find(f => f.getFileName() == parts[i]);
+            if (!(file instanceof RemoteFile) || i < parts.length - 2) {
+                return undefined;
+            }
+            if (i == parts.length - 1) {
+                return { file };
+            }
+
+            const version = file.getVersions().find(v => VersionsView.getVersionName(file, v) == parts[i + 1]);
+            return version ? { version: { file, version } } : undefined;
+        }
+
+        return { folder };
+    }
+
+    /**
+     * Returns folder or read only version file for the path inside /.versions. Files with versions are folders without entry.
+     */
+    public getEntry(path: string): ElementType {
+        const resolved = this.resolve(path);
+        if (!resolved) {
+            return { isUnknown: true };
+        }
+
+        if (resolved.version) {
+            const { file, version } = resolved.version;
+            return { isFile: true, entry: RemoteFile.fromVersion(VersionsView.getVersionName(file, version), version, file.getFolder(), file.getCreationDate()) };
+        }
+
+        return { isFolder: true, entry: resolved.folder };
+    }
+
+    public getVersion(path: string): IVersionEntry | undefined {
+        return this.resolve(path)?.version;
+    }
+
+    public readDir(path: string): string[] | undefined {
+        const resolved = this.resolve(path);
+        if (resolved?.folder) {
+            const files = resolved.folder.getFiles().filter(file => file instanceof RemoteFile).map(file => file.getFileName());
+            return resolved.folder.getFolders().map(folder => folder.getName()).concat(files);
+        }
+
+        if (resolved?.file) {
+            const file = resolved.file;
+            return file.getVersions().map(version => VersionsView.getVersionName(file, version));
+        }
+
+        return undefined;
+    }
+
+}
@@ -1,13 +1,21 @@
 import { Readable, Writable, Transform, PassThrough } from "stream";
+import { pipeline } from "stream/promises";
 import { Lock, ResourceType, v2 } from "webdav-server";
 import { Errors, IUser, LockKind } from "webdav-server/lib/index.v2.js";
 import DiscordFileStorageApp from "../DiscordFileStorageApp.js";
 import RemoteFile, { IChunkInfo } from "../file/RemoteFile.js";
 import RamFile from "../file/RamFile.js";
-import Folder from "../file/filesystem/Folder.js";
+import Folder, { ElementType } from "../file/filesystem/Folder.js";
 import { IResourceHelper } from "../file/filesystem/IResourceHelper.js";
-import { patchEmitter } from "../helper/EventPatcher.js";
 import FileBase from "../file/FileBase.js";
+import { IByteRange, SliceStream, isSatisfiableRange, parseByteRange } from "../stream-helpers/ByteRange.js";
+import { ETagHasher } from "../helper/ETagHasher.js";
+import ContentHashPropertyManager from "./ContentHashPropertyManager.js";
+import { IMemberFailure, writeMultiStatus } from "./MultiStatus.js";
+import VersionsView from "./VersionsView.js";
+import Trash from "../trash/Trash.js";
+import Quota from "../quota/Quota.js";
+import QuotaPropertyManager from "./QuotaPropertyManager.js";
 
 
 function getContext(ctx: v2.IContextInfo) {
@@ -40,11 +48,38 @@ export default class WebdavFilesystemHandler extends v2.FileSystem {
     private cLockManager: v2.LocalLockManager = new v2.LocalLockManager();
     private cPropertyManager: v2.LocalPropertyManager = new v2.LocalPropertyManager();
     private fs: Folder;
+    private versions: VersionsView;
+    private trash: Trash;
+    private quota: Quota;
 
     constructor(client: DiscordFileStorageApp) {
         super(new VirtualDiscordFileSystemSerializer());
         this.app = client;
         this.fs = this.app.getFileSystem().getRoot();
+        this.versions = new VersionsView(this.fs);
+        this.trash = new Trash(client);
+        this.quota = new Quota(client);
+    }
+
+    /**
+     * @returns name of the authenticated user, undefined if server runs without authentication.
+     */
+    private getUsername(ctx: v2.RequestContext): string | undefined {
+        const user = ctx.user;
+        return user && !user.isDefaultUser ? user.username : undefined;
+    }
+
+    private getEntry(path: v2.Path): ElementType {
+        const pathString = path.toString();
+        return VersionsView.isVersionsPath(pathString) ? this.versions.getEntry(pathString) : this.fs.getEntryByPath(pathString);
+    }
+
+    /**
+     * /.versions is read only, versions are only read or copied from there.
+     * Nothing is written into /.trash directly, entries get there by delete and are restored by moving them out.
+     */
+    private isReadOnly(...paths: v2.Path[]): boolean {
+        return paths.some(path => VersionsView.isVersionsPath(path.toString()) || Trash.isTrashPath(path.toString()));
     }
 
 
@@ -53,6 +88,14 @@ export default class WebdavFilesystemHandler extends v2.FileSystem {
     }
 
     protected _propertyManager(path: v2.Path, ctx: v2.PropertyManagerInfo, callback: v2.ReturnCallback<v2.IPropertyManager>): void {
+        const entry = this.getEntry(path);
+        const contentHash = entry.entry instanceof FileBase ? entry.entry.getContentHash() : undefined;
+        if (contentHash) {
+            return callback(undefined, new ContentHashPropertyManager(this.cPropertyManager, contentHash));
+        }
+        if (entry.isFolder) {
+            return callback(undefined, new QuotaPropertyManager(this.cPropertyManager, () => this.quota.getReport(this.getUsername(ctx.context))));
+        }
         return callback(undefined, this.cPropertyManager);
     }
 
@@ -65,7 +108,7 @@ export default class WebdavFilesystemHandler extends v2.FileSystem {
     }
 
     protected _size(path: v2.Path, ctx: v2.SizeInfo, callback: v2.ReturnCallback<number>): void {
-        const entry = this.fs.getEntryByPath(path.toString());
+        const entry = this.getEntry(path);
 
         if (entry.isFolder) {
             return callback(undefined, this.fs.getallEntriesRecursiveThis().filter(e => e.isFile).map(e => e.entry as FileBase).reduce((prev, cur) => prev + cur.getSize(), 0))
@@ -82,18 +125,45 @@ export default class WebdavFilesystemHandler extends v2.FileSystem {
 
     protected _readDir(path: v2.Path, ctx: v2.ReadDirInfo, callback: v2.ReturnCallback<string[] | v2.Path[]>): void {
         this.app.getLogger().info(".readDir", path.toString(), getContext(ctx));
+        if (VersionsView.isVersionsPath(path.toString())) {
+            const names = this.versions.readDir(path.toString());
+            if (!names) {
+                return callback(Errors.ResourceNotFound);
+            }
+            this.filterReadable(ctx.context, path, names).then(readable => callback(undefined, readable), err => callback(err));
+            return;
+        }
+
         const entry = this.fs.getEntryByPath(path.toString());
 
         if (entry.isFolder) {
-            return callback(undefined, (entry.entry as Folder).getAllEntries().map(e => (e.entry as IResourceHelper).getEntryName()));
+            const names = (entry.entry as Folder).getAllEntries().map(e => (e.entry as IResourceHelper).getEntryName());
+            if (path.isRoot() && this.app.getVersionsKeep() > 0 && !names.includes(VersionsView.FOLDER_NAME)) {
+                names.push(VersionsView.FOLDER_NAME);
+            }
+            this.filterReadable(ctx.context, path, names).then(readable => callback(undefined, readable), err => callback(err));
+            return;
         }
 
         return callback(Errors.ResourceNotFound);
     }
 
+    /**
+     * Hides entries user has no access to. FileSystem.readDir is supposed to do it, but its result of the check is thrown away.
+     */
+    private async filterReadable(ctx: v2.RequestContext, path: v2.Path, names: string[]): Promise<string[]> {
+        const readable: string[] = [];
+        for (const name of names) {
+            if (await this.checkPrivilegeAsync(ctx, path.getChildPath(name), "canReadProperties")) {
+                readable.push(name);
+            }
+        }
+        return readable;
+    }
+
     protected _type(path: v2.Path, ctx: v2.TypeInfo, callback: v2.ReturnCallback<v2.ResourceType>): void {
         // this.app.getLogger().info(".type", path.toString(), getContext(ctx));
-        const entry = this.fs.getEntryByPath(path.toString());
+        const entry = this.getEntry(path);
 
         let resType = ResourceType.NoResource;
         if (entry.isFile) {
@@ -107,7 +177,7 @@ export default class WebdavFilesystemHandler extends v2.FileSystem {
 
     protected _mimeType(path: v2.Path, ctx: v2.MimeTypeInfo, callback: v2.ReturnCallback<string>): void {
         // this.app.getLogger().info(".mimeType", path.toString(), getContext(ctx));
-        const entry = this.fs.getEntryByPath(path.toString());
+        const entry = this.getEntry(path);
         if (entry.isUnknown || entry.isFolder) {
             return callback(Errors.NoMimeTypeForAFolder)
         }
@@ -119,13 +189,23 @@ export default class WebdavFilesystemHandler extends v2.FileSystem {
     protected _fastExistCheck(ctx: v2.RequestContext, path: v2.Path, callback: (exists: boolean) => void): void {
         // this.app.getLogger().info(".fastExistCheck", path.toString(), getContext(ctx));
 
-        return callback(!this.fs.getEntryByPath(path.toString()).isUnknown);
+        return callback(!this.getEntry(path).isUnknown);
     }
 
-    _create(path: v2.Path, ctx: v2.CreateInfo, callback: v2.SimpleCallback): void {
+    async _create(path: v2.Path, ctx: v2.CreateInfo, callback: v2.SimpleCallback): Promise<void> {
         this.app.getLogger().info(".create", path.toString(), getContext(ctx));
+        if (this.isReadOnly(path)) {
+            return callback(Errors.Forbidden);
+        }
         if (ctx.type.isDirectory) {
-            this.fs.createFolderHierarchy(path.toString());
+            const folder = this.fs.createFolderHierarchy(path.toString());
+            // posted right away, so empty folders survive restarts.
+            try {
+                await this.app.getDiscordFileManager().ensureFolderPosted(folder);
+            } catch (err) {
+                this.app.getLogger().error(".create", "Failed to post folder: " + path.toString(), err);
+                return callback(err as Error);
+            }
         } else {
             this.fs.createRAMFileHierarchy(path.toString(), path.fileName(), new Date());
         }
@@ -133,10 +213,10 @@ export default class WebdavFilesystemHandler extends v2.FileSystem {
     }
 
 
-    // called on file download.
+    // called on file download. Single byte range from Range header is honored, see WebdavServer.setupRangeRequestHandler.
     async _openReadStream(path: v2.Path, ctx: v2.OpenReadStreamInfo, callback: v2.ReturnCallback<Readable>): Promise<void> {
         this.app.getLogger().info(".openReadStream (path, estimatedSize, ctx)", path.toString(), ctx.estimatedSize, getContext(ctx));
-        const entry = this.fs.getEntryByPath(path.toString());
+        const entry = this.getEntry(path);
 
         if (entry.isUnknown || entry.isFolder) {
             return callback(Errors.ResourceNotFound);
@@ -145,21 +225,34 @@ export default class WebdavFilesystemHandler extends v2.FileSystem {
         const file = entry.entry as FileBase;
         this.app.getLogger().info("read: ", file);
 
+        let range: IByteRange | undefined = parseByteRange(ctx.context.headers.find("Range"), file.getSize());
+        if (range && !isSatisfiableRange(range, file.getSize())) {
+            range = undefined;
+        }
+
         if (file instanceof RamFile) {
             this.app.getLogger().info(".openReadStream", "Opening ram file: " + path.toString());
-            return callback(undefined, (file as RamFile).getReadable());
+            const readable = (file as RamFile).getReadable();
+            return callback(undefined, range ? readable.pipe(new SliceStream(range.start, range.end - range.start + 1)) : readable);
         }
 
         this.app.getLogger().info(".openReadStream, fetching: ", file.toString());
-        const readStream = await this.app.getDiscordFileManager().getDownloadableReadStream(file as RemoteFile)
-        this.app.getLogger().info(".openReadStream", "Stream opened: " + path.toString());
-
-        return callback(undefined, readStream);
+        try {
+            const readStream = await this.app.getDiscordFileManager().getDownloadableReadStream(file as RemoteFile, range);
+            this.app.getLogger().info(".openReadStream", "Stream opened: " + path.toString());
+            return callback(undefined, readStream);
+        } catch (err) {
+            this.app.getLogger().error(".openReadStream", "Failed to open: " + path.toString(), err);
+            return callback(err as Error);
+        }
     }
 
     async _openWriteStream(path: v2.Path, ctx: v2.OpenWriteStreamInfo, callback: v2.ReturnCallback<Writable>): Promise<void> {
         const { targetSource, estimatedSize, mode } = ctx;
         this.app.getLogger().info(".openWriteStream", targetSource, estimatedSize, mode, "shouldEncrypt: ", this.app.shouldEncryptFiles());
+        if (this.isReadOnly(path)) {
+            return callback(Errors.Forbidden);
+        }
 
         const entry = this.fs.getEntryByPath(path.toString());
 
@@ -169,27 +262,75 @@ export default class WebdavFilesystemHandler extends v2.FileSystem {
 
         let file = entry.entry as FileBase;
 
+        // content of replaced file stops counting, unless it is kept as a version.
+        const owner = this.getUsername(ctx.context);
+        const freed = file instanceof RemoteFile && this.app.getVersionsKeep() == 0 && file.getOwner() == owner ? file.getSize() : 0;
+        const available = this.quota.getAvailableBytes(owner) + freed;
+        if (ctx.estimatedSize > available) {
+            this.app.getLogger().info(".openWriteStream", "Quota exceeded: " + path.toString());
+            if (file instanceof RamFile && file.getSize() == 0) {
+                file.rm();
+            }
+            return callback(Errors.InsufficientStorage);
+        }
+
         // looks like most managers does not provide estimated size on  newly created file. 
         // So we put it into ram to be able to say that file is created and give it back to open on client to allow modify it without have user to wait for initial upload.
         // TODO: debug for big sizes.
         if (ctx.estimatedSize == -1 && entry.entry instanceof RamFile) {
             this.app.getLogger().info(".openWriteStream, ram file created: ", file.getAbsolutePath());
-            return callback(undefined, entry.entry.getWritable());
+            const ramFile = entry.entry;
+            return callback(undefined, ramFile.getWritable(async () => {
+                if (ramFile.getSize() == 0) {
+                    await this.persistEmptyFile(ramFile);
+                }
+            }, (writtenBytes) => {
+                if (writtenBytes > available) {
+                    this.app.getLogger().info(".openWriteStream", "Quota exceeded: " + path.toString());
+                    ramFile.rm();
+                    throw Errors.InsufficientStorage;
+                }
+            }));
         }
 
-        // at this point we need to update file with new attachments. since discord does not allow to update attachments, we need to delete old one and upload new one.
-        // to do that we removing old file from VirtualFS and from discord, then creating new one and uploading it and putting it into VirtualFS back
+        // discord does not allow to update attachments, so new content is uploaded into a new file, which replaces the old one when upload is finished.
+        // until then the old file stays readable, and it is kept if upload fails.
         if (file instanceof RemoteFile) {
-            await this.app.getDiscordFileManager().deleteFile(file);
+            const oldFile = file;
+            const newFile = new RemoteFile(path.fileName(), ctx.estimatedSize, oldFile.getFolder(), oldFile.getCreationDate(), false);
+            newFile.setOwner(owner);
+
+            const writeStream = await this.app.getDiscordFileManager().getUploadWritableStream(newFile, ctx.estimatedSize, {
+                onFinished: async () => {
+                    this.app.getLogger().info(".openWriteStream", "File uploaded, replacing: " + path.toString());
+                    await this.app.getDiscordFileManager().replaceFile(oldFile, newFile);
+                },
+                onWrite: (writtenBytes) => {
+                    if (writtenBytes > available) {
+                        throw Errors.InsufficientStorage;
+                    }
+                },
+            });
+
+            this.app.getLogger().info(".openWriteStream", "Stream opened: " + path.toString());
+            return callback(undefined, writeStream);
         }
 
         file = new RemoteFile(path.fileName(), ctx.estimatedSize, file.rm(), file.getCreationDate());
+        (file as RemoteFile).setOwner(owner);
 
         const writeStream = await this.app.getDiscordFileManager().getUploadWritableStream(file as RemoteFile, ctx.estimatedSize, {
             onFinished: async () => {
                 this.app.getLogger().info(".openWriteStream", "File uploaded: " + path.toString());
                 await this.app.getDiscordFileManager().postMetaFile(file as RemoteFile);
             },
+            onWrite: (writtenBytes) => {
+                if (writtenBytes > available) {
+                    // file is not posted yet, uploaded chunks are left for the garbage collector.
+                    file.rm();
+                    throw Errors.InsufficientStorage;
+                }
+            },
         });
 
         this.app.getLogger().info(".openWriteStream", "Stream opened: " + path.toString());
@@ -199,139 +340,335 @@ export default class WebdavFilesystemHandler extends v2.FileSystem {
     }
 
 
+    /**
+     * Replaces empty ram file with remote file without chunks, so it survives restarts.
+     */
+    private async persistEmptyFile(ramFile: RamFile): Promise<void> {
+        this.app.getLogger().info(".persistEmptyFile", ramFile.getAbsolutePath());
+        const file = new RemoteFile(ramFile.getFileName(), 0, ramFile.rm(), ramFile.getCreationDate());
+        file.setFilesPostedInChannelId(await this.app.getDiscordFileManager().getChunkStore().getStoreId());
+        file.setContentHash(new ETagHasher().finalize());
+        await this.app.getDiscordFileManager().postMetaFile(file);
+    }
+
     async _delete(path: v2.Path, ctx: v2.DeleteInfo, callback: v2.SimpleCallback): Promise<void> {
         this.app.getLogger().info(".delete", path.toString(), getContext(ctx));
+        if (VersionsView.isVersionsPath(path.toString())) {
+            return callback(Errors.Forbidden);
+        }
         const entry = this.fs.getEntryByPath(path.toString());
         if (entry.isUnknown) {
             return callback(Errors.InvalidOperation);
         }
 
-        if (entry.isFolder) {
-            const entires = (entry.entry as Folder).getallEntriesRecursiveThis();
-
-            for (const e of entires) {
-                if (e.entry instanceof FileBase) {
-                    if (e.entry instanceof RemoteFile) {
-                        await this.app.getDiscordFileManager().deleteFile(e.entry, false);
-                    }
-                    e.entry.rm();
-                }
+        // entries in the trash and files which were never uploaded are deleted for good.
+        const trashable = entry.entry instanceof Folder || entry.entry instanceof RemoteFile;
+        if (this.app.isTrashEnabled() && trashable && !Trash.isTrashPath(path.toString())) {
+            try {
+                await this.trash.moveToTrash(entry.entry as Folder | RemoteFile);
+                this.app.getLogger().info(".delete", "Moved to trash: " + path.toString());
+                return callback();
+            } catch (err) {
+                this.app.getLogger().error(".delete", "Failed to move to trash: " + path.toString(), err);
+                return callback(err as Error);
             }
+        }
+
+        try {
+            await this.deleteEntryRecords(entry);
+        } catch (err) {
+            this.app.getLogger().error(".delete", "Failed to delete: " + path.toString(), err);
+            return callback(err as Error);
+        }
 
+        if (entry.isFolder) {
             this.fs.removeFolderHierarchy(entry.entry as Folder);
             return callback(undefined);
         }
 
-        const file = entry.entry as FileBase;
-        this.app.getLogger().info(".delete, Trying to delete file", file)
+        (entry.entry as FileBase).rm();
+        callback();
+    }
 
-        if (file instanceof RemoteFile) {
-            await this.app.getDiscordFileManager().deleteFile(file, false);
+    /**
+     * Deletes records and chunks of the file or of the folder with all its content. VirtualFS is not touched.
+     */
+    private async deleteEntryRecords(entry: ElementType): Promise<void> {
+        if (entry.isFolder) {
+            return this.app.getDiscordFileManager().deleteFolder(entry.entry as Folder);
+        }
+
+        this.app.getLogger().info(".delete, Trying to delete file", entry.entry);
+        if (entry.entry instanceof RemoteFile) {
+            await this.app.getDiscordFileManager().deleteFile(entry.entry, false);
         }
-        file.rm();
-        callback();
     }
 
+    /**
+     * Takes existing entry out of VirtualFS, so other entry can take its path. Records of the entry are kept.
+     * @returns function which puts the entry back.
+     */
+    private detachEntry(entry: ElementType): () => void {
+        if (entry.isFolder) {
+            const folder = entry.entry as Folder;
+            const parent = folder.getParent()!;
+            parent.removeFolder(folder);
+            return () => parent.addFolder(folder);
+        }
+
+        const file = entry.entry as FileBase;
+        const folder = file.getFolder();
+        folder.removeFileFromThisFolder(file);
+        return () => folder.addFile(file);
+    }
+
+    /**
+     * Runs move or copy to the path of the target. Existing target is replaced only if overwrite is allowed:
+     * it is detached for the time of the transfer and deleted after the transfer succeeded, so failed transfer leaves it untouched.
+     * @returns true if existing target was overwritten.
+     */
+    private async transferTo(target: ElementType, overwrite: boolean, transfer: () => Promise<void>): Promise<boolean> {
+        if (target.isUnknown) {
+            await transfer();
+            return false;
+        }
+
+        if (!overwrite) {
+            throw Errors.ResourceAlreadyExists;
+        }
+
+        const restore = this.detachEntry(target);
+        try {
+            await transfer();
+        } catch (err) {
+            restore();
+            throw err;
+        }
+
+        try {
+            await this.deleteEntryRecords(target);
+        } catch (err) {
+            // target is replaced already, leftovers are reported by fsck and gc.
+            this.app.getLogger().error(".transferTo", "Failed to delete overwritten target", err);
+        }
+        return true;
+    }
 
     // serverside copy
     async _copy(pathFrom: v2.Path, pathTo: v2.Path, ctx: v2.CopyInfo, callback: v2.ReturnCallback<boolean>): Promise<void> {
-        const source = this.fs.getEntryByPath(pathFrom.toString());
+        const source = this.getEntry(pathFrom);
         const target = this.fs.getEntryByPath(pathTo.toString());
 
-        if (source.isUnknown || !target.isUnknown) {
+        if (source.isUnknown) {
             return callback(Errors.InvalidOperation);
         }
 
+        if (this.isReadOnly(pathTo) || (source.isFolder && VersionsView.isVersionsPath(pathFrom.toString()))) {
+            return callback(Errors.Forbidden);
+        }
+
+        // version copied over its own file is restored, so the current content becomes a version instead of being deleted.
+        const version = this.versions.getVersion(pathFrom.toString());
+        if (version && target.entry == version.file) {
+            try {
+                await this.app.getDiscordFileManager().restoreVersion(version.file, version.version);
+                this.app.getLogger().info(".copy", "Version restored: " + pathTo.toString());
+                return callback(undefined, true);
+            } catch (err) {
+                this.app.getLogger().error(".copy", "Error while restoring version: " + pathFrom.toString(), err);
+                return callback(err as Error);
+            }
+        }
+
+        const owner = this.getUsername(ctx.context);
+        const copiedSize = source.isFile ? (source.entry as FileBase).getSize() : ctx.context.headers.depth === 0 ? 0 : (source.entry as Folder).getTotalSize();
+        if (copiedSize > this.quota.getAvailableBytes(owner)) {
+            this.app.getLogger().info(".copy", "Quota exceeded: " + pathTo.toString());
+            return callback(Errors.InsufficientStorage);
+        }
+
         if (source.isFile) {
-            const sourceTyped = source.entry as FileBase;
-            const newFolder = this.fs.prepareFileHierarchy(pathTo.toString());
+            try {
+                const overwritten = await this.transferTo(target, ctx.overwrite, async () => {
+                    const newFolder = this.fs.prepareFileHierarchy(pathTo.toString());
+                    await this.copyFile(source.entry as FileBase, newFolder, pathTo.fileName(), owner);
+                });
+                this.app.getLogger().info(".copy", "File copied: " + pathTo.toString());
+                return callback(undefined, overwritten);
+            } catch (err) {
+                this.app.getLogger().error(".copy", "Error while copying file: " + pathTo.toString(), err);
+                return callback(err as Error);
+            }
+        }
 
-            const newFile = new RemoteFile(pathTo.fileName(), sourceTyped.getSize(), newFolder, sourceTyped.getCreationDate());
-            newFile.updateModifyDate();
+        if (source.isFolder) {
+            // COPY of a collection supports only "0" (folder without members) and "infinity", anything else is treated as infinity.
+            const depth = ctx.context.headers.depth === 0 ? 0 : -1;
+            const failures: IMemberFailure[] = [];
+            let overwritten: boolean;
+            try {
+                overwritten = await this.transferTo(target, ctx.overwrite, async () => {
+                    const newParent = this.fs.prepareFileHierarchy(pathTo.toString());
+                    await this.copyFolder(source.entry as Folder, newParent, pathTo.fileName(), depth, failures, owner);
+                });
+            } catch (err) {
+                this.app.getLogger().error(".copy", "Error while copying folder: " + pathTo.toString(), err);
+                return callback(err as Error);
+            }
 
-            const writeStream = await this.app.getDiscordFileManager().getUploadWritableStream(newFile as RemoteFile, sourceTyped.getSize(), {
-                onFinished: async () => {
-                    this.app.getLogger().info(".copy", "File uploaded: " + pathTo.toString());
-                    await this.app.getDiscordFileManager().postMetaFile(newFile as RemoteFile);
-                }
-            });
+            if (failures.length > 0) {
+                this.app.getLogger().error(".copy", "Folder copied partially: " + pathTo.toString(), failures.map(f => f.path));
+                writeMultiStatus(ctx.context, failures);
+            }
+            return callback(undefined, overwritten);
+        }
+    }
 
-            if (sourceTyped instanceof RamFile) {
-                sourceTyped.getReadable().pipe(writeStream);
-            } else {
-                const readStream = (await this.app.getDiscordFileManager().getDownloadableReadStream(sourceTyped as RemoteFile));
-                patchEmitter(readStream, "readStream", [/data/]);
-                readStream.pipe(writeStream);
+    /**
+     * Remote files are copied by metadata (chunks are shared), ram files are uploaded.
+     */
+    private async copyFile(source: FileBase, folder: Folder, name: string, owner: string | undefined): Promise<void> {
+        if (source instanceof RemoteFile) {
+            await this.app.getDiscordFileManager().copyFile(source, folder, name, owner);
+            return;
+        }
+
+        const newFile = new RemoteFile(name, source.getSize(), folder, source.getCreationDate());
+        newFile.updateModifyDate();
+        newFile.setOwner(owner);
 
+        const writeStream = await this.app.getDiscordFileManager().getUploadWritableStream(newFile, source.getSize(), {
+            onFinished: async () => {
+                this.app.getLogger().info(".copy", "File uploaded: " + newFile.getAbsolutePath());
+                await this.app.getDiscordFileManager().postMetaFile(newFile);
             }
+        });
 
-            writeStream.on("finish", () => {
-                this.app.getLogger().info(".copy", "File copied: " + pathTo.toString());
-                callback(undefined, true);
-            });
+        try {
+            await pipeline((source as RamFile).getReadable(), writeStream);
+        } catch (err) {
+            newFile.rm();
+            throw err;
+        }
+    }
 
-            writeStream.on("error", (err) => {
-                this.app.getLogger().error(".copy", "Error while copying file: " + pathTo.toString(), err);
-                callback(err);
-            });
+    /**
+     * Creates copy of the folder in the parent. Members which fail to copy are collected into failures, the rest is still copied.
+     * @param depth 0 to copy only the folder itself, -1 to copy all its members.
+     */
+    private async copyFolder(source: Folder, parent: Folder, name: string, depth: number, failures: IMemberFailure[], owner: string | undefined): Promise<void> {
+        const folder = parent.createFolder(name);
+        try {
+            await this.app.getDiscordFileManager().ensureFolderPosted(folder);
+        } catch (err) {
+            folder.removeThisFolder();
+            throw err;
+        }
 
+        if (depth == 0) {
+            return;
         }
 
-        if (source.isFolder) {
-            return callback(Errors.InvalidOperation); // TODO: implement
+        for (const file of [...source.getFiles()]) {
+            try {
+                await this.copyFile(file, folder, file.getFileName(), owner);
+            } catch (err) {
+                failures.push({ path: folder.getAbsolutePath() + file.getFileName(), error: err as Error });
+            }
+        }
+
+        for (const subFolder of [...source.getFolders()]) {
+            try {
+                await this.copyFolder(subFolder, folder, subFolder.getName(), depth, failures, owner);
+            } catch (err) {
+                failures.push({ path: folder.getAbsolutePath() + subFolder.getName() + "/", error: err as Error });
+            }
         }
     }
 
     // very, VERY dirty, TODO: clean up
     async _move(pathFrom: v2.Path, pathTo: v2.Path, ctx: v2.MoveInfo, callback: v2.ReturnCallback<boolean>): Promise<void> {
         this.app.getLogger().info(".move", pathFrom.toString(), pathTo.toString(), getContext(ctx));
+        // entries are restored from the trash by moving them out of it.
+        const trashRoot = Trash.isTrashPath(pathFrom.toString()) && this.fs.getEntryByPath(pathFrom.toString()).entry == this.trash.getFolder();
+        if (this.isReadOnly(pathTo) || VersionsView.isVersionsPath(pathFrom.toString()) || trashRoot) {
+            return callback(Errors.Forbidden);
+        }
+        // webdav-server checks only read privilege on the source, but moving removes the entry there like DELETE does.
+        if (!await this.checkPrivilegeAsync(ctx.context, pathFrom, "canWrite")) {
+            return callback(Errors.Forbidden);
+        }
 
         const sourceEntry = this.fs.getEntryByPath(pathFrom.toString());
         const targetEntry = this.fs.getEntryByPath(pathTo.toString());
 
-        if (sourceEntry.isUnknown || !targetEntry.isUnknown) {
+        if (sourceEntry.isUnknown) {
             return callback(Errors.InvalidOperation);
         }
 
         if (sourceEntry.isFile) {
             const file = sourceEntry.entry as FileBase;
-
-            const newFolder = this.fs.prepareFileHierarchy(pathTo.toString());
             const oldFolder = file.getFolder()!;
-            file.setFolder(newFolder);
-            file.setFileName(pathTo.fileName());
-
-            this.app.getLogger().info("pathTo: " + pathTo.fileName());
-            this.app.getLogger().info("absolutePath: " + newFolder.getAbsolutePath());
-            this.fs.moveFile(file, oldFolder, newFolder.getAbsolutePath());
-            if (file instanceof RemoteFile) {
-                await this.app.getDiscordFileManager().updateMetaFile(file);
+            const oldName = file.getFileName();
+
+            try {
+                const overwritten = await this.transferTo(targetEntry, ctx.overwrite, async () => {
+                    const newFolder = this.fs.prepareFileHierarchy(pathTo.toString());
+                    file.setFolder(newFolder);
+                    file.setFileName(pathTo.fileName());
+
+                    this.app.getLogger().info("pathTo: " + pathTo.fileName());
+                    this.app.getLogger().info("absolutePath: " + newFolder.getAbsolutePath());
+                    this.fs.moveFile(file, oldFolder, newFolder.getAbsolutePath());
+                    if (file instanceof RemoteFile) {
+                        const trashInfo = file.getTrashInfo();
+                        file.setTrashInfo(undefined);
+                        try {
+                            await this.app.getDiscordFileManager().updateMetaFile(file);
+                        } catch (err) {
+                            // record still has the old path.
+                            file.setFileName(oldName);
+                            this.fs.moveFile(file, newFolder, oldFolder.getAbsolutePath());
+                            file.setTrashInfo(trashInfo);
+                            throw err;
+                        }
+                    }
+                });
+                return callback(undefined, overwritten);
+            } catch (err) {
+                this.app.getLogger().error(".move", "Cannot move file " + pathFrom.toString(), err);
+                return callback(err as Error);
             }
-            return callback(undefined, true);
         }
 
         if (sourceEntry.isFolder) {
-            const oldFolder = sourceEntry.entry as Folder;
-            const newFolder = this.fs.prepareFolderHierarchy(pathTo.toString());
-
-            oldFolder.getFiles().forEach(file => {
-                newFolder.addFile(file);
-            });
-
-            newFolder.setFolders(oldFolder.getFolders(), true);
-
-            oldFolder.removeThisFolder();
-            oldFolder.setParentFolder(null);
-
-            // TODO: maybe paths should be cached only in client and let user do path managing manually to avoid this loop?
-            // or we should to extra table of folders and bind path to folderId to avoid this loop?
-            for (let file of newFolder.getallEntriesRecursiveThis()) {
-                if (file.isFile && file.entry instanceof RemoteFile) {
-                    await this.app.getDiscordFileManager().updateMetaFile(file.entry as RemoteFile);
-                }
+            const folder = sourceEntry.entry as Folder;
+            const oldParent = folder.getParent()!;
+            const oldName = folder.getName();
+
+            try {
+                const overwritten = await this.transferTo(targetEntry, ctx.overwrite, async () => {
+                    const newParent = this.fs.prepareFileHierarchy(pathTo.toString());
+                    folder.moveTo(newParent, pathTo.fileName());
+                    const trashInfo = folder.getTrashInfo();
+                    folder.setTrashInfo(undefined);
+
+                    // files reference folder by id, so only folder record has to be updated.
+                    if (folder.isPosted()) {
+                        try {
+                            await this.app.getDiscordFileManager().updateMetaFolder(folder);
+                        } catch (err) {
+                            folder.moveTo(oldParent, oldName);
+                            folder.setTrashInfo(trashInfo);
+                            throw err;
+                        }
+                    }
+                });
+                return callback(undefined, overwritten);
+            } catch (err) {
+                this.app.getLogger().error(".move", "Cannot move folder " + pathFrom.toString(), err);
+                return callback(err === Errors.ResourceAlreadyExists ? Errors.ResourceAlreadyExists : Errors.InvalidOperation);
             }
-
-            return callback(undefined, false)
         }
 
         return callback(Errors.InvalidOperation);
@@ -339,26 +676,52 @@ export default class WebdavFilesystemHandler extends v2.FileSystem {
 
     async _rename(pathFrom: v2.Path, newName: string, ctx: v2.RenameInfo, callback: v2.ReturnCallback<boolean>): Promise<void> {
         //this.log(ctx.context, ".rename", pathFrom + " | " + newName);
+        if (this.isReadOnly(pathFrom)) {
+            return callback(Errors.Forbidden);
+        }
         const entry = this.fs.getEntryByPath(pathFrom.toString());
         if (entry.isUnknown) {
             return callback(Errors.ResourceNotFound);
         }
 
         if (entry.isFolder) {
-            (entry.entry as Folder).setName(newName);
+            const folder = entry.entry as Folder;
+            if (folder.getParent()?.isSameNameExists(newName)) {
+                return callback(Errors.InvalidOperation);
+            }
+
+            const oldName = folder.getName();
+            folder.setName(newName);
+            if (folder.isPosted()) {
+                try {
+                    await this.app.getDiscordFileManager().updateMetaFolder(folder);
+                } catch (err) {
+                    // record still has the old name.
+                    folder.setName(oldName);
+                    this.app.getLogger().error(".rename", "Cannot rename folder " + pathFrom.toString(), err);
+                    return callback(err as Error);
+                }
+            }
             return callback(undefined, true);
         }
 
         const file = entry.entry as FileBase;
+        const oldName = file.getFileName();
         file.setFileName(newName);
         if (file instanceof RemoteFile) {
-            await this.app.getDiscordFileManager().updateMetaFile(file);
+            try {
+                await this.app.getDiscordFileManager().updateMetaFile(file);
+            } catch (err) {
+                file.setFileName(oldName);
+                this.app.getLogger().error(".rename", "Cannot rename file " + pathFrom.toString(), err);
+                return callback(err as Error);
+            }
         }
         return callback(undefined, true);
     }
 
     protected _lastModifiedDate(path: v2.Path, ctx: v2.LastModifiedDateInfo, callback: v2.ReturnCallback<number>): void {
-        const entry = this.fs.getEntryByPath(path.toString());
+        const entry = this.getEntry(path);
         if (entry.isUnknown) {
             return callback(Errors.ResourceNotFound);
         }
@@ -374,7 +737,7 @@ export default class WebdavFilesystemHandler extends v2.FileSystem {
     }
 
     protected _creationDate(path: v2.Path, ctx: v2.CreationDateInfo, callback: v2.ReturnCallback<number>): void {
-        const entry = this.fs.getEntryByPath(path.toString());
+        const entry = this.getEntry(path);
         if (entry.isUnknown) {
             return callback(Errors.ResourceNotFound);
         }
@@ -393,7 +756,7 @@ export default class WebdavFilesystemHandler extends v2.FileSystem {
 
     protected _etag(path: v2.Path, ctx: v2.ETagInfo, callback: v2.ReturnCallback<string>): void {
         this.app.getLogger().info(".etag", path.toString());
-        const entry = this.fs.getEntryByPath(path.toString());
+        const entry = this.getEntry(path);
         if (entry.isUnknown) {
             return callback(Errors.ResourceNotFound);
         }
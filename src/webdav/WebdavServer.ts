@@ -1,8 +1,18 @@
 import { HTTPCodes, v2 as webdav } from "webdav-server";
-import { Server, IncomingMessage, ServerResponse } from "http";
+import http, { Server, IncomingMessage, ServerResponse } from "http";
+import https from "https";
+import { Readable } from "stream";
 import { HTTPMethod } from "webdav-server/lib/index.v2";
 import DiscordFileStorageApp from "../DiscordFileStorageApp";
-import Folder from "../file/filesystem/Folder";
+import { isSatisfiableRange, parseByteRange } from "../stream-helpers/ByteRange.js";
+import AccessPrivilegeManager from "../access/AccessPrivilegeManager.js";
+import StoreAuthentication from "../auth/StoreAuthentication.js";
+import UserStore from "../auth/UserStore.js";
+import ShareLinks from "../share/ShareLinks.js";
+import ShareApi from "../share/ShareApi.js";
+import Trash from "../trash/Trash.js";
+import VersionsView from "./VersionsView.js";
+import { isBrowserRequest, parseSortOrder, readDirectoryEntries, renderDirectoryPage } from "./DirectoryPage.js";
 
 export interface IUserData {
     username: string;
@@ -10,87 +20,257 @@ export interface IUserData {
 }
 
 export interface ServerOptions extends webdav.WebDAVServerOptions {
-    users?: IUserData[];
+    userStore?: UserStore;
     enableAuth?: boolean;
+    htmlBrowser?: boolean; // default true.
 };
 
 export default class WebdavServer extends webdav.WebDAVServer {
+    private static readonly MAX_API_BODY = 64 * 1024;
+
     private app: DiscordFileStorageApp;
+    private shareLinks: ShareLinks;
+    private htmlBrowser: boolean;
     
     private constructor(options: ServerOptions, app: DiscordFileStorageApp) {
         super(options);
         this.app = app;
-        // this.setupBeforeRequestHandler();
+        this.shareLinks = new ShareLinks(app);
+        this.htmlBrowser = options.htmlBrowser ?? true;
+        this.setupRangeRequestHandler();
+        this.setupShareApiHandler();
+        this.setupBrowserHandler();
     }
 
     public static createServer(options: ServerOptions, app: DiscordFileStorageApp): WebdavServer {
-        const userManager = new webdav.SimpleUserManager();
-        const privManager = new webdav.SimplePathPrivilegeManager();
-        
-        if (options.users) {
-            options.users.forEach((user) => {
-                const webdavUser = userManager.addUser(user.username, user.password, true);
-                privManager.setRights(webdavUser, "/", ["all"]);
-            });
+        if (options.enableAuth && !options.userStore) {
+            throw new Error("Authentication is enabled, but there is no user store");
         }
 
         options.hostname = options.hostname || "0.0.0.0";
 
         return new WebdavServer({
-            privilegeManager: options.enableAuth ? privManager : undefined,
-            httpAuthentication: options.enableAuth ? new webdav.HTTPDigestAuthentication(userManager, "DICloud Server") : undefined,
+            // users are not administrators, so access rules apply to all of them.
+            privilegeManager: options.enableAuth ? new AccessPrivilegeManager(app) : undefined,
+            httpAuthentication: options.enableAuth ? new StoreAuthentication(options.userStore!) : undefined,
+            requireAuthentification: options.enableAuth,
             ...options,
         }, app);
     }
 
-    setupBeforeRequestHandler(){
+    /**
+     * Serves GET with a single byte range. Default handler opens the file from the start and skips bytes until the range, 
+     * here range is passed to the filesystem (see WebdavFilesystemHandler._openReadStream), so only needed chunks are downloaded.
+     * Multiple ranges are still served by default handler.
+     */
+    setupRangeRequestHandler() {
         const defaultGetHandler = this.methods.get;
-        
+
         this.method("GET", {
-            isValidFor: (ctx, type) => {
-                if(ctx.request.headers){
-                    return defaultGetHandler.isValidFor!(ctx, type);
-                }
-                return true;
-            },
+            isValidFor: defaultGetHandler.isValidFor,
 
             unchunked: (ctx, data, callback) => {
-                if (!ctx.request.headers["isSource"]){
+                const rangeHeader = ctx.headers.find("Range");
+                if (!rangeHeader || !parseByteRange(rangeHeader, Number.MAX_SAFE_INTEGER)) {
                     return defaultGetHandler.unchunked!(ctx, data, callback);
                 }
 
-                const e  = this.app.getFileSystem().getRoot().getEntryByPath(ctx.requested.path.toString());
-                if (!e.entry || !e.isFolder) {
+                const fail = (e: Error) => {
+                    if (!ctx.setCodeFromError(e)) {
+                        ctx.setCode(HTTPCodes.InternalServerError);
+                    }
+                    callback();
+                };
+
+                ctx.noBodyExpected(() => ctx.getResource((e, resource) => ctx.checkIfHeader(resource!, () => {
+                    const r = resource!;
+                    const targetSource = ctx.headers.isSource;
+                    r.type((e, type) => {
+                        if (e) {
+                            return fail(e);
+                        }
+                        if (!type!.isFile) {
+                            ctx.setCode(HTTPCodes.MethodNotAllowed);
+                            return callback();
+                        }
+
+                        r.size(targetSource, (e, size) => {
+                            if (e) {
+                                return fail(e);
+                            }
+
+                            const range = parseByteRange(rangeHeader, size!)!;
+                            if (!isSatisfiableRange(range, size!)) {
+                                ctx.setCode(416); // Range Not Satisfiable
+                                ctx.response.setHeader("Content-Range", "bytes */" + size);
+                                return callback();
+                            }
+
+                            r.mimeType(targetSource, (e, mimeType) => {
+                                if (e) {
+                                    return fail(e);
+                                }
+
+                                r.openReadStream(targetSource, (e, rstream) => {
+                                    if (e) {
+                                        return fail(e);
+                                    }
+
+                                    // error and end may both be emitted, request is finished once.
+                                    let finished = false;
+                                    const finish = () => {
+                                        if (!finished) {
+                                            finished = true;
+                                            callback();
+                                        }
+                                    };
+                                    rstream!.on("error", (e) => {
+                                        // status and part of the body are already sent, so client can only see the connection break.
+                                        if (!finished) {
+                                            ctx.response.destroy(e);
+                                        }
+                                        finish();
+                                    });
+                                    rstream!.on("end", finish);
+
+                                    ctx.setCode(HTTPCodes.PartialContent);
+                                    ctx.response.setHeader("Accept-Ranges", "bytes");
+                                    ctx.response.setHeader("Content-Type", mimeType!);
+                                    ctx.response.setHeader("Content-Length", (range.end - range.start + 1).toString());
+                                    ctx.response.setHeader("Content-Range", "bytes " + range.start + "-" + range.end + "/" + size);
+                                    rstream!.pipe(ctx.response);
+                                });
+                            });
+                        });
+                    });
+                })));
+            },
+        });
+    }
+
+    /**
+     * Routes /.shares requests to ShareApi, after authentication. Other requests go to the default handlers (GET with range handling).
+     */
+    setupShareApiHandler() {
+        const api = new ShareApi(this.app);
+
+        for (const name of ["get", "post", "delete"]) {
+            const defaultHandler = this.methods[name];
+            this.method(name.toUpperCase(), {
+                isValidFor: (ctx, type) => ShareApi.isApiPath(ctx.requested.path.toString()) || !defaultHandler.isValidFor || defaultHandler.isValidFor(ctx, type),
+
+                // POST (upload) is chunked, GET and DELETE are not.
+                chunked: defaultHandler.chunked && ((ctx, inputStream, callback) => {
+                    if (!ShareApi.isApiPath(ctx.requested.path.toString())) {
+                        return defaultHandler.chunked!(ctx, inputStream, callback);
+                    }
+                    this.readBody(inputStream).then((body) => api.handle(ctx, body, callback), () => {
+                        ctx.setCode(HTTPCodes.RequestEntityTooLarge);
+                        callback();
+                    });
+                }),
+
+                unchunked: defaultHandler.unchunked && ((ctx, data, callback) => {
+                    if (!ShareApi.isApiPath(ctx.requested.path.toString())) {
+                        return defaultHandler.unchunked!(ctx, data, callback);
+                    }
+                    api.handle(ctx, data, callback);
+                }),
+            });
+        }
+    }
+
+    /**
+     * Serves GET on folders from browsers with a html page of the folder (see DirectoryPage). 
+     * Requests which do not accept html go to the default handlers, so webdav clients are not affected.
+     */
+    setupBrowserHandler() {
+        const defaultGetHandler = this.methods.get;
+        const isBrowsing = (ctx: webdav.HTTPRequestContext) => this.htmlBrowser && isBrowserRequest(ctx);
+
+        this.method("GET", {
+            isValidFor: (ctx, type) => (isBrowsing(ctx) && !!type && type.isDirectory) || !defaultGetHandler.isValidFor || defaultGetHandler.isValidFor(ctx, type),
+
+            unchunked: (ctx, data, callback) => {
+                if (!isBrowsing(ctx)) {
                     return defaultGetHandler.unchunked!(ctx, data, callback);
                 }
 
-                const folder = e.entry as Folder;
-                
-                ctx.setCode(HTTPCodes.OK);
-                ctx.response.setHeader("Content-Type", "text/html");
-                let html = "<html><head><title>Index of " + ctx.requested.path.toString() + "</title></head><body><h1>Index of " + ctx.requested.path.toString() + "</h1><hr><pre>";
-                html += "<a href=\"../\">../</a><br>";
-
-                folder.getAllEntries().forEach((entry) => {
-                    if(entry.isFolder){
-                        html += "<a href=\"" + entry.entry?.getEntryName() + "/\">" + entry.entry?.getEntryName() + "/</a><br>";
-                    }else{
-                        html += "<a href=\"" + entry.entry?.getEntryName() + "\">" + entry.entry?.getEntryName() + "</a><br>";
+                ctx.getResource((e, resource) => resource!.type((e, type) => {
+                    if (e || !type!.isDirectory) {
+                        return defaultGetHandler.unchunked!(ctx, data, callback);
                     }
-                });
-
-                // footer: DICloud
-                html += "</pre><hr><address>DICloud Server</address></body></html>";
-                ctx.response.write(html)
 
-                callback();
+                    this.sendDirectoryPage(ctx, resource!).catch((err) => {
+                        if (!ctx.setCodeFromError(err)) {
+                            this.app.getLogger().error(".browser", "Directory page of " + resource!.path.toString() + " failed", err);
+                            ctx.setCode(HTTPCodes.InternalServerError);
+                        }
+                    }).then(callback);
+                }));
             },
+        });
+    }
 
+    private async sendDirectoryPage(ctx: webdav.HTTPRequestContext, resource: webdav.Resource): Promise<void> {
+        // links in the page are relative to the folder.
+        const url = new URL(ctx.request.url!, "http://localhost");
+        if (!url.pathname.endsWith("/")) {
+            ctx.setCode(HTTPCodes.MovedPermanently);
+            ctx.response.setHeader("Location", url.pathname + "/" + url.search);
+            return;
+        }
+
+        const path = ctx.requested.path.toString();
+        const entries = await readDirectoryEntries(ctx, resource.fs, resource.path);
+        // old versions and trash are changed by moves, not by uploads.
+        const writable = !VersionsView.isVersionsPath(path) && !Trash.isTrashPath(path) && await resource.fs.checkPrivilegeAsync(ctx, resource.path, "canWrite");
+
+        const html = renderDirectoryPage({
+            path: path.endsWith("/") ? path : path + "/",
+            entries,
+            sort: parseSortOrder(url.searchParams),
+            writable,
+        });
+
+        ctx.setCode(HTTPCodes.OK);
+        ctx.response.setHeader("Content-Type", "text/html; charset=utf-8");
+        ctx.response.setHeader("Content-Length", Buffer.byteLength(html));
+        ctx.response.setHeader("Cache-Control", "no-cache");
+        ctx.response.write(html);
+    }
+
+    private async readBody(stream: Readable): Promise<Buffer> {
+        const chunks: Buffer[] = [];
+        let size = 0;
+        for await (const chunk of stream) {
+            size += chunk.length;
+            if (size > WebdavServer.MAX_API_BODY) {
+                throw new Error("Request body is too large");
+            }
+            chunks.push(chunk);
+        }
+        return Buffer.concat(chunks);
+    }
+
+    private serveShareLink(req: IncomingMessage, res: ServerResponse): void {
+        this.app.getLogger().info(">>>> [" + req.socket.remoteAddress + "] > " + req.method + ", share link");
+        this.shareLinks.handle(req, res).catch((err) => {
+            this.app.getLogger().error(".shareLink", "Share link request failed", err);
+            if (!res.headersSent) {
+                res.statusCode = HTTPCodes.InternalServerError;
+                return res.end();
+            }
+            res.destroy(err);
         });
-        
     }
 
     async startAsync(): Promise<Server<typeof IncomingMessage, typeof ServerResponse>> {
+        if (!this.server) {
+            // share links are public, so they are served before webdav authentication.
+            const listener = (req: IncomingMessage, res: ServerResponse) => ShareLinks.isLinkPath(req.url ?? "") ? this.serveShareLink(req, res) : this.executeRequest(req, res);
+            this.server = this.options.https ? https.createServer(this.options.https, listener) : http.createServer(listener);
+        }
         return super.startAsync(this.options.port!);
     }
 
@@ -0,0 +1,98 @@
+import { assert } from "chai";
+import { describe, it } from "mocha";
+import safeSetup from "./helper.js";
+import AccessControl, { IAccessRecord } from "../src/access/AccessControl.js";
+import DiscordFileStorageApp from "../src/DiscordFileStorageApp.js";
+
+
+safeSetup();
+
+
+describe("DICloud access rules test", function () {
+	// rules are resolved without the app, it is needed only to save them.
+	const create = (record?: Partial<IAccessRecord>) => {
+		const access = new AccessControl(undefined as unknown as DiscordFileStorageApp);
+		if (record) {
+			access.load(new Map([["10", { ...AccessControl.getDefaultRecord(), ...record }]]));
+		}
+		return access;
+	};
+
+	it("lets everyone write everywhere without access record", function () {
+		const access = create();
+		assert.equal(access.getAccess("alice", "/"), "write");
+		assert.equal(access.getAccess("bob", "/docs/a.txt"), "write");
+	});
+
+	it("uses the longest matching path and prefers user over group over everyone", function () {
+		const access = create({
+			groups: { team: ["alice", "bob"] },
+			rules: [
+				{ path: "/", principal: "*", access: "read" },
+				{ path: "/docs", principal: "group:team", access: "write" },
+				{ path: "/docs", principal: "user:bob", access: "read" },
+				{ path: "/docs/private", principal: "*", access: "none" },
+			],
+		});
+
+		assert.equal(access.getAccess("carol", "/docs/a.txt"), "read");
+		assert.equal(access.getAccess("alice", "/docs/a.txt"), "write");
+		assert.equal(access.getAccess("bob", "/docs/a.txt"), "read");
+		assert.equal(access.getAccess("alice", "/docs/private/b.txt"), "none");
+		// prefix matches whole names only.
+		assert.equal(access.getAccess("alice", "/docs2"), "read");
+	});
+
+	it("lets users list folders on the way to their paths", function () {
+		const access = create({ rules: [{ path: "/projects/x", principal: "user:alice", access: "write" }] });
+
+		assert.equal(access.getAccess("alice", "/"), "read");
+		assert.equal(access.getAccess("alice", "/projects/"), "read");
+		assert.equal(access.getAccess("alice", "/projects/y"), "none");
+		assert.equal(access.getAccess("alice", "/projects/x/a.txt"), "write");
+		assert.equal(access.getAccess("bob", "/projects"), "none");
+	});
+
+	it("gives users own home folders and hides homes of others", function () {
+		const access = create({ homes: true });
+
+		assert.equal(access.getAccess("alice", "/home/alice/a.txt"), "write");
+		assert.equal(access.getAccess("alice", "/home/bob"), "none");
+		assert.equal(access.getAccess("alice", "/home"), "read");
+		assert.equal(access.getAccess("alice", "/shared"), "write");
+	});
+
+	it("never gives write access to read only principals", function () {
+		const access = create({ homes: true, groups: { guests: ["carol"] }, readOnly: ["group:guests"] });
+
+		assert.equal(access.getAccess("carol", "/shared"), "read");
+		assert.equal(access.getAccess("carol", "/home/carol"), "read");
+		assert.equal(access.getAccess("alice", "/shared"), "write");
+	});
+
+	it("validates and replaces rules", function () {
+		const access = create();
+		assert.throws(() => access.setRule("docs", "*", "read"));
+		assert.throws(() => access.setRule("/docs", "alice", "read"));
+		assert.throws(() => access.setRule("/docs", "*", "full" as any));
+
+		access.setRule("/docs/", "user:alice", "read");
+		access.setRule("/docs", "user:alice", "none");
+		assert.deepEqual(access.getRecord().rules.filter(rule => rule.path == "/docs"), [{ path: "/docs", principal: "user:alice", access: "none" }]);
+		assert.isTrue(access.removeRule("/docs", "user:alice"));
+		assert.isFalse(access.removeRule("/docs", "user:alice"));
+	});
+
+	it("takes the latest access record and ignores other records", function () {
+		const access = new AccessControl(undefined as unknown as DiscordFileStorageApp);
+		access.load(new Map<string, object>([
+			["900", { ...AccessControl.getDefaultRecord(), homes: true }],
+			["1000", { ...AccessControl.getDefaultRecord(), homes: false }],
+			["1100", { type: "folder", id: "f", name: "a", parentId: "root" }],
+		]));
+
+		assert.equal(access.getMessageId(), "1000");
+		assert.isFalse(access.getRecord().homes);
+	});
+
+});
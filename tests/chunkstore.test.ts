@@ -0,0 +1,114 @@
+import { assert } from "chai";
+import { before, after, describe, it } from "mocha";
+import sinon from "sinon";
+import fs from "fs";
+import path from "path";
+import safeSetup, { randomString, md5, readAll } from "./helper.js";
+import LocalChunkStore from "../src/chunk-store/LocalChunkStore.js";
+import ChunkDeleteQueue from "../src/chunk-store/ChunkDeleteQueue.js";
+import { IChunkInfo } from "../src/file/RemoteFile.js";
+
+
+safeSetup();
+
+
+describe("DICloud local chunk store test", function () {
+	const directory = path.join(".local", "chunks-" + randomString());
+	let store: LocalChunkStore;
+	let chunk: IChunkInfo;
+	const content = Buffer.from("Hello World! " + randomString(64));
+
+	before(() => {
+		store = new LocalChunkStore(directory);
+	});
+
+	after(() => {
+		fs.rmSync(directory, { recursive: true, force: true });
+	});
+
+	it("puts a chunk", async function () {
+		chunk = await store.putChunk(content, "1-hello");
+		assert.equal(chunk.length, content.length);
+		assert.isTrue(fs.existsSync(path.join(directory, chunk.id)));
+	});
+
+	it("reads the chunk back", async function () {
+		const stream = await store.getChunkStream(chunk);
+		assert.equal(md5(await readAll(stream)), md5(content));
+	});
+
+	it("lists stored chunks", async function () {
+		const chunks = await store.listChunks();
+		assert.equal(chunks.length, 1);
+		assert.equal(chunks[0].id, chunk.id);
+		assert.equal(chunks[0].length, content.length);
+	});
+
+	it("rejects chunk ids outside of the store directory", async function () {
+		try {
+			await store.getChunkStream({ ...chunk, id: "../" + chunk.id });
+		} catch (err) {
+			return;
+		}
+		assert.fail("chunk outside of the store was opened");
+	});
+
+	it("deletes the chunk", async function () {
+		await store.deleteChunk(chunk);
+		assert.equal((await store.listChunks()).length, 0);
+	});
+
+});
+
+
+describe("DICloud chunk delete queue test", function () {
+	const directory = path.join(".local", "chunks-" + randomString());
+	const queuePath = path.join(".local", "delete-queue-" + randomString() + ".json");
+	let store: LocalChunkStore;
+	let chunks: IChunkInfo[];
+
+	before(async () => {
+		store = new LocalChunkStore(directory);
+		chunks = [];
+		for (let i = 0; i < 3; i++) {
+			chunks.push(await store.putChunk(Buffer.from("chunk " + i), i + "-chunk"));
+		}
+	});
+
+	after(() => {
+		fs.rmSync(directory, { recursive: true, force: true });
+		fs.rmSync(queuePath, { force: true });
+	});
+
+	it("keeps chunks which failed to delete on disk", async function () {
+		const queue = new ChunkDeleteQueue(store, queuePath);
+		const deleteChunks = sinon.stub(store, "deleteChunks").rejects(new Error("offline"));
+		try {
+			queue.push(chunks);
+			await queue.whenIdle();
+		} finally {
+			deleteChunks.restore();
+			queue.stop();
+		}
+
+		assert.equal((await store.listChunks()).length, 3);
+		assert.deepEqual(new ChunkDeleteQueue(store, queuePath).getPending().map((c) => c.id), chunks.map((c) => c.id));
+	});
+
+	it("deletes queued chunks after restart", async function () {
+		const queue = new ChunkDeleteQueue(store, queuePath);
+		queue.start();
+		await queue.whenIdle();
+
+		assert.equal((await store.listChunks()).length, 0);
+		assert.isEmpty(new ChunkDeleteQueue(store, queuePath).getPending());
+	});
+
+	it("skips chunks which are gone already", async function () {
+		const queue = new ChunkDeleteQueue(store, queuePath);
+		queue.push(chunks.slice(0, 1));
+		await queue.whenIdle();
+		assert.isEmpty(queue.getPending());
+	});
+
+});
@@ -0,0 +1,116 @@
+import { assert } from "chai";
+import { before, after, describe, it } from "mocha";
+import fs from "fs";
+import path from "path";
+import crypto from "crypto";
+import sinon from "sinon";
+import safeSetup, { randomString, md5, readAll } from "./helper.js";
+import FileEncryption, { IFileEncryption } from "../src/encryption/FileEncryption.js";
+import LocalChunkStore from "../src/chunk-store/LocalChunkStore.js";
+import HttpStreamPool from "../src/stream-helpers/HttpStreamPool.js";
+import { IChunkInfo } from "../src/file/RemoteFile.js";
+
+
+safeSetup();
+
+// cheap kdf, default params are too slow for tests.
+const TEST_KDF = { N: 1024, r: 8, p: 1 };
+
+
+describe("DICloud file encryption test", function () {
+	const directory = path.join(".local", "encrypted-chunks-" + randomString());
+	const contents = [Buffer.from("first chunk " + randomString(64)), Buffer.from("second chunk " + randomString(64))];
+
+	let store: LocalChunkStore;
+	let encryption: IFileEncryption;
+	let chunks: IChunkInfo[] = [];
+
+	before(() => {
+		store = new LocalChunkStore(directory);
+	});
+
+	after(() => {
+		fs.rmSync(directory, { recursive: true, force: true });
+	});
+
+	it("encrypts chunks with per-file key", async function () {
+		const fileEncryption = new FileEncryption("password");
+		encryption = await fileEncryption.createFileEncryption(TEST_KDF);
+		const otherEncryption = await fileEncryption.createFileEncryption(TEST_KDF);
+		assert.notEqual(encryption.wrappedKey, otherEncryption.wrappedKey);
+
+		for (let i = 0; i < contents.length; i++) {
+			const encrypted = await fileEncryption.encryptChunk(encryption, i, contents[i]);
+			assert.equal(encrypted.data.length, contents[i].length);
+			assert.notEqual(md5(encrypted.data), md5(contents[i]));
+
+			const chunk = await store.putChunk(encrypted.data, "chunk-" + i);
+			chunk.tag = encrypted.tag;
+			chunks.push(chunk);
+		}
+	});
+
+	it("derives master key once and reuses the salt of stored files", async function () {
+		const scrypt = sinon.spy(crypto, "scrypt");
+		try {
+			const fileEncryption = new FileEncryption("password");
+			const first = await fileEncryption.createFileEncryption(TEST_KDF);
+			const second = await fileEncryption.createFileEncryption(TEST_KDF);
+			assert.equal(first.kdf.salt, second.kdf.salt);
+			assert.notEqual(first.wrappedKey, second.wrappedKey);
+			assert.equal(scrypt.callCount, 1);
+
+			// after restart salt is taken from stored file, files with own salt stay readable.
+			const restarted = new FileEncryption("password");
+			restarted.useKdf(first.kdf);
+			assert.equal((await restarted.createFileEncryption(TEST_KDF)).kdf.salt, first.kdf.salt);
+			assert.notEqual(encryption.kdf.salt, first.kdf.salt);
+			await restarted.createChunkDecryptor(encryption, 0, chunks[0].tag!);
+		} finally {
+			scrypt.restore();
+		}
+	});
+
+	it("decrypts chunks with key unwrapped from metadata", async function () {
+		const fileEncryption = new FileEncryption("password");
+		const stream = await new HttpStreamPool(chunks, 0, "encrypted", store, { chunkTransform: (chunk, index) => fileEncryption.createChunkDecryptor(encryption, index, chunk.tag!) }).getDownloadStream();
+
+		assert.equal(md5(await readAll(stream)), md5(Buffer.concat(contents)));
+	});
+
+	it("fails to unwrap key with wrong password", async function () {
+		const fileEncryption = new FileEncryption("wrong password");
+		try {
+			await fileEncryption.createChunkDecryptor(encryption, 0, chunks[0].tag!);
+		} catch (err) {
+			return;
+		}
+		assert.fail("key was unwrapped with wrong password");
+	});
+
+	it("detects modified chunk", async function () {
+		const chunkPath = path.join(directory, chunks[1].id);
+		const data = fs.readFileSync(chunkPath);
+		data[0] ^= 1;
+		fs.writeFileSync(chunkPath, data);
+
+		const fileEncryption = new FileEncryption("password");
+		const stream = await new HttpStreamPool(chunks, 0, "encrypted", store, { chunkTransform: (chunk, index) => fileEncryption.createChunkDecryptor(encryption, index, chunk.tag!) }).getDownloadStream();
+		try {
+			await readAll(stream);
+		} catch (err) {
+			return;
+		}
+		assert.fail("modified chunk was not detected");
+	});
+
+	it("detects reordered chunks", async function () {
+		const fileEncryption = new FileEncryption("password");
+		const decipher = await fileEncryption.createChunkDecryptor(encryption, 1, chunks[0].tag!);
+		const data = fs.readFileSync(path.join(directory, chunks[0].id));
+
+		decipher.update(data);
+		assert.throws(() => decipher.final());
+	});
+
+});
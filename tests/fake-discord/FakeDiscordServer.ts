@@ -0,0 +1,540 @@
+import http from "http";
+import { AddressInfo } from "net";
+import { WebSocket, WebSocketServer } from "ws";
+
+const DISCORD_EPOCH = BigInt(1420070400000);
+const API_PREFIX = "/api/v10";
+
+export interface IFakeAttachment {
+	id: string;
+	filename: string;
+	size: number;
+	url: string;
+	proxy_url: string;
+	content_type: string;
+}
+
+export interface IFakeMessage {
+	id: string;
+	channel_id: string;
+	content: string;
+	timestamp: string;
+	edited_timestamp: string | null;
+	attachments: IFakeAttachment[];
+}
+
+interface IFakeChannel {
+	id: string;
+	name: string;
+	type: number;
+	guild_id: string;
+	position: number;
+	messages: Map<string, IFakeMessage>;
+}
+
+interface IMultipartPart {
+	name: string;
+	filename?: string;
+	contentType?: string;
+	data: Buffer;
+}
+
+class FakeDiscordError extends Error {
+	public status: number;
+	public code: number;
+
+	constructor(status: number, code: number, message: string) {
+		super(message);
+		this.status = status;
+		this.code = code;
+	}
+}
+
+
+/**
+ * In-process stand-in for the subset of discord api used by DiscordFileStorageApp and DiscordFileManager.
+ * Serves REST api (under /api/v10), gateway (websocket on the same port) and "cdn" attachment urls.
+ * Everything is kept in memory, so every instance starts with an empty guild.
+ */
+export default class FakeDiscordServer {
+	public readonly token = "fake-discord-token";
+	public readonly guildId: string;
+
+	private server: http.Server;
+	private wss: WebSocketServer;
+	private baseUrl = "";
+	private lastSnowflake = BigInt(0);
+	private channels: Map<string, IFakeChannel> = new Map();
+	private attachments: Map<string, Buffer> = new Map();
+	private user: object;
+	private applicationId: string;
+	private bulkDeletes = 0;
+
+	constructor() {
+		this.guildId = this.nextSnowflake();
+		this.applicationId = this.nextSnowflake();
+		this.user = {
+			id: this.applicationId,
+			username: "dicloud-fake-bot",
+			discriminator: "0000",
+			avatar: null,
+			bot: true,
+		};
+
+		this.server = http.createServer((req, res) => this.handleRequest(req, res));
+		this.wss = new WebSocketServer({ server: this.server });
+		this.wss.on("connection", (ws) => this.handleGateway(ws));
+	}
+
+	/**
+	 * Starts listening on localhost.
+	 * @param port port to listen, 0 = random free port.
+	 * @returns base url of the server, for example http://127.0.0.1:1234
+	 */
+	public async start(port: number = 0): Promise<string> {
+		await new Promise<void>((resolve, reject) => {
+			this.server.once("error", reject);
+			this.server.listen(port, "127.0.0.1", () => resolve());
+		});
+
+		this.baseUrl = "http://127.0.0.1:" + (this.server.address() as AddressInfo).port;
+		return this.baseUrl;
+	}
+
+	public async stop(): Promise<void> {
+		this.wss.clients.forEach(client => client.terminate());
+		await new Promise<void>((resolve) => this.wss.close(() => resolve()));
+		await new Promise<void>((resolve) => this.server.close(() => resolve()));
+	}
+
+	/**
+	 * Url to pass as discord api base url (DISCORD_API_URL).
+	 */
+	public getApiUrl(): string {
+		return this.baseUrl + "/api";
+	}
+
+	/**
+	 * Number of bulk delete requests, so tests can check that messages were not deleted one by one.
+	 */
+	public getBulkDeleteCount(): number {
+		return this.bulkDeletes;
+	}
+
+	public getChannelByName(name: string): IFakeChannel | undefined {
+		return [...this.channels.values()].find(channel => channel.name == name);
+	}
+
+	public getMessages(channelId: string): IFakeMessage[] {
+		return this.sortedMessages(this.getChannel(channelId)).reverse();
+	}
+
+	private nextSnowflake(): string {
+		let id = (BigInt(Date.now()) - DISCORD_EPOCH) << BigInt(22);
+		if (id <= this.lastSnowflake) {
+			id = this.lastSnowflake + BigInt(1);
+		}
+		this.lastSnowflake = id;
+		return id.toString();
+	}
+
+	private snowflakeTimestamp(id: string): number {
+		return Number((BigInt(id) >> BigInt(22)) + DISCORD_EPOCH);
+	}
+
+	private sortedMessages(channel: IFakeChannel): IFakeMessage[] {
+		return [...channel.messages.values()].sort((a, b) => BigInt(a.id) < BigInt(b.id) ? -1 : 1);
+	}
+
+	private getChannel(channelId: string): IFakeChannel {
+		const channel = this.channels.get(channelId);
+		if (!channel) {
+			throw new FakeDiscordError(404, 10003, "Unknown Channel");
+		}
+		return channel;
+	}
+
+	private getMessage(channelId: string, messageId: string): IFakeMessage {
+		const message = this.getChannel(channelId).messages.get(messageId);
+		if (!message) {
+			throw new FakeDiscordError(404, 10008, "Unknown Message");
+		}
+		return message;
+	}
+
+	private channelToJson(channel: IFakeChannel): object {
+		return {
+			id: channel.id,
+			name: channel.name,
+			type: channel.type,
+			guild_id: channel.guild_id,
+			position: channel.position,
+			permission_overwrites: [],
+			parent_id: null,
+			nsfw: false,
+			topic: null,
+			rate_limit_per_user: 0,
+			last_message_id: null,
+		};
+	}
+
+	private messageToJson(message: IFakeMessage): object {
+		return {
+			...message,
+			author: this.user,
+			tts: false,
+			mention_everyone: false,
+			mentions: [],
+			mention_roles: [],
+			embeds: [],
+			components: [],
+			pinned: false,
+			type: 0,
+			flags: 0,
+		};
+	}
+
+	private guildToJson(): object {
+		return {
+			id: this.guildId,
+			name: "DICloud fake guild",
+			icon: null,
+			splash: null,
+			discovery_splash: null,
+			owner_id: this.applicationId,
+			afk_channel_id: null,
+			afk_timeout: 300,
+			verification_level: 0,
+			default_message_notifications: 0,
+			explicit_content_filter: 0,
+			roles: [],
+			emojis: [],
+			stickers: [],
+			features: [],
+			mfa_level: 0,
+			system_channel_id: null,
+			system_channel_flags: 0,
+			rules_channel_id: null,
+			vanity_url_code: null,
+			description: null,
+			banner: null,
+			premium_tier: 0,
+			preferred_locale: "en-US",
+			public_updates_channel_id: null,
+			nsfw_level: 0,
+			premium_progress_bar_enabled: false,
+		};
+	}
+
+	private createAttachments(channelId: string, parts: IMultipartPart[]): IFakeAttachment[] {
+		return parts.filter(part => part.filename !== undefined).map(part => {
+			const id = this.nextSnowflake();
+			const url = this.baseUrl + "/attachments/" + channelId + "/" + id + "/" + encodeURIComponent(part.filename!);
+			this.attachments.set(id, part.data);
+
+			return {
+				id,
+				filename: part.filename!,
+				size: part.data.length,
+				url,
+				proxy_url: url,
+				content_type: part.contentType ?? "application/octet-stream",
+			};
+		});
+	}
+
+	private handleGateway(ws: WebSocket) {
+		let sequence = 0;
+		const send = (op: number, d: any, t: string | null = null) => {
+			ws.send(JSON.stringify({ op, d, s: t ? ++sequence : null, t }));
+		};
+
+		ws.on("message", (raw) => {
+			const packet = JSON.parse(raw.toString());
+
+			switch (packet.op) {
+				case 1: // heartbeat
+					send(11, null);
+					break;
+				case 2: // identify
+					if (packet.d.token != this.token) {
+						ws.close(4004, "Authentication failed.");
+						return;
+					}
+
+					send(0, {
+						v: 10,
+						user: this.user,
+						guilds: [{ id: this.guildId, unavailable: true }],
+						session_id: this.nextSnowflake(),
+						resume_gateway_url: this.baseUrl.replace("http", "ws"),
+						application: { id: this.applicationId, flags: 0 },
+						shard: [0, 1],
+					}, "READY");
+
+					send(0, {
+						...this.guildToJson(),
+						joined_at: new Date().toISOString(),
+						large: false,
+						unavailable: false,
+						member_count: 1,
+						members: [],
+						channels: [...this.channels.values()].map(channel => this.channelToJson(channel)),
+						threads: [],
+						voice_states: [],
+						presences: [],
+						stage_instances: [],
+						guild_scheduled_events: [],
+					}, "GUILD_CREATE");
+					break;
+				case 6: // resume, sessions are not kept, so client have to identify again.
+					send(9, false);
+					break;
+			}
+		});
+
+		send(10, { heartbeat_interval: 41250 });
+	}
+
+	private async readBody(req: http.IncomingMessage): Promise<Buffer> {
+		const parts: Buffer[] = [];
+		for await (const part of req) {
+			parts.push(part);
+		}
+		return Buffer.concat(parts);
+	}
+
+	private parseMultipart(body: Buffer, boundary: string): IMultipartPart[] {
+		const delimiter = Buffer.from("--" + boundary);
+		const parts: IMultipartPart[] = [];
+
+		let start = body.indexOf(delimiter);
+		while (start != -1) {
+			start += delimiter.length;
+			if (body.subarray(start, start + 2).toString() == "--") {
+				break;
+			}
+			start += 2; // \r\n after delimiter
+
+			const end = body.indexOf(delimiter, start);
+			if (end == -1) {
+				break;
+			}
+
+			const part = body.subarray(start, end - 2); // \r\n before next delimiter
+			const headerEnd = part.indexOf("\r\n\r\n");
+			const headers = part.subarray(0, headerEnd).toString();
+
+			parts.push({
+				name: /;\s*name="([^"]*)"/i.exec(headers)?.[1] ?? "",
+				filename: /;\s*filename="([^"]*)"/i.exec(headers)?.[1],
+				contentType: /content-type:\s*([^\r\n]+)/i.exec(headers)?.[1],
+				data: part.subarray(headerEnd + 4),
+			});
+			start = end;
+		}
+
+		return parts;
+	}
+
+	// returns json payload and uploaded files for both json and multipart bodies.
+	private async readPayload(req: http.IncomingMessage): Promise<{ payload: any, files: IMultipartPart[] }> {
+		const body = await this.readBody(req);
+		const contentType = req.headers["content-type"] ?? "";
+		const boundary = /boundary=(?:"([^"]+)"|([^;]+))/i.exec(contentType);
+
+		if (!boundary) {
+			return { payload: body.length > 0 ? JSON.parse(body.toString()) : {}, files: [] };
+		}
+
+		const parts = this.parseMultipart(body, boundary[1] ?? boundary[2]);
+		const payloadPart = parts.find(part => part.name == "payload_json");
+		return {
+			payload: payloadPart ? JSON.parse(payloadPart.data.toString()) : {},
+			files: parts.filter(part => part.name != "payload_json"),
+		};
+	}
+
+	private async handleRequest(req: http.IncomingMessage, res: http.ServerResponse) {
+		const url = new URL(req.url!, this.baseUrl);
+
+		const reply = (status: number, data?: any) => {
+			if (data === undefined) {
+				res.writeHead(status);
+				return res.end();
+			}
+			res.writeHead(status, { "Content-Type": "application/json" });
+			res.end(JSON.stringify(data));
+		};
+
+		try {
+			const cdnMatch = /^\/attachments\/\d+\/(\d+)\/[^/]+$/.exec(url.pathname);
+			if (cdnMatch && req.method == "GET") {
+				const data = this.attachments.get(cdnMatch[1]);
+				if (!data) {
+					return reply(404, { message: "Not Found" });
+				}
+				// like discord cdn, supports single "bytes=start-end" range.
+				const range = /^bytes=(\d+)-(\d+)$/.exec(req.headers.range ?? "");
+				if (range) {
+					const start = parseInt(range[1], 10);
+					const end = Math.min(parseInt(range[2], 10), data.length - 1);
+					res.writeHead(206, { "Content-Type": "application/octet-stream", "Content-Length": end - start + 1, "Content-Range": `bytes ${start}-${end}/${data.length}` });
+					return res.end(data.subarray(start, end + 1));
+				}
+				res.writeHead(200, { "Content-Type": "application/octet-stream", "Content-Length": data.length });
+				return res.end(data);
+			}
+
+			if (!url.pathname.startsWith(API_PREFIX)) {
+				return reply(404, { message: "404: Not Found", code: 0 });
+			}
+
+			if (req.headers.authorization != "Bot " + this.token) {
+				return reply(401, { message: "401: Unauthorized", code: 0 });
+			}
+
+			const route = url.pathname.substring(API_PREFIX.length);
+			const method = req.method!;
+			let match: RegExpExecArray | null;
+
+			if (method == "GET" && route == "/gateway/bot") {
+				return reply(200, {
+					url: this.baseUrl.replace("http", "ws"),
+					shards: 1,
+					session_start_limit: { total: 1000, remaining: 1000, reset_after: 0, max_concurrency: 1 },
+				});
+			}
+
+			if ((match = /^\/guilds\/(\d+)(\/channels)?$/.exec(route))) {
+				if (match[1] != this.guildId) {
+					throw new FakeDiscordError(404, 10004, "Unknown Guild");
+				}
+
+				if (!match[2] && method == "GET") {
+					return reply(200, this.guildToJson());
+				}
+
+				if (match[2] && method == "GET") {
+					return reply(200, [...this.channels.values()].map(channel => this.channelToJson(channel)));
+				}
+
+				if (match[2] && method == "POST") {
+					const { payload } = await this.readPayload(req);
+					const channel: IFakeChannel = {
+						id: this.nextSnowflake(),
+						name: payload.name,
+						type: payload.type ?? 0,
+						guild_id: this.guildId,
+						position: this.channels.size,
+						messages: new Map(),
+					};
+					this.channels.set(channel.id, channel);
+					return reply(201, this.channelToJson(channel));
+				}
+			}
+
+			if ((match = /^\/channels\/(\d+)$/.exec(route)) && method == "GET") {
+				return reply(200, this.channelToJson(this.getChannel(match[1])));
+			}
+
+			if ((match = /^\/channels\/(\d+)\/messages$/.exec(route))) {
+				const channel = this.getChannel(match[1]);
+
+				if (method == "GET") {
+					const limit = Math.min(parseInt(url.searchParams.get("limit") ?? "50"), 100);
+					const before = url.searchParams.get("before");
+					const after = url.searchParams.get("after");
+					let messages = this.sortedMessages(channel);
+
+					if (after) {
+						// oldest messages right after the given one, but returned newest first as discord does.
+						messages = messages.filter(msg => BigInt(msg.id) > BigInt(after)).slice(0, limit).reverse();
+					} else {
+						if (before) {
+							messages = messages.filter(msg => BigInt(msg.id) < BigInt(before));
+						}
+						messages = messages.reverse().slice(0, limit);
+					}
+
+					return reply(200, messages.map(msg => this.messageToJson(msg)));
+				}
+
+				if (method == "POST") {
+					const { payload, files } = await this.readPayload(req);
+					const message: IFakeMessage = {
+						id: this.nextSnowflake(),
+						channel_id: channel.id,
+						content: payload.content ?? "",
+						timestamp: new Date().toISOString(),
+						edited_timestamp: null,
+						attachments: [],
+					};
+					message.attachments = this.createAttachments(channel.id, files);
+					channel.messages.set(message.id, message);
+					return reply(200, this.messageToJson(message));
+				}
+			}
+
+			if ((match = /^\/channels\/(\d+)\/messages\/bulk-delete$/.exec(route)) && method == "POST") {
+				const channel = this.getChannel(match[1]);
+				const { payload } = await this.readPayload(req);
+				const ids: string[] = payload.messages ?? [];
+				if (ids.length < 2 || ids.length > 100) {
+					throw new FakeDiscordError(400, 50016, "You must provide at least 2 and fewer than 100 messages to delete.");
+				}
+				if (ids.some(id => Date.now() - this.snowflakeTimestamp(id) > 14 * 24 * 60 * 60 * 1000)) {
+					throw new FakeDiscordError(400, 50034, "You can only bulk delete messages that are under 14 days old.");
+				}
+
+				// unknown messages are skipped.
+				for (const id of ids) {
+					channel.messages.get(id)?.attachments.forEach(a => this.attachments.delete(a.id));
+					channel.messages.delete(id);
+				}
+				this.bulkDeletes++;
+				return reply(204);
+			}
+
+			if ((match = /^\/channels\/(\d+)\/messages\/(\d+)$/.exec(route))) {
+				const message = this.getMessage(match[1], match[2]);
+
+				if (method == "GET") {
+					return reply(200, this.messageToJson(message));
+				}
+
+				if (method == "PATCH") {
+					const { payload, files } = await this.readPayload(req);
+					if (payload.content !== undefined) {
+						message.content = payload.content;
+					}
+
+					// attachments array lists existing attachments to keep, new files replace everything else.
+					if (Array.isArray(payload.attachments)) {
+						const keep = new Set(payload.attachments.map((a: any) => a.id.toString()));
+						message.attachments.filter(a => !keep.has(a.id)).forEach(a => this.attachments.delete(a.id));
+						message.attachments = message.attachments.filter(a => keep.has(a.id));
+					}
+					message.attachments = message.attachments.concat(this.createAttachments(match[1], files));
+					message.edited_timestamp = new Date().toISOString();
+					return reply(200, this.messageToJson(message));
+				}
+
+				if (method == "DELETE") {
+					message.attachments.forEach(a => this.attachments.delete(a.id));
+					this.getChannel(match[1]).messages.delete(message.id);
+					return reply(204);
+				}
+			}
+
+			return reply(404, { message: "404: Not Found", code: 0 });
+		} catch (err) {
+			if (err instanceof FakeDiscordError) {
+				return reply(err.status, { message: err.message, code: err.code });
+			}
+			console.error(err);
+			return reply(500, { message: "500: Internal Server Error", code: 0 });
+		}
+	}
+
+}
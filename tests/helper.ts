@@ -1,4 +1,5 @@
 import crypro from "crypto";
+import { Readable } from "stream";
 
 
 export async function sleep(t: number) {
@@ -21,6 +22,14 @@ export function md5(buffer: Buffer) {
 	return crypro.createHash("md5").update(buffer).digest("hex");
 }
 
+export async function readAll(stream: Readable): Promise<Buffer> {
+	const parts: Buffer[] = [];
+	for await (const part of stream) {
+		parts.push(part);
+	}
+	return Buffer.concat(parts);
+}
+
 export default function safeSetup(){
 	
 	process.on("unhandledRejection", (reason, promise) => {
@@ -0,0 +1,109 @@
+import { assert } from "chai";
+import { after, describe, it } from "mocha";
+import fs from "fs";
+import path from "path";
+import { spawnSync } from "child_process";
+import safeSetup, { randomString } from "./helper.js";
+import MetadataJournal from "../src/metadata/MetadataJournal.js";
+
+
+safeSetup();
+
+
+describe("DICloud metadata journal test", function () {
+	const journalPath = path.join(".local", "journal-" + randomString() + ".jsonl");
+
+	after(() => {
+		fs.rmSync(journalPath, { force: true });
+		fs.rmSync(journalPath + ".lock", { force: true });
+	});
+
+	it("keeps records and cursor between loads", function () {
+		const journal = new MetadataJournal(journalPath);
+		journal.load("100");
+		journal.put("5", { filename: "a" });
+		journal.put("7", { filename: "b" });
+		journal.put("5", { filename: "a2" });
+		journal.delete("7");
+		journal.setLastMessageId("7");
+
+		const reloaded = new MetadataJournal(journalPath);
+		reloaded.load("100");
+		assert.equal(reloaded.getRecords().size, 1);
+		assert.deepEqual(reloaded.getRecords().get("5"), { filename: "a2" });
+		assert.equal(reloaded.getLastMessageId(), "7");
+	});
+
+	it("never moves cursor back", function () {
+		const journal = new MetadataJournal(journalPath);
+		journal.load("100");
+		journal.setLastMessageId("10");
+		journal.setLastMessageId("9");
+		assert.equal(journal.getLastMessageId(), "10");
+	});
+
+	it("compacts without losing records", function () {
+		const journal = new MetadataJournal(journalPath);
+		journal.load("100");
+		journal.compact();
+
+		const lines = fs.readFileSync(journalPath, "utf-8").trim().split("\n");
+		assert.equal(lines.length, 3); // header, record, cursor
+
+		const reloaded = new MetadataJournal(journalPath);
+		reloaded.load("100");
+		assert.equal(reloaded.getRecords().size, 1);
+		assert.equal(reloaded.getLastMessageId(), "10");
+	});
+
+	it("skips broken last line", function () {
+		fs.appendFileSync(journalPath, '{"op":"put","id":"11","da');
+
+		const journal = new MetadataJournal(journalPath);
+		journal.load("100");
+		assert.equal(journal.getRecords().size, 1);
+	});
+
+	it("discards journal of other channel", function () {
+		const journal = new MetadataJournal(journalPath);
+		journal.load("200");
+		assert.equal(journal.getRecords().size, 0);
+		assert.isUndefined(journal.getLastMessageId());
+	});
+
+	it("keeps edit times of records", function () {
+		const journal = new MetadataJournal(journalPath);
+		journal.load("300");
+		journal.put("1", { filename: "a" }, 1000);
+		journal.put("2", { filename: "b" });
+		journal.compact();
+
+		const reloaded = new MetadataJournal(journalPath);
+		reloaded.load("300");
+		assert.equal(reloaded.getEditedAt("1"), 1000);
+		assert.isUndefined(reloaded.getEditedAt("2"));
+	});
+
+	it("is read-only while other process holds the lock", function () {
+		const before = fs.readFileSync(journalPath, "utf-8");
+		fs.writeFileSync(journalPath + ".lock", String(process.ppid));
+
+		const journal = new MetadataJournal(journalPath);
+		journal.load("300");
+		assert.isTrue(journal.isReadOnly());
+		journal.put("3", { filename: "c" });
+		journal.compact();
+		assert.isTrue(journal.getRecords().has("3"));
+		assert.equal(fs.readFileSync(journalPath, "utf-8"), before);
+
+		// lock of an exited process is taken over.
+		fs.writeFileSync(journalPath + ".lock", String(spawnSync(process.execPath, ["-e", ""]).pid));
+		const writer = new MetadataJournal(journalPath);
+		writer.load("300");
+		assert.isFalse(writer.isReadOnly());
+		assert.equal(fs.readFileSync(journalPath + ".lock", "utf-8"), String(process.pid));
+		writer.close();
+		assert.isFalse(fs.existsSync(journalPath + ".lock"));
+	});
+
+});
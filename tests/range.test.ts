@@ -0,0 +1,103 @@
+import { assert } from "chai";
+import { before, after, describe, it } from "mocha";
+import fs from "fs";
+import path from "path";
+import safeSetup, { randomString, md5, readAll } from "./helper.js";
+import LocalChunkStore from "../src/chunk-store/LocalChunkStore.js";
+import HttpStreamPool from "../src/stream-helpers/HttpStreamPool.js";
+import FileEncryption, { IFileEncryption } from "../src/encryption/FileEncryption.js";
+import { isSatisfiableRange, parseByteRange } from "../src/stream-helpers/ByteRange.js";
+import { IChunkInfo } from "../src/file/RemoteFile.js";
+
+
+safeSetup();
+
+
+describe("DICloud byte range test", function () {
+
+	describe("Parses Range header", function () {
+		it("parses start-end, start- and suffix ranges", function () {
+			assert.deepEqual(parseByteRange("bytes=0-99", 1000), { start: 0, end: 99 });
+			assert.deepEqual(parseByteRange("bytes=900-", 1000), { start: 900, end: 999 });
+			assert.deepEqual(parseByteRange("bytes=-100", 1000), { start: 900, end: 999 });
+			assert.deepEqual(parseByteRange("bytes=500-5000", 1000), { start: 500, end: 999 });
+		});
+
+		it("ignores multiple and invalid ranges", function () {
+			assert.isUndefined(parseByteRange("bytes=0-1,5-6", 1000));
+			assert.isUndefined(parseByteRange("bytes=5-1", 1000));
+			assert.isUndefined(parseByteRange("items=0-1", 1000));
+			assert.isUndefined(parseByteRange(undefined, 1000));
+		});
+
+		it("detects unsatisfiable ranges", function () {
+			assert.isFalse(isSatisfiableRange(parseByteRange("bytes=1000-", 1000)!, 1000));
+			assert.isFalse(isSatisfiableRange(parseByteRange("bytes=-0", 1000)!, 1000));
+			assert.isTrue(isSatisfiableRange(parseByteRange("bytes=999-", 1000)!, 1000));
+		});
+	});
+
+	describe("Downloads only needed chunks", function () {
+		const directory = path.join(".local", "range-chunks-" + randomString());
+		const contents = [Buffer.from(randomString(100)), Buffer.from(randomString(100)), Buffer.from(randomString(100))];
+		const whole = Buffer.concat(contents);
+
+		let store: LocalChunkStore;
+		let chunks: IChunkInfo[] = [];
+		let encryptedChunks: IChunkInfo[] = [];
+		let fileEncryption: FileEncryption;
+		let encryption: IFileEncryption;
+		let requested: string[] = [];
+
+		before(async () => {
+			store = new LocalChunkStore(directory);
+			fileEncryption = new FileEncryption("password");
+			encryption = await fileEncryption.createFileEncryption({ N: 1024, r: 8, p: 1 });
+
+			for (let i = 0; i < contents.length; i++) {
+				chunks.push(await store.putChunk(contents[i], "plain-" + i));
+
+				const encrypted = await fileEncryption.encryptChunk(encryption, i, contents[i]);
+				const chunk = await store.putChunk(encrypted.data, "encrypted-" + i);
+				chunk.tag = encrypted.tag;
+				encryptedChunks.push(chunk);
+			}
+
+			const getChunkStream = store.getChunkStream.bind(store);
+			store.getChunkStream = (chunk, range) => {
+				requested.push(chunk.id);
+				return getChunkStream(chunk, range);
+			};
+		});
+
+		after(() => {
+			fs.rmSync(directory, { recursive: true, force: true });
+		});
+
+		it("reads range inside of a single chunk", async function () {
+			requested = [];
+			const data = await readAll(await new HttpStreamPool(chunks, whole.length, "plain", store, { range: { start: 110, end: 149 } }).getDownloadStream());
+
+			assert.equal(md5(data), md5(whole.subarray(110, 150)));
+			assert.deepEqual(requested, [chunks[1].id]);
+		});
+
+		it("reads range across chunks", async function () {
+			requested = [];
+			const data = await readAll(await new HttpStreamPool(chunks, whole.length, "plain", store, { range: { start: 150, end: 299 } }).getDownloadStream());
+
+			assert.equal(md5(data), md5(whole.subarray(150, 300)));
+			assert.deepEqual(requested, [chunks[1].id, chunks[2].id]);
+		});
+
+		it("reads range of encrypted file", async function () {
+			requested = [];
+			const transform = (chunk: IChunkInfo, index: number) => fileEncryption.createChunkDecryptor(encryption, index, chunk.tag!);
+			const data = await readAll(await new HttpStreamPool(encryptedChunks, whole.length, "encrypted", store, { chunkTransform: transform, range: { start: 50, end: 249 } }).getDownloadStream());
+
+			assert.equal(md5(data), md5(whole.subarray(50, 250)));
+			assert.deepEqual(requested, encryptedChunks.map(c => c.id));
+		});
+	});
+
+});
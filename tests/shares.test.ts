@@ -0,0 +1,65 @@
+import { assert } from "chai";
+import { after, describe, it } from "mocha";
+import fs from "fs";
+import path from "path";
+import safeSetup, { randomString } from "./helper.js";
+import ShareStore from "../src/share/ShareStore.js";
+
+
+safeSetup();
+
+
+describe("DICloud share store test", function () {
+	const sharesPath = path.join(".local", "shares-" + randomString() + ".json");
+
+	after(() => {
+		fs.rmSync(sharesPath, { force: true });
+	});
+
+	it("signs tokens and rejects forged ones after reload", async function () {
+		const store = new ShareStore(sharesPath);
+		const share = await store.createShare({ type: "file", id: "100" }, "/a.txt", "alice");
+		const token = store.getToken(share);
+
+		const reloaded = new ShareStore(sharesPath);
+		assert.equal(reloaded.getShareByToken(token)?.id, share.id);
+		assert.isUndefined(reloaded.getShareByToken(share.id));
+		assert.isUndefined(reloaded.getShareByToken(share.id + "." + "A".repeat(43)));
+		assert.isUndefined(new ShareStore(path.join(".local", "shares-" + randomString() + ".json")).getShareByToken(token));
+	});
+
+	it("exhausts shares by expiry and download limit", async function () {
+		const store = new ShareStore(sharesPath);
+		const limited = await store.createShare({ type: "folder", id: "f" }, "/docs/", undefined, { maxDownloads: 2 });
+		assert.isTrue(store.takeDownload(limited));
+		assert.isFalse(store.isExhausted(limited));
+		assert.isTrue(store.takeDownload(limited));
+		assert.isTrue(store.isExhausted(limited));
+		assert.isFalse(store.takeDownload(limited));
+		store.releaseDownload(limited);
+		assert.equal(new ShareStore(sharesPath).getShare(limited.id)?.downloads, 1);
+
+		const expiring = await store.createShare({ type: "folder", id: "f" }, "/docs/", undefined, { expiresAt: new Date(Date.now() + 60000) });
+		assert.isFalse(store.isExhausted(expiring));
+		assert.isTrue(store.isExhausted(expiring, new Date(Date.now() + 120000)));
+
+		let error: unknown;
+		await store.createShare({ type: "folder", id: "f" }, "/docs/", undefined, { maxDownloads: 0 }).catch((err) => error = err);
+		assert.instanceOf(error, Error);
+	});
+
+	it("checks passwords and revokes shares", async function () {
+		const store = new ShareStore(sharesPath);
+		const share = await store.createShare({ type: "file", id: "100" }, "/a.txt", "bob", { password: "p@ss" });
+		assert.notInclude(fs.readFileSync(sharesPath, "utf-8"), "p@ss");
+		assert.isTrue(await store.verifyPassword(share, "p@ss"));
+		assert.isFalse(await store.verifyPassword(share, "pass"));
+		assert.isFalse(await store.verifyPassword(share, undefined));
+
+		assert.deepEqual(store.getShares("bob").map((s) => s.id), [share.id]);
+		assert.isTrue(store.revokeShare(share.id));
+		assert.isFalse(store.revokeShare(share.id));
+		assert.isUndefined(new ShareStore(sharesPath).getShare(share.id));
+	});
+
+});
@@ -0,0 +1,102 @@
+import { assert } from "chai";
+import { before, after, describe, it } from "mocha";
+import fs from "fs";
+import path from "path";
+import crypto from "crypto";
+import safeSetup, { randomString, md5, readAll, sleep } from "./helper.js";
+import LocalChunkStore from "../src/chunk-store/LocalChunkStore.js";
+import HttpStreamPool, { IChunkProgress } from "../src/stream-helpers/HttpStreamPool.js";
+import { IChunkInfo } from "../src/file/RemoteFile.js";
+
+
+safeSetup();
+
+
+describe("DICloud parallel chunk download test", function () {
+	const directory = path.join(".local", "pool-chunks-" + randomString());
+	// bigger than stream highWaterMark, so backpressure can be observed.
+	const contents = [0, 1, 2, 3, 4].map(() => crypto.randomBytes(64 * 1024));
+	const whole = Buffer.concat(contents);
+
+	let store: LocalChunkStore;
+	let chunks: IChunkInfo[] = [];
+	let requested: number[] = [];
+	let active = 0;
+	let maxActive = 0;
+
+	before(async () => {
+		store = new LocalChunkStore(directory);
+		for (let i = 0; i < contents.length; i++) {
+			chunks.push(await store.putChunk(contents[i], "chunk-" + i));
+		}
+
+		// first chunks answer slower, so they are finished out of order.
+		const getChunkStream = store.getChunkStream.bind(store);
+		store.getChunkStream = async (chunk, range) => {
+			const index = chunks.findIndex(c => c.id == chunk.id);
+			requested.push(index);
+			active++;
+			maxActive = Math.max(maxActive, active);
+
+			await sleep((contents.length - index) * 10);
+			const stream = await getChunkStream(chunk, range);
+			stream.once("close", () => active--);
+			return stream;
+		};
+	});
+
+	after(() => {
+		fs.rmSync(directory, { recursive: true, force: true });
+	});
+
+	it("emits chunks in order when they are downloaded out of order", async function () {
+		requested = [];
+		maxActive = 0;
+		const data = await readAll(await new HttpStreamPool(chunks, whole.length, "parallel", store, { concurrency: 3 }).getDownloadStream());
+
+		assert.equal(md5(data), md5(whole));
+		assert.equal(maxActive, 3);
+	});
+
+	it("reports per-chunk progress", async function () {
+		const stream = await new HttpStreamPool(chunks, whole.length, "progress", store, { concurrency: 2 }).getDownloadStream();
+		let last: IChunkProgress[] = [];
+		let lastReceived = 0;
+		stream.on("progress", (received: number, total: number, progress: IChunkProgress[]) => {
+			assert.equal(total, whole.length);
+			lastReceived = received;
+			last = progress;
+		});
+
+		await readAll(stream);
+		assert.equal(lastReceived, whole.length);
+		assert.deepEqual(last.map(p => p.state), ["done", "done", "done", "done", "done"]);
+		assert.deepEqual(last.map(p => p.received), contents.map(c => c.length));
+	});
+
+	it("does not download ahead when client does not read", async function () {
+		requested = [];
+		const stream = await new HttpStreamPool(chunks, whole.length, "slow client", store, { concurrency: 2 }).getDownloadStream();
+		stream.pause();
+		stream.on("data", () => {});
+
+		await sleep(200);
+		assert.deepEqual(requested.sort(), [0, 1]);
+
+		stream.resume();
+		await new Promise(resolve => stream.once("end", resolve));
+		assert.deepEqual(requested.sort(), [0, 1, 2, 3, 4]);
+	});
+
+	it("aborts other downloads on error", async function () {
+		const broken = [...chunks];
+		broken[1] = { ...chunks[1], id: "missing-chunk" };
+		try {
+			await readAll(await new HttpStreamPool(broken, whole.length, "broken", store, { concurrency: 3 }).getDownloadStream());
+		} catch (err) {
+			return;
+		}
+		assert.fail("missing chunk was not reported");
+	});
+
+});
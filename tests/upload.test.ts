@@ -0,0 +1,269 @@
+import { assert } from "chai";
+import { before, after, describe, it } from "mocha";
+import fs from "fs";
+import path from "path";
+import crypto from "crypto";
+import { Readable } from "stream";
+import { pipeline } from "stream/promises";
+import safeSetup, { randomString, md5, sleep, readAll } from "./helper.js";
+import LocalChunkStore from "../src/chunk-store/LocalChunkStore.js";
+import DiscordFileManager from "../src/RemoteFileManager.js";
+import DiscordFileStorageApp from "../src/DiscordFileStorageApp.js";
+import RemoteFile from "../src/file/RemoteFile.js";
+import Folder from "../src/file/filesystem/Folder.js";
+import UploadSessionStore from "../src/upload/UploadSessionStore.js";
+import { getRetryAfter, retry } from "../src/helper/Retry.js";
+
+
+safeSetup();
+
+
+describe("DICloud parallel chunk upload test", function () {
+	const directory = path.join(".local", "upload-chunks-" + randomString());
+	const chunkSize = 64 * 1024;
+	const whole = crypto.randomBytes(chunkSize * 5 + 1000);
+
+	let store: LocalChunkStore;
+	let sessions: UploadSessionStore;
+	let failure: ((call: number) => Error | undefined) = () => undefined;
+	let active = 0;
+	let maxActive = 0;
+	let putCalls = 0;
+
+	function createManager(concurrency: number, retries = 0, encrypt = false) {
+		const app = {
+			getLogger: () => ({ info: () => { }, error: () => { } }),
+			getEncryptPassword: () => "password",
+			shouldEncryptFiles: () => encrypt,
+			getUploadConcurrency: () => concurrency,
+			getDownloadConcurrency: () => concurrency,
+			getUploadRetries: () => retries,
+			getUploadSessions: () => sessions,
+		} as unknown as DiscordFileStorageApp;
+
+		return new DiscordFileManager(app, store, chunkSize);
+	}
+
+	async function upload(manager: DiscordFileManager, file: RemoteFile, content = whole) {
+		// odd sized writes, so they do not match chunk boundaries.
+		const writes: Buffer[] = [];
+		for (let i = 0; i < content.length; i += 50000) {
+			writes.push(content.subarray(i, i + 50000));
+		}
+
+		let finished = false;
+		const writable = await manager.getUploadWritableStream(file, content.length, { onFinished: async () => { finished = true; } });
+		await pipeline(Readable.from(writes), writable);
+		return finished;
+	}
+
+	before(() => {
+		store = new LocalChunkStore(directory);
+		sessions = new UploadSessionStore(path.join(directory, "sessions"));
+
+		// first chunks answer slower, so they are finished out of order.
+		const putChunk = store.putChunk.bind(store);
+		store.putChunk = async (buffer, name) => {
+			const call = putCalls++;
+			active++;
+			maxActive = Math.max(maxActive, active);
+			try {
+				await sleep(Math.max(0, 60 - call * 10));
+				const err = failure(call);
+				if (err) {
+					throw err;
+				}
+				return await putChunk(buffer, name);
+			} finally {
+				active--;
+			}
+		};
+	});
+
+	after(() => {
+		fs.rmSync(directory, { recursive: true, force: true });
+	});
+
+	it("keeps chunk order when uploads finish out of order", async function () {
+		putCalls = 0;
+		maxActive = 0;
+		const file = new RemoteFile("parallel.bin", whole.length, Folder.createRoot(), new Date());
+
+		assert.isTrue(await upload(createManager(3), file));
+		assert.equal(maxActive, 3);
+		assert.equal(file.getChunks().length, 6);
+		assert.isTrue(file.getChunks().slice(0, 5).every(c => c.length == chunkSize));
+
+		const data = Buffer.concat(await Promise.all(file.getChunks().map(async c => readAll(await store.getChunkStream(c)))));
+		assert.equal(md5(data), md5(whole));
+	});
+
+	it("stores content hashes and verifies them on download", async function () {
+		const file = new RemoteFile("hashed.bin", whole.length, Folder.createRoot(), new Date());
+		const manager = createManager(3);
+		await upload(manager, file);
+
+		const sha256 = (data: Buffer) => crypto.createHash("sha256").update(data).digest("hex");
+		assert.equal(file.getContentHash(), sha256(whole));
+		assert.equal(file.getETag(), sha256(whole));
+		assert.equal(file.getChunks()[1].sha256, sha256(whole.subarray(chunkSize, chunkSize * 2)));
+
+		// same size, other content.
+		const chunkPath = path.join(directory, file.getChunks()[1].id);
+		const corrupted = fs.readFileSync(chunkPath);
+		corrupted[10] ^= 1;
+		fs.writeFileSync(chunkPath, corrupted);
+
+		try {
+			await readAll(await manager.getDownloadableReadStream(file));
+		} catch (err) {
+			assert.include((err as Error).message, "Content hash mismatch in chunk 2 of hashed.bin");
+			return;
+		}
+		assert.fail("corrupted chunk was not detected");
+	});
+
+	it("reuses stored chunks with the same content", async function () {
+		const manager = createManager(3);
+		const first = new RemoteFile("first.bin", whole.length, Folder.createRoot(), new Date());
+		await upload(manager, first);
+		// as if meta of the first file was posted.
+		first.getChunks().forEach(chunk => manager.getChunkRegistry().acquire(chunk, true));
+
+		putCalls = 0;
+		const changed = Buffer.from(whole);
+		changed[chunkSize * 2] ^= 1;
+		const second = new RemoteFile("second.bin", whole.length, Folder.createRoot(), new Date());
+		await upload(manager, second, changed);
+		assert.equal(putCalls, 1);
+		assert.equal(second.getChunks()[0].id, first.getChunks()[0].id);
+		assert.notEqual(second.getChunks()[2].id, first.getChunks()[2].id);
+		// references of the upload are released, second file was not posted.
+		assert.equal(manager.getChunkRegistry().getCount(first.getChunks()[0]), 1);
+		assert.equal(md5(await readAll(await manager.getDownloadableReadStream(second))), md5(changed));
+	});
+
+	it("does not upload more chunks at once than allowed", async function () {
+		putCalls = 0;
+		maxActive = 0;
+		const file = new RemoteFile("limited.bin", whole.length, Folder.createRoot(), new Date());
+
+		await upload(createManager(2), file);
+		assert.equal(maxActive, 2);
+	});
+
+	it("fails the stream when a chunk upload fails", async function () {
+		putCalls = 0;
+		failure = call => call == 1 ? new Error("Upload failed") : undefined;
+		const file = new RemoteFile("broken.bin", whole.length, Folder.createRoot(), new Date());
+
+		try {
+			await upload(createManager(3), file);
+		} catch (err) {
+			assert.equal((err as Error).message, "Upload failed");
+			return;
+		} finally {
+			failure = () => undefined;
+		}
+		assert.fail("failed chunk upload was not reported");
+	});
+
+	it("retries failed chunk uploads after rate limit", async function () {
+		putCalls = 0;
+		failure = call => call < 2 ? Object.assign(new Error("You are being rate limited."), { status: 429, rawError: { retry_after: 0.01 } }) : undefined;
+		const file = new RemoteFile("retry.bin", whole.length, Folder.createRoot(), new Date());
+
+		try {
+			assert.isTrue(await upload(createManager(1, 3), file));
+		} finally {
+			failure = () => undefined;
+		}
+		assert.equal(putCalls, 8);
+		assert.equal(file.getChunks().length, 6);
+	});
+
+	it("does not retry errors which will fail again", async function () {
+		let attempts = 0;
+		const tooBig = Object.assign(new Error("Request entity too large"), { status: 413 });
+		try {
+			await retry(async () => { attempts++; throw tooBig; }, { retries: 3, baseDelay: 1, maxDelay: 1 });
+		} catch (err) {
+			assert.equal(err, tooBig);
+		}
+		assert.equal(attempts, 1);
+		assert.equal(getRetryAfter({ retryAfter: 1500 }), 1500);
+		assert.equal(getRetryAfter({ response: { headers: { "retry-after": "2" } } }), 2000);
+	});
+
+	it("continues interrupted upload without uploading chunks again", async function () {
+		for (const encrypt of [false, true]) {
+			putCalls = 0;
+			failure = call => call == 3 ? new Error("Connection reset") : undefined;
+
+			try {
+				await upload(createManager(1, 0, encrypt), new RemoteFile("resume.bin", whole.length, Folder.createRoot(), new Date()));
+				assert.fail("upload should fail");
+			} catch (err) {
+				assert.equal((err as Error).message, "Connection reset");
+			}
+			failure = () => undefined;
+			assert.equal(sessions.list().filter(s => s.path == "/resume.bin").length, 1);
+
+			// "restarted" manager, session is read from disk.
+			putCalls = 0;
+			const file = new RemoteFile("resume.bin", whole.length, Folder.createRoot(), new Date());
+			assert.isTrue(await upload(createManager(1, 0, encrypt), file));
+			assert.equal(putCalls, 3);
+			assert.equal(sessions.list().filter(s => s.path == "/resume.bin").length, 0);
+
+			const stream = await createManager(1, 0, encrypt).getDownloadableReadStream(file);
+			assert.equal(md5(await readAll(stream)), md5(whole));
+		}
+	});
+
+	async function interruptUpload(name: string) {
+		putCalls = 0;
+		failure = call => call == 3 ? new Error("Connection reset") : undefined;
+		try {
+			await upload(createManager(1, 0, true), new RemoteFile(name, whole.length, Folder.createRoot(), new Date()));
+		} catch (err) { }
+		failure = () => undefined;
+		return sessions.list().find(s => s.path == "/" + name)!;
+	}
+
+	it("restarts encrypted upload of other data with a new key", async function () {
+		const interrupted = await interruptUpload("changed.bin");
+
+		const changed = Buffer.from(whole);
+		changed[0] ^= 1;
+		putCalls = 0;
+		const file = new RemoteFile("changed.bin", whole.length, Folder.createRoot(), new Date());
+		assert.isTrue(await upload(createManager(1, 0, true), file, changed));
+		assert.equal(putCalls, 6);
+		assert.notDeepEqual(file.getEncryption(), interrupted.encryption);
+		assert.equal(sessions.list().filter(s => s.path == "/changed.bin").length, 0);
+
+		const stream = await createManager(1, 0, true).getDownloadableReadStream(file);
+		assert.equal(md5(await readAll(stream)), md5(changed));
+	});
+
+	it("does not reuse encryption key when only the tail of the data differs", async function () {
+		await interruptUpload("tail.bin");
+
+		const changed = Buffer.from(whole);
+		changed[chunkSize] ^= 1;
+		try {
+			await upload(createManager(1, 0, true), new RemoteFile("tail.bin", whole.length, Folder.createRoot(), new Date()), changed);
+			assert.fail("upload should fail");
+		} catch (err) {
+			assert.include((err as Error).message, "differs from the interrupted upload");
+		}
+		assert.equal(sessions.list().filter(s => s.path == "/tail.bin").length, 0);
+
+		// next attempt starts from scratch with a new key.
+		putCalls = 0;
+		assert.isTrue(await upload(createManager(1, 0, true), new RemoteFile("tail.bin", whole.length, Folder.createRoot(), new Date()), changed));
+		assert.equal(putCalls, 6);
+	});
+
+});
@@ -0,0 +1,80 @@
+import { assert } from "chai";
+import { after, describe, it } from "mocha";
+import fs from "fs";
+import path from "path";
+import crypto from "crypto";
+import safeSetup, { randomString } from "./helper.js";
+import UserStore from "../src/auth/UserStore.js";
+import { parseArgs } from "../src/helper/CliArgs.js";
+
+
+safeSetup();
+
+
+describe("DICloud user store test", function () {
+	const usersPath = path.join(".local", "users-" + randomString() + ".json");
+
+	after(() => {
+		fs.rmSync(usersPath, { force: true });
+	});
+
+	it("stores salted password hashes and HA1 only", async function () {
+		const store = new UserStore(usersPath);
+		await store.addUser("alice", "secret, with: special chars");
+		await store.addUser("bob", "secret, with: special chars", false);
+
+		const content = fs.readFileSync(usersPath, "utf-8");
+		assert.notInclude(content, "secret");
+		const [alice, bob] = store.getUsers();
+		assert.match(alice.passwordHash, /^scrypt\$/);
+		assert.notEqual(alice.passwordHash, bob.passwordHash);
+		assert.equal(alice.ha1, crypto.createHash("md5").update("alice:" + UserStore.REALM + ":secret, with: special chars").digest("hex"));
+		assert.isUndefined(bob.ha1);
+	});
+
+	it("verifies passwords after reload", async function () {
+		const store = new UserStore(usersPath);
+		assert.isTrue(await store.verifyPassword("alice", "secret, with: special chars"));
+		assert.isFalse(await store.verifyPassword("alice", "secret"));
+		assert.isFalse(await store.verifyPassword("carol", "secret, with: special chars"));
+	});
+
+	it("resets passwords and removes users", async function () {
+		const store = new UserStore(usersPath);
+		await store.setPassword("alice", "new password");
+		assert.isTrue(await store.verifyPassword("alice", "new password"));
+		assert.isFalse(await store.verifyPassword("alice", "secret, with: special chars"));
+
+		assert.isTrue(store.removeUser("bob"));
+		assert.isFalse(store.removeUser("bob"));
+		assert.deepEqual(new UserStore(usersPath).getUsers().map((user) => user.username), ["alice"]);
+	});
+
+	it("rejects invalid and duplicate users", async function () {
+		const store = new UserStore(usersPath);
+		await assertRejects(store.addUser("alice", "other"));
+		await assertRejects(store.addUser("a:b", "password"));
+		await assertRejects(store.addUser("carol", ""));
+		await assertRejects(store.setPassword("carol", "password"));
+	});
+
+	async function assertRejects(promise: Promise<unknown>) {
+		let error: unknown;
+		await promise.catch((err) => error = err);
+		assert.instanceOf(error, Error);
+	}
+
+});
+
+
+describe("DICloud cli arguments test", function () {
+	it("keeps \"=\" in flag values", function () {
+		const args = parseArgs(["users", "add", "alice", "--password=a=b==", "--no-digest"]);
+		assert.equal(args.command, "users");
+		assert.deepEqual(args.positional, ["add", "alice"]);
+		assert.equal(args.flags.get("password"), "a=b==");
+		assert.equal(args.flags.get("no-digest"), "true");
+		assert.equal(parseArgs(["gc", "--min-age="]).flags.get("min-age"), "");
+	});
+});
+
@@ -6,6 +6,7 @@ import fs from "fs";
 import safeSetup from "./helper.js";
 import Folder, { VirtualFS } from "../src/file/filesystem/Folder.js";
 import RamFile from "../src/file/RamFile.js";
+import MetadataLoader from "../src/metadata/MetadataLoader.js";
 
 
 safeSetup();
@@ -96,5 +97,84 @@ describe("DICloud VFS basic functions test", function () {
 	})
 
 
+	describe("Loads metadata records", function () {
+		const chunk = { id: "1", url: "", proxyUrl: "", length: 5 };
+		const file = (filename: string, fields: object) => ({
+			filename,
+			totalSize: 5,
+			uploadDate: new Date(),
+			modifiedDate: new Date(),
+			attachmentInfos: [chunk],
+			filesPostedInChannelId: "1",
+			metaIdInMetaChannel: "",
+			...fields,
+		});
+
+		it("puts files into folders by folder id", function () {
+			const vfs = new VirtualFS();
+			const records = new Map<string, object>([
+				["10", file("a.txt", { folderId: "f2", metaVersion: 1 })],
+				["11", { type: "folder", id: "f2", name: "inner", parentId: "f1", metaVersion: 1 }],
+				["12", { type: "folder", id: "f1", name: "outer", parentId: Folder.ROOT_ID, metaVersion: 1 }],
+			]);
+
+			const result = new MetadataLoader(vfs).load(records);
+			assert.equal(result.totalFiles, 1);
+			assert.equal(result.legacyFiles.length, 0);
+
+			const folder = vfs.getRoot().getFolderByPath("/outer/inner")!;
+			assert.equal(folder.getId(), "f2");
+			assert.equal(folder.getMessageMetaIdInMetaChannel(), "11");
+			assert.isDefined(vfs.getRoot().getFileByPath("/outer/inner/a.txt"));
+		});
+
+		it("reports path based records as legacy", function () {
+			const vfs = new VirtualFS();
+			const records = new Map<string, object>([
+				["10", file("b.txt", { folder: "/x/y/b.txt", metaVersion: 0 })],
+			]);
+
+			const result = new MetadataLoader(vfs).load(records);
+			assert.equal(result.legacyFiles.length, 1);
+			assert.equal(result.legacyFiles[0].getAbsolutePath(), "/x/y/b.txt");
+			assert.isFalse(result.legacyFiles[0].getFolder().isPosted());
+		});
+
+		it("loads empty files without chunks", function () {
+			const vfs = new VirtualFS();
+			const records = new Map<string, object>([
+				["10", file("empty.txt", { folderId: Folder.ROOT_ID, metaVersion: 1, totalSize: 0, attachmentInfos: [] })],
+				["11", file("broken.txt", { folderId: Folder.ROOT_ID, metaVersion: 1, attachmentInfos: [] })],
+			]);
+
+			const result = new MetadataLoader(vfs).load(records);
+			assert.equal(result.failedFiles, 1);
+			assert.equal(vfs.getRoot().getFileByPath("/empty.txt")!.getSize(), 0);
+			assert.isUndefined(vfs.getRoot().getFileByPath("/broken.txt"));
+		});
+
+		it("puts files of missing folders into root", function () {
+			const vfs = new VirtualFS();
+			const records = new Map<string, object>([
+				["10", file("c.txt", { folderId: "missing", metaVersion: 1 })],
+			]);
+
+			new MetadataLoader(vfs).load(records);
+			assert.isDefined(vfs.getRoot().getFileByPath("/c.txt"));
+		});
+
+		it("moves folder with content", function () {
+			const vfs = new VirtualFS();
+			const from = vfs.getRoot().createFolderHierarchy("/m/n");
+			const to = vfs.getRoot().createFolderHierarchy("/o");
+			new RamFile("d.txt", 0, from);
+
+			from.moveTo(to, "renamed");
+			assert.equal(from.getAbsolutePath(), "/o/renamed/");
+			assert.isDefined(vfs.getRoot().getFileByPath("/o/renamed/d.txt"));
+			assert.isUndefined(vfs.getRoot().getFolderByPath("/m/n"));
+			assert.throws(() => to.moveTo(from, "loop"));
+		});
+	});
 
-});
\ No newline at end of file
+});
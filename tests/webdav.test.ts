@@ -1,4 +1,4 @@
-import { FileStat, WebDAVClient, createClient } from "webdav"
+import { AuthType, FileStat, WebDAVClient, createClient } from "webdav"
 import { assert } from "chai";
 import { before, after, describe, it } from "mocha";
 import DiscordFileStorageApp from "../src/DiscordFileStorageApp.js";
@@ -10,7 +10,19 @@ import path from "path";
 import crypro from "crypto";
 import axios from "../src/helper/AxiosInstance.js";
 import { patchEmitter } from "../src/helper/EventPatcher.js";
-import safeSetup, { randomString, md5 } from "./helper.js";
+import safeSetup, { randomString, md5, sleep, readAll } from "./helper.js";
+import FakeDiscordServer from "./fake-discord/FakeDiscordServer.js";
+import ChunkGarbageCollector from "../src/maintenance/ChunkGarbageCollector.js";
+import MetadataFsck from "../src/maintenance/MetadataFsck.js";
+import RemoteFile from "../src/file/RemoteFile.js";
+import VersionRetention from "../src/maintenance/VersionRetention.js";
+import VersionsView from "../src/webdav/VersionsView.js";
+import TrashPurge from "../src/maintenance/TrashPurge.js";
+import { v2 as webdav } from "webdav-server";
+import WebdavServer from "../src/webdav/WebdavServer.js";
+import WebdavFilesystemHandler from "../src/webdav/WebdavFilesystemHandler.js";
+import UserStore from "../src/auth/UserStore.js";
+import ShareStore from "../src/share/ShareStore.js";
 
 const DOMAIN = "localhost";
 const PORT = 3000;
@@ -84,6 +96,7 @@ describe("DICloud basic functions test", function () {
 	})
 
 
+	let fakeDiscord: FakeDiscordServer | undefined;
 	let localTestFolderName: string;
 	let localGeneratedFilePath: string;
 	it("Generate random 10MB file on a local filesystem", async function () {
@@ -104,6 +117,20 @@ describe("DICloud basic functions test", function () {
 	it("Start the server and ensure server is up", async function () {
 		this.timeout(10000);
 
+		// without real bot credentials run everything against in-process fake discord.
+		if (!process.env.TOKEN) {
+			fakeDiscord = new FakeDiscordServer();
+			await fakeDiscord.start();
+			process.env.TOKEN = fakeDiscord.token;
+			process.env.GUILD_ID = fakeDiscord.guildId;
+			process.env.DISCORD_API_URL = fakeDiscord.getApiUrl();
+			process.env.META_CACHE_PATH = path.join(".local", "metadata-" + randomString() + ".jsonl");
+			process.env.UPLOAD_SESSION_PATH = path.join(".local", "uploads-" + randomString());
+			process.env.DELETE_QUEUE_PATH = path.join(".local", "delete-queue-" + randomString() + ".json");
+			process.env.USERS_FILE = path.join(".local", "users-" + randomString() + ".json");
+			process.env.SHARES_FILE = path.join(".local", "shares-" + randomString() + ".json");
+		}
+
 		server = await envBoot();
 		client = createClient(`http://${DOMAIN}:${PORT}`);
 
@@ -159,6 +186,66 @@ describe("DICloud basic functions test", function () {
 		assert.equal(localFileMD5, downloadedFileMD5);
 	});
 
+	it("uses content hash as etag and getcontenthash property", async function () {
+		const sha256 = crypro.createHash("sha256").update(fs.readFileSync(localGeneratedFilePath)).digest("hex");
+		const res = await client.customRequest(`/${remoteFolderName}/testfile.txt`, { method: "PROPFIND", headers: { Depth: "0" } });
+		const body = await res.text();
+
+		assert.include(body, "<D:getetag>" + sha256 + "</D:getetag>");
+		assert.match(body, new RegExp('<getcontenthash xmlns="urn:dicloud:" algorithm="sha256">' + sha256 + "</getcontenthash>"));
+	});
+
+
+	it("Downloads a byte range of the remote file", async function () {
+		this.timeout(10000);
+		const local = fs.readFileSync(localGeneratedFilePath);
+		const downloadUrl = client.getFileDownloadLink(`/${remoteFolderName}/testfile.txt`);
+
+		const res = await axios.get(downloadUrl, { responseType: "arraybuffer", headers: { Range: "bytes=1000-5999" } });
+		assert.equal(res.status, 206);
+		assert.equal(res.headers["content-range"], `bytes 1000-5999/${local.length}`);
+		assert.equal(md5(Buffer.from(res.data)), md5(local.subarray(1000, 6000)));
+
+		const suffix = await axios.get(downloadUrl, { responseType: "arraybuffer", headers: { Range: "bytes=-100" } });
+		assert.equal(md5(Buffer.from(suffix.data)), md5(local.subarray(local.length - 100)));
+	});
+
+	it("Rejects unsatisfiable byte range", async function () {
+		const downloadUrl = client.getFileDownloadLink(`/${remoteFolderName}/testfile.txt`);
+		const res = await axios.get(downloadUrl, { headers: { Range: "bytes=999999999-" }, validateStatus: () => true });
+		assert.equal(res.status, 416);
+	});
+
+	it("Fails download when the file cannot be read", async function () {
+		await client.putFileContents("/unreadable.txt", Buffer.alloc(5000, 1));
+		const downloadUrl = client.getFileDownloadLink("/unreadable.txt");
+		const manager = server.getDiscordFileManager();
+
+		const open = sinon.stub(manager, "getDownloadableReadStream").rejects(new Error("chunk lost"));
+		try {
+			// default handler of webdav-server answers 405 to errors it does not know.
+			assert.equal((await axios.get(downloadUrl, { validateStatus: () => true })).status, 405);
+			assert.equal((await axios.get(downloadUrl, { headers: { Range: "bytes=0-999" }, validateStatus: () => true })).status, 500);
+		} finally {
+			open.restore();
+		}
+
+		// status is sent with the first bytes, later error breaks the connection.
+		const broken = sinon.stub(manager, "getDownloadableReadStream").callsFake(async () => new Readable({
+			read() {
+				this.push(Buffer.alloc(100));
+				setTimeout(() => this.destroy(new Error("chunk lost")), 50);
+			},
+		}));
+		try {
+			const err = await axios.get(downloadUrl, { headers: { Range: "bytes=0-999" }, "axios-retry": { retries: 0 } }).then(() => undefined, (e) => e);
+			assert.isDefined(err);
+			assert.isUndefined(err.response);
+		} finally {
+			broken.restore();
+		}
+		await client.deleteFile("/unreadable.txt");
+	});
 
 	it("put new file contents to the remote file, transfers the file from RAM to being real uploaded file", async function () {
 		this.timeout(5000);
@@ -207,6 +294,17 @@ describe("DICloud basic functions test", function () {
 		assert.equal(content.find((file) => file.basename === randomNewFolderName) !== undefined, true);
 	});
 
+	it("folder rename is persisted as a single folder record", async function () {
+		const records = [...server.getMetadataJournal().getRecords().values()] as any[];
+		const folderRecord = records.find((r) => r.type === "folder" && r.name === randomNewFolderName);
+		assert.isDefined(folderRecord, "Folder record with new name not found");
+		assert.isUndefined(records.find((r) => r.type === "folder" && r.name === remoteFolderName));
+
+		const fileRecord = records.find((r) => r.filename === "testfile.txt" && r.folderId === folderRecord.id);
+		assert.isDefined(fileRecord, "File does not reference renamed folder by id");
+		assert.isUndefined(fileRecord.folder);
+	});
+
 	it("rename a remote folder back " + randomNewFolderName + " -> " + remoteFolderName, async function () {
 		this.timeout(5000);
 
@@ -260,9 +358,16 @@ describe("DICloud basic functions test", function () {
 
 
 
+	it("Lists uploaded files in the remote folder", async function () {
+		const content = (await client.getDirectoryContents(`/${remoteFolderName}`) as FileStat[]).filter((file) => file.type === "file");
+		assert.isAbove(content.length, 0, "No files found in the " + remoteFolderName + " directory");
+	});
+
 	it("Tries to download uploaded file via http", async function () {
 		this.timeout(10000);
-		return new Promise(async (resolve, reject) => {
+		// store of the fake discord server starts empty, so the root gets a file for the listing.
+		await client.putFileContents("/root-testfile.txt", "root");
+		await new Promise<void>(async (resolve, reject) => {
 			const content = (await client.getDirectoryContents("/") as FileStat[]).filter((file) => file.type === "file");
 			assert.isAbove(content.length, 0, "No files found in the root directory");
 
@@ -281,6 +386,7 @@ describe("DICloud basic functions test", function () {
 			});
 
 		});
+		await client.deleteFile("/root-testfile.txt");
 	});
 
 
@@ -373,6 +479,53 @@ describe("DICloud basic functions test", function () {
 	});
 
 
+	let emptyFolderName = randomString();
+	it("Creates an empty folder and an empty file in it (" + emptyFolderName + ")", async function () {
+		this.timeout(5000);
+
+		await client.createDirectory(`/${emptyFolderName}`);
+		await client.createDirectory(`/${emptyFolderName}/empty`);
+		await client.putFileContents(`/${emptyFolderName}/empty.txt`, "");
+
+		assert.equal(await client.getFileContents(`/${emptyFolderName}/empty.txt`, { format: "text" }), "");
+	});
+
+	it("Checks that empty folder and empty file are persisted in metadata", async function () {
+		const records = [...server.getMetadataJournal().getRecords().values()] as any[];
+		const folderRecord = records.find((r) => r.type === "folder" && r.name === emptyFolderName);
+		assert.isDefined(folderRecord, "Empty folder is not posted");
+		assert.isDefined(records.find((r) => r.type === "folder" && r.name === "empty" && r.parentId === folderRecord.id), "Empty subfolder is not posted");
+
+		const fileRecord = records.find((r) => r.filename === "empty.txt" && r.folderId === folderRecord.id);
+		assert.isDefined(fileRecord, "Empty file is not posted");
+		assert.equal(fileRecord.totalSize, 0);
+		assert.equal(fileRecord.attachmentInfos.length, 0);
+	});
+
+	it("Writes content without content-length into the empty file", async function () {
+		this.timeout(5000);
+
+		await client.putFileContents(`/${emptyFolderName}/empty.txt`, Readable.from([Buffer.from("not empty anymore")]));
+
+		assert.equal(await client.getFileContents(`/${emptyFolderName}/empty.txt`, { format: "text" }), "not empty anymore");
+		const stat = await client.stat(`/${emptyFolderName}/empty.txt`) as FileStat;
+		assert.equal(stat.size, "not empty anymore".length);
+	});
+
+	it("Deletes the empty folder with its records", async function () {
+		const folderId = server.getFileSystem().getRoot().getFolderByPath(`/${emptyFolderName}`)!.getId();
+		const trash = sinon.stub(server, "isTrashEnabled").returns(false);
+		try {
+			await client.deleteFile(`/${emptyFolderName}`);
+		} finally {
+			trash.restore();
+		}
+
+		const records = [...server.getMetadataJournal().getRecords().values()] as any[];
+		assert.isUndefined(records.find((r) => r.id === folderId || r.parentId === folderId || r.folderId === folderId));
+	});
+
+
 	it("creates subtree /a/b/c/d/e.txt", async function () {
 		this.timeout(15000);
 
@@ -395,5 +548,794 @@ describe("DICloud basic functions test", function () {
 		assert.equal(content.find((file) => file.basename === "a") == undefined, true);
 	});
 
+	it("collects orphaned chunks without touching used ones", async function () {
+		this.timeout(15000);
+		await client.putFileContents("/gc.txt", "still used");
+
+		const store = server.getDiscordFileManager().getChunkStore();
+		const orphan = await store.putChunk(Buffer.from("orphan"), "orphan.txt");
+		const collector = new ChunkGarbageCollector(server);
+		const referenced = collector.getReferencedChunkIds();
+
+		const young = await collector.collect({ dryRun: true, minAge: 60 * 60 * 1000 });
+		assert.isUndefined(young.orphans.find((c) => c.id === orphan.id));
+
+		const dryRun = await collector.collect({ dryRun: true, minAge: 0 });
+		assert.isDefined(dryRun.orphans.find((c) => c.id === orphan.id));
+		assert.isUndefined(dryRun.orphans.find((c) => referenced.has(c.id)));
+		assert.equal(dryRun.deletedChunks, 0);
+
+		const result = await collector.collect({ dryRun: false, minAge: 0 });
+		assert.equal(result.deletedChunks, result.orphans.length);
+		assert.isUndefined((await store.listChunks()).find((c) => c.id === orphan.id));
+		assert.equal(await client.getFileContents("/gc.txt", { format: "text" }), "still used");
+
+		await client.deleteFile("/gc.txt");
+	});
+
+	it("collects chunks of expired upload sessions", async function () {
+		this.timeout(15000);
+		const store = server.getDiscordFileManager().getChunkStore();
+		const sessions = server.getUploadSessions();
+		const chunk = await store.putChunk(Buffer.from("abandoned"), "abandoned.txt");
+		const session = sessions.open("/abandoned.txt", 1000, "store", 100, false);
+		session.chunks[0] = { hash: "hash", chunk };
+		sessions.save(session);
+
+		const collector = new ChunkGarbageCollector(server);
+		assert.isUndefined((await collector.collect({ dryRun: true, minAge: 0 })).orphans.find((c) => c.id === chunk.id));
+
+		// last activity 8 days ago, sessions are kept for 7 days by default.
+		const directory = process.env.UPLOAD_SESSION_PATH!;
+		for (const name of fs.readdirSync(directory)) {
+			const saved = JSON.parse(fs.readFileSync(path.join(directory, name), "utf-8"));
+			if (saved.path == "/abandoned.txt") {
+				saved.updatedAt = new Date(Date.now() - 8 * 24 * 60 * 60 * 1000).toISOString();
+				fs.writeFileSync(path.join(directory, name), JSON.stringify(saved));
+			}
+		}
+		assert.lengthOf(sessions.open("/abandoned.txt", 1000, "store", 100, false).chunks, 0);
+
+		const result = await collector.collect({ dryRun: false, minAge: 0 });
+		assert.isDefined(result.orphans.find((c) => c.id === chunk.id));
+		assert.isUndefined((await store.listChunks()).find((c) => c.id === chunk.id));
+		assert.isUndefined(sessions.list().find((s) => s.path == "/abandoned.txt"));
+	});
+
+	it("copies files without uploading chunks and deletes chunks with the last reference", async function () {
+		this.timeout(15000);
+		const store = server.getDiscordFileManager().getChunkStore();
+		const content = "shared content " + randomString();
+		await client.putFileContents("/shared.txt", content);
+		const chunk = (server.getFileSystem().getRoot().getFileByPath("/shared.txt") as RemoteFile).getChunks()[0];
+		const chunksBefore = (await store.listChunks()).length;
+
+		await client.copyFile("/shared.txt", "/shared-copy.txt");
+		await client.putFileContents("/shared-same.txt", content);
+		assert.equal((await store.listChunks()).length, chunksBefore);
+		assert.equal((server.getFileSystem().getRoot().getFileByPath("/shared-same.txt") as RemoteFile).getChunks()[0].id, chunk.id);
+		assert.equal(server.getDiscordFileManager().getChunkRegistry().getCount(chunk), 3);
+
+		const trash = sinon.stub(server, "isTrashEnabled").returns(false);
+		try {
+			await client.deleteFile("/shared.txt");
+			await client.deleteFile("/shared-same.txt");
+			assert.isDefined((await store.listChunks()).find((c) => c.id === chunk.id));
+			assert.equal(await client.getFileContents("/shared-copy.txt", { format: "text" }), content);
+
+			await client.deleteFile("/shared-copy.txt");
+			await server.getChunkDeleteQueue().whenIdle();
+			assert.isUndefined((await store.listChunks()).find((c) => c.id === chunk.id));
+		} finally {
+			trash.restore();
+		}
+	});
+
+	it("copies folders recursively", async function () {
+		this.timeout(15000);
+		await client.createDirectory("/copy-src/sub/", { recursive: true });
+		await client.putFileContents("/copy-src/a.txt", "a");
+		await client.putFileContents("/copy-src/sub/b.txt", "b");
+		await client.createDirectory("/copy-src/empty/");
+
+		await client.copyFile("/copy-src/", "/copy-dst/");
+		assert.equal(await client.getFileContents("/copy-dst/a.txt", { format: "text" }), "a");
+		assert.equal(await client.getFileContents("/copy-dst/sub/b.txt", { format: "text" }), "b");
+		assert.isTrue(await client.exists("/copy-dst/empty/"));
+		assert.equal(await client.getFileContents("/copy-src/sub/b.txt", { format: "text" }), "b");
+		const copied = server.getFileSystem().getRoot().getFolderByPath("/copy-dst/sub/")!;
+		assert.isTrue(copied.isPosted());
+		const record = server.getMetadataJournal().getRecords().get((copied.getFiles()[0] as RemoteFile).getMessageMetaIdInMetaChannel()) as any;
+		assert.equal(record.folderId, copied.getId());
+
+		const shallow = await client.customRequest("/copy-src/", { method: "COPY", headers: { Destination: `http://${DOMAIN}:${PORT}/copy-shallow/`, Depth: "0" } });
+		assert.equal(shallow.status, 201);
+		assert.isEmpty(await client.getDirectoryContents("/copy-shallow/"));
+
+		// one member fails, the rest is copied.
+		const copyFile = sinon.stub(server.getDiscordFileManager(), "copyFile").callThrough();
+		copyFile.withArgs(sinon.match((file: RemoteFile) => file.getFileName() === "b.txt")).rejects(new Error("chunk store is down"));
+		try {
+			const partial = await client.customRequest("/copy-src/", { method: "COPY", headers: { Destination: `http://${DOMAIN}:${PORT}/copy-partial/` } });
+			assert.equal(partial.status, 207);
+			const body = await partial.text();
+			assert.include(body, "<D:href>/copy-partial/sub/b.txt</D:href>");
+			assert.include(body, "HTTP/1.1 500 Internal Server Error");
+			assert.notInclude(body, "a.txt");
+		} finally {
+			copyFile.restore();
+		}
+		assert.equal(await client.getFileContents("/copy-partial/a.txt", { format: "text" }), "a");
+		assert.isFalse(await client.exists("/copy-partial/sub/b.txt"));
+
+		for (const folder of ["/copy-src/", "/copy-dst/", "/copy-shallow/", "/copy-partial/"]) {
+			await client.deleteFile(folder);
+		}
+	});
+
+	it("overwrites existing targets of move and copy", async function () {
+		this.timeout(15000);
+		const request = (method: string, from: string, to: string, overwrite: "T" | "F") => axios.request({
+			method,
+			url: `http://${DOMAIN}:${PORT}${from}`,
+			headers: { Destination: `http://${DOMAIN}:${PORT}${to}`, Overwrite: overwrite },
+			validateStatus: () => true,
+		});
+		const getFile = (path: string) => server.getFileSystem().getRoot().getFileByPath(path) as RemoteFile;
+
+		await client.putFileContents("/ow-new.txt", "new " + randomString());
+		await client.putFileContents("/ow-old.txt", "old " + randomString());
+		const old = getFile("/ow-old.txt");
+
+		assert.equal((await request("MOVE", "/ow-new.txt", "/ow-old.txt", "F")).status, 412);
+		assert.match(await client.getFileContents("/ow-old.txt", { format: "text" }) as string, /^old/);
+
+		assert.equal((await request("MOVE", "/ow-new.txt", "/ow-old.txt", "T")).status, 204);
+		assert.match(await client.getFileContents("/ow-old.txt", { format: "text" }) as string, /^new/);
+		assert.isFalse(await client.exists("/ow-new.txt"));
+		assert.isFalse(server.getMetadataJournal().getRecords().has(old.getMessageMetaIdInMetaChannel()));
+		await server.getChunkDeleteQueue().whenIdle();
+		assert.isUndefined((await server.getDiscordFileManager().getChunkStore().listChunks()).find((c) => c.id === old.getChunks()[0].id));
+
+		// failed copy leaves the target as it was.
+		await client.putFileContents("/ow-kept.txt", "kept");
+		const copyFile = sinon.stub(server.getDiscordFileManager(), "copyFile").rejects(new Error("chunk store is down"));
+		try {
+			assert.equal((await request("COPY", "/ow-old.txt", "/ow-kept.txt", "T")).status, 500);
+		} finally {
+			copyFile.restore();
+		}
+		assert.equal(await client.getFileContents("/ow-kept.txt", { format: "text" }), "kept");
+
+		await client.createDirectory("/ow-src/");
+		await client.putFileContents("/ow-src/x.txt", "x");
+		await client.createDirectory("/ow-dst/");
+		await client.putFileContents("/ow-dst/y.txt", "y");
+		assert.equal((await request("COPY", "/ow-src/", "/ow-dst/", "T")).status, 204);
+		const names = (await client.getDirectoryContents("/ow-dst/") as FileStat[]).map((f) => f.basename);
+		assert.deepEqual(names, ["x.txt"]);
+
+		for (const path of ["/ow-old.txt", "/ow-kept.txt", "/ow-src/", "/ow-dst/"]) {
+			await client.deleteFile(path);
+		}
+	});
+
+	it("keeps the old name when rename fails to update metadata", async function () {
+		await client.putFileContents("/rename-a.txt", "a");
+		const handler = new WebdavFilesystemHandler(server);
+		const rename = () => new Promise<Error | undefined>((resolve) => handler._rename(new webdav.Path("/rename-a.txt"), "rename-b.txt", {} as webdav.RenameInfo, resolve));
+
+		const updateMetaFile = sinon.stub(server.getDiscordFileManager(), "updateMetaFile").rejects(new Error("discord is down"));
+		try {
+			assert.instanceOf(await rename(), Error);
+		} finally {
+			updateMetaFile.restore();
+		}
+		assert.isTrue(await client.exists("/rename-a.txt"));
+		assert.isFalse(await client.exists("/rename-b.txt"));
+		await client.deleteFile("/rename-a.txt");
+	});
+
+	it("fails delete and keeps the file when its records cannot be deleted", async function () {
+		await client.putFileContents("/delete-fail.txt", "a");
+		const trash = sinon.stub(server, "isTrashEnabled").returns(false);
+		const deleteFile = sinon.stub(server.getDiscordFileManager(), "deleteFile").rejects(new Error("discord is down"));
+		try {
+			assert.equal(await client.customRequest("/delete-fail.txt", { method: "DELETE" }).then((r) => r.status, (e) => e.status), 500);
+		} finally {
+			deleteFile.restore();
+			trash.restore();
+		}
+		assert.isTrue(await client.exists("/delete-fail.txt"));
+		await client.deleteFile("/delete-fail.txt");
+	});
+
+	it("replaces file on PUT only after the new content is uploaded", async function () {
+		this.timeout(15000);
+		// without versions old chunks are not needed after the replace.
+		const keep = sinon.stub(server, "getVersionsKeep").returns(0);
+		try {
+			const manager = server.getDiscordFileManager();
+			const store = manager.getChunkStore();
+			const getFile = () => server.getFileSystem().getRoot().getFileByPath("/atomic.txt") as RemoteFile;
+			const hasChunk = async (id: string) => (await store.listChunks()).some((c) => c.id === id);
+			const v1 = "v1 " + randomString();
+			const v2 = "v2 " + randomString();
+
+			await client.putFileContents("/atomic.txt", v1);
+			const old = getFile();
+			const reader = await manager.getDownloadableReadStream(old);
+
+			await client.putFileContents("/atomic.txt", v2);
+			assert.equal(await client.getFileContents("/atomic.txt", { format: "text" }), v2);
+			assert.equal(getFile().getMessageMetaIdInMetaChannel(), old.getMessageMetaIdInMetaChannel());
+			assert.isTrue(await hasChunk(old.getChunks()[0].id));
+
+			// reader of the old version is not cut off, chunks are deleted after it is done.
+			assert.equal((await readAll(reader)).toString(), v1);
+			await sleep(100);
+			await server.getChunkDeleteQueue().whenIdle();
+			assert.isFalse(await hasChunk(old.getChunks()[0].id));
+
+			const putChunk = sinon.stub(store, "putChunk").rejects(Object.assign(new Error("Bad request"), { status: 400 }));
+			try {
+				const res = await axios.put(`http://${DOMAIN}:${PORT}/atomic.txt`, "v3 " + randomString(), { validateStatus: () => true });
+				assert.isAtLeast(res.status, 500);
+			} finally {
+				putChunk.restore();
+			}
+			assert.equal(await client.getFileContents("/atomic.txt", { format: "text" }), v2);
+
+			await client.deleteFile("/atomic.txt");
+		} finally {
+			keep.restore();
+		}
+	});
+
+	it("keeps old versions and restores them", async function () {
+		this.timeout(20000);
+		const manager = server.getDiscordFileManager();
+		const store = manager.getChunkStore();
+		const getFile = () => server.getFileSystem().getRoot().getFileByPath("/ver.txt") as RemoteFile;
+		const hasChunk = async (id: string) => (await store.listChunks()).some((c) => c.id === id);
+		const contents = ["v1 " + randomString(), "v2 " + randomString(), "v3 " + randomString()];
+
+		for (const content of contents) {
+			await client.putFileContents("/ver.txt", content);
+		}
+		assert.lengthOf(getFile().getVersions(), 2);
+
+		const versions = await client.getDirectoryContents("/.versions/ver.txt") as FileStat[];
+		assert.lengthOf(versions, 2);
+		const [newest, oldest] = getFile().getVersions().map((v) => VersionsView.getVersionName(getFile(), v));
+		assert.equal(await client.getFileContents("/.versions/ver.txt/" + newest, { format: "text" }), contents[1]);
+		assert.equal(await client.getFileContents("/.versions/ver.txt/" + oldest, { format: "text" }), contents[0]);
+
+		const forbidden = await axios.put(`http://${DOMAIN}:${PORT}/.versions/ver.txt/new.txt`, "nope", { validateStatus: () => true });
+		assert.equal(forbidden.status, 403);
+
+		// restore by copying the version over the file, current content becomes a version.
+		const restore = await axios.request({
+			method: "COPY",
+			url: `http://${DOMAIN}:${PORT}/.versions/ver.txt/${oldest}`,
+			headers: { Destination: `http://${DOMAIN}:${PORT}/ver.txt`, Overwrite: "T" },
+			validateStatus: () => true,
+		});
+		assert.equal(restore.status, 204);
+		assert.equal(await client.getFileContents("/ver.txt", { format: "text" }), contents[0]);
+		assert.lengthOf(getFile().getVersions(), 3);
+
+		const v2Chunk = getFile().getVersions()[1].attachmentInfos[0];
+		const keep = sinon.stub(server, "getVersionsKeep").returns(1);
+		try {
+			// files of other tests in the trash may have versions too.
+			assert.isAtLeast(await new VersionRetention(server).run(), 2);
+		} finally {
+			keep.restore();
+		}
+		assert.lengthOf(getFile().getVersions(), 1);
+		await server.getChunkDeleteQueue().whenIdle();
+		assert.isFalse(await hasChunk(v2Chunk.id));
+		// chunks of the deleted v1 version are still used by the restored file.
+		assert.isTrue(await hasChunk(getFile().getChunks()[0].id));
+
+		assert.isAtLeast(await new VersionRetention(server).run(new Date(Date.now() + server.getVersionsMaxAge() + 1000)), 1);
+		assert.lengthOf(getFile().getVersions(), 0);
+		assert.equal(await client.getFileContents("/ver.txt", { format: "text" }), contents[0]);
+
+		await client.deleteFile("/ver.txt");
+	});
+
+	it("moves deleted entries into the trash, restores and purges them", async function () {
+		this.timeout(20000);
+		const root = server.getFileSystem().getRoot();
+		const store = server.getDiscordFileManager().getChunkStore();
+		const hasChunk = async (id: string) => (await store.listChunks()).some((c) => c.id === id);
+		const getRecord = (file: RemoteFile) => server.getMetadataJournal().getRecords().get(file.getMessageMetaIdInMetaChannel()) as any;
+		const a = "a " + randomString();
+		const b = "b " + randomString();
+
+		await client.createDirectory("/tr/sub/", { recursive: true });
+		await client.putFileContents("/tr/sub/a.txt", a);
+		await client.putFileContents("/tr/b.txt", b);
+		await client.deleteFile("/tr/b.txt");
+		await client.putFileContents("/tr/b.txt", "b2");
+		await client.deleteFile("/tr/b.txt");
+		await client.deleteFile("/tr/sub/");
+
+		assert.isFalse(await client.exists("/tr/b.txt"));
+		assert.equal(await client.getFileContents("/.trash/b.txt", { format: "text" }), b);
+		assert.equal(await client.getFileContents("/.trash/b (2).txt", { format: "text" }), "b2");
+		assert.equal(await client.getFileContents("/.trash/sub/a.txt", { format: "text" }), a);
+		const trashed = root.getFileByPath("/.trash/b.txt") as RemoteFile;
+		assert.equal(getRecord(trashed).trashed.path, "/tr/b.txt");
+		assert.equal(root.getFolderByPath("/.trash/sub")!.getTrashInfo()!.path, "/tr/sub/");
+
+		const put = await axios.put(`http://${DOMAIN}:${PORT}/.trash/new.txt`, "nope", { validateStatus: () => true });
+		assert.equal(put.status, 403);
+		const moveIn = await axios.request({
+			method: "MOVE",
+			url: `http://${DOMAIN}:${PORT}/tr/`,
+			headers: { Destination: `http://${DOMAIN}:${PORT}/.trash/tr/` },
+			validateStatus: () => true,
+		});
+		assert.equal(moveIn.status, 403);
+
+		// restore by moving out of the trash.
+		await client.moveFile("/.trash/sub/", "/tr/sub/");
+		await client.moveFile("/.trash/b (2).txt", "/tr/b.txt");
+		assert.equal(await client.getFileContents("/tr/sub/a.txt", { format: "text" }), a);
+		assert.equal(await client.getFileContents("/tr/b.txt", { format: "text" }), "b2");
+		assert.isUndefined(root.getFolderByPath("/tr/sub")!.getTrashInfo());
+		assert.isUndefined(getRecord(root.getFileByPath("/tr/b.txt") as RemoteFile).trashed);
+
+		// expired entries are deleted for good.
+		assert.isAtLeast(await new TrashPurge(server).run(new Date(Date.now() + server.getTrashMaxAge() + 1000)), 1);
+		assert.isFalse(await client.exists("/.trash/b.txt"));
+		await server.getChunkDeleteQueue().whenIdle();
+		assert.isFalse(await hasChunk(trashed.getChunks()[0].id));
+		assert.equal(await client.getFileContents("/tr/sub/a.txt", { format: "text" }), a);
+
+		// delete in the trash is permanent.
+		await client.deleteFile("/tr/sub/");
+		const folderId = root.getFolderByPath("/.trash/sub")!.getId();
+		await client.deleteFile("/.trash/sub/");
+		assert.isFalse(await client.exists("/.trash/sub/"));
+		const records = [...server.getMetadataJournal().getRecords().values()] as any[];
+		assert.isUndefined(records.find((r) => r.id === folderId || r.folderId === folderId));
+
+		await client.deleteFile("/tr/");
+	});
+
+	it("deletes chunks of deleted folders in the background in batches", async function () {
+		this.timeout(20000);
+		const store = server.getDiscordFileManager().getChunkStore();
+		const queue = server.getChunkDeleteQueue();
+		const trash = sinon.stub(server, "isTrashEnabled").returns(false);
+		try {
+			await client.createDirectory("/bulk/");
+			for (let i = 0; i < 3; i++) {
+				await client.putFileContents(`/bulk/${i}.txt`, "bulk " + i + " " + randomString());
+			}
+			const chunks = server.getFileSystem().getRoot().getFolderByPath("/bulk")!.getFiles().map((f) => (f as RemoteFile).getChunks()[0]);
+			const bulkDeletes = fakeDiscord?.getBulkDeleteCount() ?? 0;
+
+			// response does not wait for chunks, they are deleted only when the store allows it again.
+			const deleteChunks = sinon.stub(store, "deleteChunks").rejects(new Error("Service unavailable"));
+			try {
+				await client.deleteFile("/bulk/");
+				assert.isFalse(await client.exists("/bulk/"));
+				await queue.whenIdle();
+				assert.includeMembers(queue.getPending().map((c) => c.id), chunks.map((c) => c.id));
+			} finally {
+				deleteChunks.restore();
+			}
+
+			queue.start();
+			await queue.whenIdle();
+			assert.isEmpty(queue.getPending());
+			const stored = (await store.listChunks()).map((c) => c.id);
+			chunks.forEach((chunk) => assert.notInclude(stored, chunk.id));
+			if (fakeDiscord) {
+				assert.isAbove(fakeDiscord.getBulkDeleteCount(), bulkDeletes);
+			}
+		} finally {
+			trash.restore();
+		}
+	});
+
+	it("limits users to their home folders and paths allowed by access rules", async function () {
+		this.timeout(20000);
+		const access = server.getAccessControl();
+		const userStore = new UserStore(path.join(".local", "users-" + randomString() + ".json"));
+		await userStore.addUser("alice", "alice-pass");
+		await userStore.addUser("bob", "bob-pass");
+		const authServer = WebdavServer.createServer({
+			port: PORT + 1,
+			enableAuth: true,
+			userStore,
+			rootFileSystem: new WebdavFilesystemHandler(server),
+		}, server);
+		await authServer.startAsync();
+		const alice = createClient(`http://${DOMAIN}:${PORT + 1}`, { username: "alice", password: "alice-pass", authType: AuthType.Digest });
+		const bob = createClient(`http://${DOMAIN}:${PORT + 1}`, { username: "bob", password: "bob-pass", authType: AuthType.Digest });
+		// digest client does not throw on 401, so denied requests are checked by status.
+		const status = (path: string, method: string, data?: string) => bob.customRequest(path, { method, data }).then((res) => res.status, (err) => err.status);
+
+		try {
+			access.setHomes(true);
+			access.setRule("/", "*", "none");
+			access.setRule("/acl-shared", "*", "read");
+			access.setRule("/acl-shared", "user:alice", "write");
+			await access.save();
+			await access.ensureHomes(["alice", "bob"]);
+			await client.createDirectory("/acl-shared/");
+			await client.createDirectory("/acl-hidden/");
+
+			await alice.putFileContents("/home/alice/a.txt", "alice");
+			await alice.putFileContents("/acl-shared/s.txt", "shared");
+			assert.equal(await bob.getFileContents("/acl-shared/s.txt", { format: "text" }), "shared");
+			assert.equal(await status("/acl-shared/b.txt", "PUT", "bob"), 401);
+			assert.equal(await status("/home/alice/a.txt", "GET"), 401);
+			assert.equal(await status("/home/alice/a.txt", "DELETE"), 401);
+			assert.equal(await status("/home/bob/b.txt", "PUT", "bob"), 201);
+			const move = (from: string, to: string) => bob.customRequest(from, { method: "MOVE", headers: { Destination: `http://${DOMAIN}:${PORT + 1}${to}` } }).then((res) => res.status, (err) => err.status);
+			assert.equal(await move("/acl-shared/s.txt", "/home/bob/s.txt"), 403);
+			// trash entries get access of their original path, so the destination is not writable either.
+			assert.equal(await move("/acl-shared/s.txt", "/.trash/s.txt"), 401);
+			assert.equal(await bob.getFileContents("/acl-shared/s.txt", { format: "text" }), "shared");
+
+			const names = (await bob.getDirectoryContents("/") as FileStat[]).map((f) => f.basename);
+			assert.include(names, "acl-shared");
+			assert.include(names, "home");
+			assert.notInclude(names, "acl-hidden");
+			assert.deepEqual((await bob.getDirectoryContents("/home") as FileStat[]).map((f) => f.basename), ["bob"]);
+
+			// trash entries stay visible only to users who could see them before deletion.
+			await alice.deleteFile("/home/alice/a.txt");
+			assert.include((await alice.getDirectoryContents("/.trash") as FileStat[]).map((f) => f.basename), "a.txt");
+			assert.notInclude((await bob.getDirectoryContents("/.trash") as FileStat[]).map((f) => f.basename), "a.txt");
+
+			// rules are stored in the metadata channel.
+			const record = server.getMetadataJournal().getRecords().get(access.getMessageId()) as any;
+			assert.isTrue(record.homes);
+			assert.deepInclude(record.rules, { path: "/acl-shared", principal: "user:alice", access: "write" });
+
+			// share links show only what the creator of the share can read.
+			access.setRule("/", "user:bob", "read");
+			access.setRule("/acl-hidden", "user:bob", "none");
+			await alice.putFileContents("/home/alice/private.txt", "private");
+			const share = await bob.customRequest("/.shares", { method: "POST", data: JSON.stringify({ path: "/" }) }).then((res) => res.json() as Promise<{ url: string }>);
+			const link = (path: string) => axios.get(share.url + path, { responseType: "text", transformResponse: (data) => data, validateStatus: () => true });
+			const listing = (await link("/")).data;
+			assert.include(listing, "acl-shared/");
+			assert.notInclude(listing, "acl-hidden/");
+			assert.notInclude((await link("/home/")).data, "alice/");
+			assert.include((await link("/home/")).data, "bob/");
+			assert.equal((await link("/home/alice/private.txt")).status, 404);
+			assert.equal((await link("/acl-hidden/")).status, 404);
+			assert.equal((await link("/acl-shared/s.txt")).data, "shared");
+		} finally {
+			access.load(new Map());
+			await authServer.stopAsync();
+		}
+	});
+
+	it("authenticates users from the users file with basic and digest authentication", async function () {
+		this.timeout(10000);
+		const userStore = new UserStore(path.join(".local", "users-" + randomString() + ".json"));
+		await userStore.addUser("carol", "p@ss:wörd+/?");
+		await userStore.addUser("dave", "dave-pass", false);
+		const authServer = WebdavServer.createServer({ port: PORT + 1, enableAuth: true, userStore, rootFileSystem: new WebdavFilesystemHandler(server) }, server);
+		await authServer.startAsync();
+		const url = `http://${DOMAIN}:${PORT + 1}/`;
+		const propfind = (auth?: { username: string, password: string }) => axios.request({ url, method: "PROPFIND", headers: { Depth: "0" }, auth, validateStatus: () => true });
+
+		try {
+			const anonymous = await propfind();
+			assert.equal(anonymous.status, 401);
+			assert.match(anonymous.headers["www-authenticate"], /Digest realm="DICloud Server"/);
+			assert.match(anonymous.headers["www-authenticate"], /Basic realm="DICloud Server"/);
+
+			assert.equal((await propfind({ username: "carol", password: "p@ss:wörd+/?" })).status, 207);
+			assert.equal((await propfind({ username: "carol", password: "wrong" })).status, 401);
+			assert.equal((await propfind({ username: "dave", password: "dave-pass" })).status, 207);
+
+			const digest = (username: string, password: string) => createClient(url, { username, password, authType: AuthType.Digest }).customRequest("/", { method: "PROPFIND", headers: { Depth: "0" } }).then((res) => res.status, (err) => err.status);
+			assert.equal(await digest("carol", "p@ss:wörd+/?"), 207);
+			assert.equal(await digest("carol", "wrong"), 401);
+			// dave has no HA1 stored, so only basic authentication works for him.
+			assert.equal(await digest("dave", "dave-pass"), 401);
+
+			// captured digest headers can not be replayed, nonces are accepted only if issued by the server and not expired.
+			const ha1 = md5(Buffer.from("carol:" + UserStore.REALM + ":p@ss:wörd+/?"));
+			const authorization = (nonce: string, nc: string) => {
+				const response = md5(Buffer.from(ha1 + ":" + nonce + ":" + nc + ":cnonce:auth:" + md5(Buffer.from("PROPFIND:/"))));
+				return `Digest username="carol", realm="${UserStore.REALM}", nonce="${nonce}", uri="/", qop=auth, nc=${nc}, cnonce="cnonce", response="${response}"`;
+			};
+			const withHeader = (header: string) => axios.request({ url, method: "PROPFIND", headers: { Depth: "0", Authorization: header }, validateStatus: () => true });
+			const nonce = /nonce="([0-9a-f]+)"/.exec(String(anonymous.headers["www-authenticate"]))![1];
+			assert.equal((await withHeader(authorization(nonce, "00000001"))).status, 207);
+			assert.equal((await withHeader(authorization(nonce, "00000001"))).status, 401);
+			assert.equal((await withHeader(authorization(nonce, "00000002"))).status, 207);
+			assert.equal((await withHeader(authorization("0".repeat(64), "00000001"))).status, 401);
+
+			const later = Date.now() + 6 * 60 * 1000;
+			const now = sinon.stub(Date, "now").returns(later);
+			try {
+				const expired = await withHeader(authorization(nonce, "00000003"));
+				assert.equal(expired.status, 401);
+				assert.match(String(expired.headers["www-authenticate"]), /stale=true/);
+			} finally {
+				now.restore();
+			}
+
+			// successful basic authentication of dave above is cached, so only the wrong password is hashed.
+			const verifyPassword = sinon.spy(userStore, "verifyPassword");
+			try {
+				assert.equal((await propfind({ username: "dave", password: "dave-pass" })).status, 207);
+				assert.equal((await propfind({ username: "dave", password: "dave-pass" })).status, 207);
+				assert.equal((await propfind({ username: "dave", password: "wrong" })).status, 401);
+				assert.equal(verifyPassword.callCount, 1);
+
+				// cached old password stops working with the password change, cached user with the removal.
+				await userStore.setPassword("dave", "new-pass", false);
+				assert.equal((await propfind({ username: "dave", password: "dave-pass" })).status, 401);
+				assert.equal((await propfind({ username: "dave", password: "new-pass" })).status, 207);
+				userStore.removeUser("dave");
+				assert.equal((await propfind({ username: "dave", password: "new-pass" })).status, 401);
+			} finally {
+				verifyPassword.restore();
+			}
+		} finally {
+			await authServer.stopAsync();
+		}
+	});
+
+	it("rejects uploads and copies over the quota and reports the quota in PROPFIND", async function () {
+		this.timeout(15000);
+		const userStore = new UserStore(path.join(".local", "users-" + randomString() + ".json"));
+		await userStore.addUser("erin", "erin-pass");
+		userStore.setQuota("erin", 1000);
+		const getUserStore = sinon.stub(server, "getUserStore").returns(userStore);
+		const authServer = WebdavServer.createServer({ port: PORT + 1, enableAuth: true, userStore, rootFileSystem: new WebdavFilesystemHandler(server) }, server);
+		await authServer.startAsync();
+		const url = `http://${DOMAIN}:${PORT + 1}`;
+		const request = (path: string, method: string, data?: any, headers?: { [name: string]: string }) =>
+			axios.request({ url: url + path, method, data, headers: { Accept: "text/xml", ...headers }, auth: { username: "erin", password: "erin-pass" }, validateStatus: () => true });
+		const quotaProps = "<?xml version=\"1.0\"?><d:propfind xmlns:d=\"DAV:\"><d:prop><d:quota-available-bytes/><d:quota-used-bytes/></d:prop></d:propfind>";
+
+		try {
+			await client.createDirectory("/quota/");
+			assert.equal((await request("/quota/a.txt", "PUT", Buffer.alloc(600, 1))).status, 201);
+			assert.equal((server.getFileSystem().getRoot().getEntryByPath("/quota/a.txt").entry as RemoteFile).getOwner(), "erin");
+
+			// known size is rejected before upload, unknown size when the limit is reached.
+			assert.equal((await request("/quota/b.txt", "PUT", Buffer.alloc(600, 2))).status, 507);
+			assert.isFalse(await client.exists("/quota/b.txt"));
+			assert.equal((await request("/quota/a.txt", "PUT", Readable.from([Buffer.alloc(300, 3), Buffer.alloc(300, 3)]))).status, 507);
+			assert.deepEqual(await client.getFileContents("/quota/a.txt"), Buffer.alloc(600, 1));
+			const unknownSize = await request("/quota/e.txt", "PUT", Readable.from([Buffer.alloc(300, 4), Buffer.alloc(300, 4)]));
+			assert.isUndefined(unknownSize.config.headers["Content-Length"]);
+			assert.equal(unknownSize.status, 507);
+			assert.isFalse(await client.exists("/quota/e.txt"));
+			assert.equal((await request("/quota/a.txt", "COPY", undefined, { Destination: url + "/quota/c.txt" })).status, 507);
+
+			const props = await request("/quota/", "PROPFIND", quotaProps, { Depth: "0" });
+			assert.equal(props.status, 207);
+			assert.match(props.data, /quota-available-bytes[^>]*>400</);
+			assert.match(props.data, /quota-used-bytes[^>]*>600</);
+			assert.notMatch((await request("/quota/", "PROPFIND", undefined, { Depth: "1" })).data, /<DAV:/);
+
+			// global quota applies to everyone, also without authentication.
+			const quota = sinon.stub(server, "getQuota").returns(1);
+			try {
+				assert.equal((await axios.request({ url: `http://${DOMAIN}:${PORT}/quota/d.txt`, method: "PUT", data: "data", validateStatus: () => true })).status, 507);
+			} finally {
+				quota.restore();
+			}
+
+			// without limits properties are not reported.
+			userStore.setQuota("erin", 0);
+			assert.notMatch((await request("/quota/", "PROPFIND", quotaProps, { Depth: "0" })).data, /quota-available-bytes[^>]*>\d/);
+		} finally {
+			getUserStore.restore();
+			await authServer.stopAsync();
+		}
+	});
+
+	it("shares files and folders with public links", async function () {
+		this.timeout(15000);
+		await client.createDirectory("/share/");
+		await client.createDirectory("/share/sub/");
+		await client.putFileContents("/share/a.txt", "shared content");
+		await client.putFileContents("/share/sub/<b>.txt", "nested");
+		const api = (method: string, path: string, data?: object) => axios.request({ url: `http://${DOMAIN}:${PORT}${path}`, method, data, validateStatus: () => true });
+		const get = (url: string, password?: string) => axios.get(url, { responseType: "text", transformResponse: (data) => data, auth: password ? { username: "", password } : undefined, validateStatus: () => true });
+
+		const limited = await api("POST", "/.shares", { path: "/share/a.txt", maxDownloads: 1 });
+		assert.equal(limited.status, 201);
+		assert.match(limited.data.url, new RegExp("^http://" + DOMAIN + ":" + PORT + "/s/"));
+		assert.equal((await get(limited.data.url)).data, "shared content");
+		assert.equal((await get(limited.data.url)).status, 410);
+
+		// concurrent downloads wait for the password check together, only the limit of them gets the file.
+		const raced = (await api("POST", "/.shares", { path: "/share/a.txt", password: "pw", maxDownloads: 2 })).data;
+		const statuses = (await Promise.all([1, 2, 3, 4, 5].map(() => get(raced.url, "pw")))).map((res) => res.status);
+		assert.deepEqual(statuses.sort(), [200, 200, 410, 410, 410]);
+
+		const protectedShare = (await api("POST", "/.shares", { path: "/share/a.txt", password: "pw" })).data;
+		assert.equal((await get(protectedShare.url)).status, 401);
+		assert.equal((await get(protectedShare.url, "wrong")).status, 401);
+		assert.equal((await get(protectedShare.url, "pw")).data, "shared content");
+
+		const folder = (await api("POST", "/.shares", { path: "/share/" })).data;
+		const listing = (await get(folder.url + "/")).data;
+		assert.include(listing, "a.txt");
+		assert.include(listing, "sub/");
+		assert.include((await get(folder.url + "/sub/")).data, "&lt;b&gt;.txt");
+		assert.equal((await get(folder.url + "/sub/" + encodeURIComponent("<b>.txt"))).data, "nested");
+		assert.equal((await get(folder.url + "/%2E%2E/share/a.txt")).status, 404);
+		assert.equal((await get(folder.url.slice(0, -2) + (folder.url.endsWith("AA") ? "BB" : "AA"))).status, 404);
+
+		// shares follow moved entries.
+		await client.moveFile("/share/a.txt", "/share/sub/moved.txt");
+		assert.equal((await get(protectedShare.url, "pw")).data, "shared content");
+		const shares = (await api("GET", "/.shares")).data as { id: string, path: string }[];
+		assert.equal(shares.find((share) => share.id == protectedShare.id)!.path, "/share/sub/moved.txt");
+
+		assert.equal((await api("POST", "/.shares", { path: "/share/missing.txt" })).status, 404);
+		assert.equal((await api("POST", "/.shares", { path: "/share/", expiresAt: "2000-01-01T00:00:00Z" })).status, 400);
+		assert.equal((await api("DELETE", "/.shares/" + folder.id)).status, 204);
+		assert.equal((await get(folder.url + "/")).status, 404);
+
+		const stored = new ShareStore(process.env.SHARES_FILE ?? "shares.json");
+		assert.equal(stored.getShareByToken(protectedShare.token)?.downloads, 2);
+		assert.isUndefined(stored.getShare(folder.id));
+	});
+
+	it("shows folders as html pages in browsers", async function () {
+		this.timeout(15000);
+		await client.createDirectory("/browse/");
+		await client.createDirectory("/browse/z folder/");
+		await client.putFileContents("/browse/<i>.txt", "12345");
+		await client.putFileContents("/browse/a.txt", "1");
+		const page = (url: string, port = PORT) => axios.get(`http://${DOMAIN}:${port}${url}`, { headers: { Accept: "text/html" }, responseType: "text", transformResponse: (data) => data, maxRedirects: 0, validateStatus: () => true });
+
+		const res = await page("/browse/");
+		assert.equal(res.status, 200);
+		assert.match(res.headers["content-type"], /^text\/html/);
+		assert.include(res.data, "&lt;i&gt;.txt");
+		assert.notInclude(res.data, "<i>.txt");
+		assert.include(res.data, "href=\"%3Ci%3E.txt\"");
+		assert.include(res.data, "<a href=\"/browse/\">browse</a>");
+		assert.include(res.data, "id=\"upload\"");
+
+		// folders first, then files by the order.
+		const order = (html: string) => ["z folder/", "&lt;i&gt;.txt", "a.txt"].sort((a, b) => html.indexOf(a) - html.indexOf(b));
+		assert.deepEqual(order(res.data), ["z folder/", "&lt;i&gt;.txt", "a.txt"]);
+		assert.deepEqual(order((await page("/browse/?sort=size&order=asc")).data), ["z folder/", "a.txt", "&lt;i&gt;.txt"]);
+		assert.deepEqual(order((await page("/browse/?sort=name&order=desc")).data), ["z folder/", "a.txt", "&lt;i&gt;.txt"]);
+
+		assert.equal((await page("/browse")).status, 301);
+		assert.notInclude((await page("/.trash/")).data, "id=\"upload\"");
+
+		// files and webdav clients are not affected.
+		assert.equal((await page("/browse/a.txt")).data, "1");
+		assert.equal((await axios.get(`http://${DOMAIN}:${PORT}/browse/`, { validateStatus: () => true })).status, 405);
+		assert.lengthOf(await client.getDirectoryContents("/browse/") as FileStat[], 3);
+
+		const plainServer = WebdavServer.createServer({ port: PORT + 1, htmlBrowser: false, rootFileSystem: new WebdavFilesystemHandler(server) }, server);
+		await plainServer.startAsync();
+		try {
+			assert.equal((await page("/browse/", PORT + 1)).status, 405);
+		} finally {
+			await plainServer.stopAsync();
+		}
+	});
+
+	it("syncs records edited and deleted by other processes into the metadata journal", async function () {
+		this.timeout(15000);
+		const journal = server.getMetadataJournal();
+		const metaChannel = await server.getMetadataChannel();
+		const sync = () => server["syncMetadataJournal"]();
+		const attachment = (record: object) => ({ files: [{ attachment: Buffer.from(JSON.stringify(record)), name: "other" }] });
+
+		// own records are not downloaded again.
+		await client.putFileContents("/sync.txt", "sync");
+		const get = sinon.spy(axios, "get");
+		try {
+			await sync();
+			assert.equal(get.callCount, 0);
+		} finally {
+			get.restore();
+		}
+
+		const msg = await metaChannel.send(attachment({ filename: "other.txt" }));
+		await sync();
+		assert.deepEqual(journal.getRecords().get(msg.id), { filename: "other.txt" });
+
+		await sleep(5);
+		await msg.edit(attachment({ filename: "edited.txt" }));
+		await sync();
+		assert.deepEqual(journal.getRecords().get(msg.id), { filename: "edited.txt" });
+
+		await msg.delete();
+		await sync();
+		assert.isFalse(journal.getRecords().has(msg.id));
+		await client.deleteFile("/sync.txt");
+	});
+
+	it("does not download unchanged records when syncing the metadata journal", async function () {
+		this.timeout(15000);
+		const journal = server.getMetadataJournal();
+		const metaChannel = await server.getMetadataChannel();
+		const sync = () => server["syncMetadataJournal"]();
+
+		const msg = await metaChannel.send({ files: [{ attachment: Buffer.from(JSON.stringify({ filename: "unchanged.txt" })), name: "other" }] });
+		await sync();
+		const records = new Map(journal.getRecords());
+
+		// every message is listed again, but none of their attachments is fetched.
+		const get = sinon.spy(axios, "get");
+		try {
+			await sync();
+			assert.equal(get.callCount, 0);
+		} finally {
+			get.restore();
+		}
+		assert.deepEqual(journal.getRecords(), records);
+		await msg.delete();
+		await sync();
+	});
+
+	it("fsck finds broken records and moves them to lost+found", async function () {
+		this.timeout(15000);
+		await client.createDirectory("/fsck/");
+		await client.putFileContents("/fsck/ok.txt", "fine");
+		await client.putFileContents("/fsck/size.txt", "wrong size");
+		await client.putFileContents("/fsck/gone.txt", "chunk deleted");
+
+		const manager = server.getDiscordFileManager();
+		const journal = server.getMetadataJournal();
+		const metaChannel = await server.getMetadataChannel();
+		const getFile = (path: string) => server.getFileSystem().getRoot().getFileByPath(path) as RemoteFile;
+
+		const sized = getFile("/fsck/size.txt");
+		sized.setTotalSize(1000);
+		await manager.updateMetaFile(sized);
+		await manager.getChunkStore().deleteChunk(getFile("/fsck/gone.txt").getChunks()[0]);
+
+		const okRecord = journal.getRecords().get(getFile("/fsck/ok.txt").getMessageMetaIdInMetaChannel()) as any;
+		const duplicate = await metaChannel.send("duplicate");
+		journal.put(duplicate.id, { ...okRecord, totalSize: 0, attachmentInfos: [] });
+		const broken = await metaChannel.send("broken");
+		journal.put(broken.id, { filename: "broken.txt", attachmentInfos: [] });
+
+		const fsck = new MetadataFsck(server);
+		const result = await fsck.check({ repair: false, checkChunks: true });
+		const types = (messageId: string) => result.problems.filter((p) => p.messageId === messageId).map((p) => p.type);
+		assert.deepEqual(types(sized.getMessageMetaIdInMetaChannel()), ["size-mismatch"]);
+		assert.deepEqual(types(getFile("/fsck/gone.txt").getMessageMetaIdInMetaChannel()), ["missing-chunk"]);
+		assert.deepEqual(types(duplicate.id), ["path-collision"]);
+		assert.deepEqual(types(broken.id), ["invalid-record"]);
+		assert.isEmpty(types(getFile("/fsck/ok.txt").getMessageMetaIdInMetaChannel()));
+
+		const repaired = await fsck.check({ repair: true, checkChunks: true });
+		assert.equal(repaired.repairedRecords, 4);
+
+		const lostAndFound = (await client.getDirectoryContents("/lost+found") as FileStat[]).map((f) => f.basename).sort();
+		assert.deepEqual(lostAndFound, ["broken.txt", "gone.txt", "ok.txt", "size.txt"]);
+		assert.equal(await client.getFileContents("/lost+found/size.txt", { format: "text" }), "wrong size");
+		assert.equal(await client.getFileContents("/fsck/ok.txt", { format: "text" }), "fine");
+
+		// chunk is still missing, but file is already quarantined.
+		const again = await fsck.check({ repair: true, checkChunks: true });
+		assert.deepEqual(again.problems.map((p) => p.type), ["missing-chunk"]);
+		assert.equal(again.repairedRecords, 0);
+
+		await client.deleteFile("/fsck/");
+	});
+
 
 });
\ No newline at end of file